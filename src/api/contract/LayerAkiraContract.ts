@@ -11,7 +11,7 @@ import {
   num,
   RpcProvider,
 } from "starknet";
-import { ExceptionIssueCode } from "../http/types";
+import { internalErrorResult } from "../errors";
 import { Result } from "../../response_types";
 import { bigintToHex, callContractMethod, hexToAscii } from "./utils";
 import { BigNumberish } from "ethers";
@@ -449,7 +449,7 @@ export class LayerAkiraContract {
       };
     } catch (e: any) {
       console.log(this.abiStructs);
-      return { code: ExceptionIssueCode, exception: e };
+      return internalErrorResult(e);
     }
   }
 }
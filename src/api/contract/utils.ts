@@ -6,7 +6,7 @@ import {
   Contract,
   RpcProvider,
 } from "starknet";
-import { NetworkIssueCode } from "../http/types";
+import { networkErrorResult } from "../errors";
 import { Result } from "../../response_types";
 import { WithdrawalEvent } from "./types";
 import {
@@ -30,7 +30,7 @@ export async function getContractAbi(
     const { abi: testAbi } = await provider.getClassAt(contractAddress);
     return { result: testAbi };
   } catch (e: any) {
-    return { code: NetworkIssueCode, exception: e } as Result<Abi>;
+    return networkErrorResult(e);
   }
 }
 
@@ -52,7 +52,7 @@ export async function callContractMethod(
     const result = await (contract as any)[method](args, callOptions);
     return { result };
   } catch (e: any) {
-    return { code: NetworkIssueCode, exception: e } as Result<any>;
+    return networkErrorResult(e);
   }
 }
 
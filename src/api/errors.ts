@@ -0,0 +1,192 @@
+import { Result } from "../response_types";
+import { ExceptionIssueCode, NetworkIssueCode } from "./http/types";
+
+/**
+ * Represents category of the failure of the operation in Result<T>
+ */
+export enum ErrorReason {
+  NETWORK = "NETWORK", // request didn't reach exchange or node, or response is malformed
+  TIMEOUT = "TIMEOUT", // no response within timeout
+  AUTH = "AUTH", // jwt token missing, expired or rejected, or signature is wrong
+  VALIDATION = "VALIDATION", // request rejected as malformed
+  RATE_LIMIT = "RATE_LIMIT", // too many requests
+  NOT_FOUND = "NOT_FOUND", // requested entity or endpoint doesn't exist
+  EXCHANGE = "EXCHANGE", // exchange declined request due to business rule, see exchangeCode
+  INTERNAL = "INTERNAL", // exception raised within sdk, e.g. while signing or parsing
+}
+
+const AUTH_ERRORS = new Set([
+  "AUTH_HEADER_INVALID",
+  "WRONG_SIGNATURE",
+  "NOT_AUTHORIZED",
+]);
+
+/**
+ * Converts human-readable error message of the exchange to the code, e.g. "Wrong account" to WRONG_ACCOUNT
+ * @param message - error message of the exchange
+ * @returns parsed code
+ */
+export function parseExchangeCode(message: string): string {
+  return message
+    .trim()
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+}
+
+/**
+ * Builds failed Result from the http response that exchange answered with
+ * @param status - http status code
+ * @param message - error message of the response
+ * @param retryAfterMillis - how long to wait before retry, if specified by exchange
+ * @returns failed Result with reason
+ */
+export function httpErrorResult<T>(
+  status: number,
+  message: string,
+  retryAfterMillis?: number,
+): Result<T> {
+  const exchangeCode = parseExchangeCode(message);
+  let reason: ErrorReason;
+  if (status == 401 || status == 403 || AUTH_ERRORS.has(exchangeCode))
+    reason = ErrorReason.AUTH;
+  else if (status == 429) reason = ErrorReason.RATE_LIMIT;
+  else if (status == 404) reason = ErrorReason.NOT_FOUND;
+  else if (status == 400 || status == 422) reason = ErrorReason.VALIDATION;
+  else if (status == 408 || status == 504) reason = ErrorReason.TIMEOUT;
+  else reason = ErrorReason.EXCHANGE;
+  return {
+    code: status,
+    error: message,
+    reason,
+    exchangeCode,
+    ...(retryAfterMillis !== undefined ? { retryAfterMillis } : {}),
+  };
+}
+
+/**
+ * Builds failed Result from exception raised while communicating with exchange or node
+ * @param e - raised exception
+ * @returns failed Result with NETWORK or TIMEOUT reason
+ */
+export function networkErrorResult<T>(e: any): Result<T> {
+  return {
+    code: NetworkIssueCode,
+    error: `${e?.shortMessage ?? e}`,
+    exception: e,
+    reason: e?.code === "TIMEOUT" ? ErrorReason.TIMEOUT : ErrorReason.NETWORK,
+  };
+}
+
+/**
+ * Builds failed Result from exception raised within sdk
+ * @param e - raised exception
+ * @returns failed Result with INTERNAL reason
+ */
+export function internalErrorResult<T>(e: any): Result<T> {
+  return {
+    code: ExceptionIssueCode,
+    error: `${e}`,
+    exception: e,
+    reason: ErrorReason.INTERNAL,
+  };
+}
+
+/**
+ * Exception thrown by unwrap, carries details of the failed Result
+ */
+export class LayerAkiraError extends Error {
+  public readonly reason: ErrorReason;
+  public readonly code?: number;
+  public readonly exchangeCode?: string;
+  public readonly retryAfterMillis?: number;
+  public readonly cause?: Error;
+
+  constructor(res: Result<unknown>) {
+    super(res.error ?? res.exception?.message ?? "Unknown error");
+    this.name = "LayerAkiraError";
+    this.reason = res.reason ?? ErrorReason.INTERNAL;
+    this.code = res.code;
+    this.exchangeCode = res.exchangeCode;
+    this.retryAfterMillis = res.retryAfterMillis;
+    this.cause = res.exception;
+  }
+}
+
+/**
+ * Returns result of the operation or throws LayerAkiraError if operation failed
+ * @param res - result of the operation
+ * @returns result
+ */
+export function unwrap<T>(res: Result<T>): T {
+  if (res.result === undefined) throw new LayerAkiraError(res);
+  return res.result;
+}
+
+/**
+ * Represents failed Result with specific reason
+ */
+export type FailedResult<R extends ErrorReason> = Result<never> & {
+  reason: R;
+};
+
+/** Checks whether operation failed */
+export function isErrorResult<T>(res: Result<T>): res is Result<never> {
+  return res.result === undefined;
+}
+
+/** Checks whether operation failed due to network failure */
+export function isNetworkError<T>(
+  res: Result<T>,
+): res is FailedResult<ErrorReason.NETWORK> {
+  return res.reason === ErrorReason.NETWORK;
+}
+
+/** Checks whether operation failed due to timeout */
+export function isTimeoutError<T>(
+  res: Result<T>,
+): res is FailedResult<ErrorReason.TIMEOUT> {
+  return res.reason === ErrorReason.TIMEOUT;
+}
+
+/** Checks whether operation failed due to rejected authentication */
+export function isAuthError<T>(
+  res: Result<T>,
+): res is FailedResult<ErrorReason.AUTH> {
+  return res.reason === ErrorReason.AUTH;
+}
+
+/** Checks whether operation failed due to rejected malformed request */
+export function isValidationError<T>(
+  res: Result<T>,
+): res is FailedResult<ErrorReason.VALIDATION> {
+  return res.reason === ErrorReason.VALIDATION;
+}
+
+/** Checks whether operation failed due to exceeded rate limit */
+export function isRateLimitError<T>(
+  res: Result<T>,
+): res is FailedResult<ErrorReason.RATE_LIMIT> {
+  return res.reason === ErrorReason.RATE_LIMIT;
+}
+
+/** Checks whether operation failed due to missing entity */
+export function isNotFoundError<T>(
+  res: Result<T>,
+): res is FailedResult<ErrorReason.NOT_FOUND> {
+  return res.reason === ErrorReason.NOT_FOUND;
+}
+
+/** Checks whether operation failed due to business error of the exchange */
+export function isExchangeError<T>(
+  res: Result<T>,
+): res is FailedResult<ErrorReason.EXCHANGE> & { exchangeCode: string } {
+  return res.reason === ErrorReason.EXCHANGE;
+}
+
+/** Checks whether operation failed due to exception within sdk */
+export function isInternalError<T>(
+  res: Result<T>,
+): res is FailedResult<ErrorReason.INTERNAL> {
+  return res.reason === ErrorReason.INTERNAL;
+}
@@ -1,19 +1,78 @@
-import { ethers, toUtf8Bytes } from "ethers";
 import { bigIntReplacer, convertToBigintRecursively, stall } from "./utils";
+import { ErrorReason, httpErrorResult, networkErrorResult } from "../errors";
+import { Result } from "../../response_types";
+import {
+  getBackoffDelay,
+  resolveRetryPolicy,
+  RetryConfiguration,
+  shouldRetry,
+} from "./RetryPolicy";
+import { RateLimiter, RateLimiterConfiguration } from "./RateLimiter";
+import { CircuitBreaker, CircuitBreakerConfiguration } from "./CircuitBreaker";
+import { NetworkIssueCode } from "./types";
+import {
+  FixtureMismatchError,
+  FixtureTransport,
+  HttpFixtureOptions,
+} from "./FixtureTransport";
+import {
+  DEFAULT_REDACTED_FIELDS,
+  EthersHttpTransport,
+  HttpInterceptor,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  redactRequest,
+} from "./HttpTransport";
+
+/**
+ * Represents transport and resilience settings of the http client
+ */
+export interface HttpClientOptions {
+  retry?: RetryConfiguration; // retry policies, by default only GET requests are retried on network failures
+  rateLimit?: RateLimiterConfiguration; // client side rate limit, by default requests are paused only on Retry-After
+  circuitBreaker?: CircuitBreakerConfiguration; // if not specified circuit breaker is disabled
+  transport?: HttpTransport; // how requests are delivered, by default via ethers FetchRequest
+  interceptors?: HttpInterceptor[]; // hooks applied to every attempt of the request
+  redactedFields?: string[]; // fields masked when request is logged, by default signatures and jwt token
+  fixtures?: HttpFixtureOptions; // records responses of the transport or serves recorded ones, disabled by default
+}
 
 export class BaseHttpAPI {
   public readonly apiBaseUrl: string;
   public readonly timeoutMillis: number;
   public logger: (arg: string) => void;
+  public readonly rateLimiter: RateLimiter;
+  public readonly circuitBreaker: CircuitBreaker | undefined;
+  public readonly transport: HttpTransport;
+  public readonly interceptors: HttpInterceptor[];
+  public readonly fixtures: FixtureTransport | undefined;
+  private readonly retryConfig: RetryConfiguration;
+  private readonly redactedFields: string[];
 
   constructor(
     apiBaseUrl: string,
     logger?: (arg: string) => void,
     timeoutMillis: number = 60 * 1000,
+    options: HttpClientOptions = {},
   ) {
     this.apiBaseUrl = apiBaseUrl;
     this.logger = logger ?? ((arg: string) => arg);
     this.timeoutMillis = timeoutMillis;
+    this.retryConfig = options.retry ?? {};
+    this.rateLimiter = new RateLimiter(options.rateLimit);
+    this.circuitBreaker =
+      options.circuitBreaker !== undefined
+        ? new CircuitBreaker(options.circuitBreaker)
+        : undefined;
+    const transport = options.transport ?? new EthersHttpTransport();
+    this.fixtures =
+      options.fixtures !== undefined
+        ? new FixtureTransport(transport, options.fixtures)
+        : undefined;
+    this.transport = this.fixtures ?? transport;
+    this.interceptors = options.interceptors ?? [];
+    this.redactedFields = options.redactedFields ?? DEFAULT_REDACTED_FIELDS;
   }
 
   /**
@@ -72,6 +131,10 @@ export class BaseHttpAPI {
     )) as T;
   }
 
+  /**
+   * Sends request according to retry policy of the endpoint, rate limiter and circuit breaker.
+   * Requests without body are considered idempotent
+   */
   protected async _fetch(
     url: string,
     applyParseInt = true,
@@ -79,51 +142,143 @@ export class BaseHttpAPI {
     headers?: object,
     body?: object,
     preApplyParser?: (o: any) => any,
-  ) {
-    const req = new ethers.FetchRequest(url);
-    if (headers) {
-      for (const [key, value] of Object.entries(headers)) {
-        req.setHeader(key, value);
-      }
-    }
-    if (body) {
-      req.body = toUtf8Bytes(JSON.stringify(body, bigIntReplacer));
-      req.setHeader("content-type", "application/json");
-    }
-    req.timeout = this.timeoutMillis;
-    req.retryFunc = async (_req, resp, attempt) => {
+  ): Promise<any> {
+    const apiPath = url.startsWith(this.apiBaseUrl)
+      ? url.slice(this.apiBaseUrl.length).split("?")[0]
+      : url;
+    const policy = resolveRetryPolicy(
+      this.retryConfig,
+      apiPath,
+      body === undefined,
+    );
+    for (let attempt = 1; ; attempt++) {
+      const waitMillis = this.circuitBreaker?.tryAcquire();
+      if (waitMillis !== undefined)
+        return {
+          code: NetworkIssueCode,
+          error: `Circuit breaker is open, request ${apiPath} not sent`,
+          reason: ErrorReason.NETWORK,
+          retryAfterMillis: waitMillis,
+        };
+      await this.rateLimiter.acquire();
+      const res: Result<any> = await this.send(
+        url,
+        applyParseInt,
+        exclusionFields,
+        headers,
+        body,
+        preApplyParser,
+      );
+      this.circuitBreaker?.record(res);
+      if (res.retryAfterMillis !== undefined)
+        this.rateLimiter.pause(res.retryAfterMillis);
+      if (!shouldRetry(policy, res, attempt)) return res;
+      const delay = getBackoffDelay(policy, attempt, res.retryAfterMillis);
       this.logger(
-        `Fetch attempt ${attempt} failed with status ${resp.statusCode}`,
+        `Fetch attempt ${attempt} of ${apiPath} failed with ${res.reason} ${res.code}, retry in ${delay}ms`,
       );
-      await stall(1000);
-      return true;
-    };
-
-    this.logger(
-      `Sending request: ${url}, ${JSON.stringify({ headers, body }, bigIntReplacer)}`,
-    );
+      await stall(delay);
+    }
+  }
 
+  private async send(
+    url: string,
+    applyParseInt: boolean,
+    exclusionFields: string[],
+    headers?: object,
+    body?: object,
+    preApplyParser?: (o: any) => any,
+  ): Promise<Result<any>> {
+    let request: HttpRequest = {
+      method: body ? "POST" : "GET",
+      url,
+      headers: {
+        ...(body ? { "content-type": "application/json" } : {}),
+        ...(headers as Record<string, string>),
+      },
+      body: body ? JSON.stringify(body, bigIntReplacer) : undefined,
+      timeoutMillis: this.timeoutMillis,
+    };
+    const started = Date.now();
     try {
-      const response = await req.send();
-      if (!response.ok()) {
-        const error = response.bodyJson?.error;
-        return error
-          ? { code: response.statusCode, message: error }
-          : { code: response.statusCode, message: response.bodyText };
-      }
+      for (const interceptor of this.interceptors)
+        if (interceptor.onRequest)
+          request = await interceptor.onRequest(request);
+
+      const { headers: logHeaders, body: logBody } = redactRequest(
+        request,
+        this.redactedFields,
+      );
+      this.logger(
+        `Sending request: ${url}, ${JSON.stringify({ headers: logHeaders, body: logBody })}`,
+      );
 
-      if (response.bodyJson.result === undefined) return response.bodyJson;
-      let data = preApplyParser
-        ? preApplyParser(response.bodyJson["result"])
-        : response.bodyJson["result"];
-      return {
-        result: applyParseInt
-          ? convertToBigintRecursively(data, exclusionFields)
-          : data,
-      };
+      let response = await this.transport.send(request);
+      for (const interceptor of this.interceptors)
+        if (interceptor.onResponse)
+          response = await interceptor.onResponse(
+            request,
+            response,
+            Date.now() - started,
+          );
+      return this.parseResponse(
+        response,
+        applyParseInt,
+        exclusionFields,
+        preApplyParser,
+      );
     } catch (e: any) {
-      return { code: "NETWORK_ERROR", exception: e };
+      // missing fixture is a bug of the test, so it is not retried nor turned into result
+      if (e instanceof FixtureMismatchError) throw e;
+      this.interceptors.forEach((i) =>
+        i.onError?.(request, e, Date.now() - started),
+      );
+      return networkErrorResult(e);
+    }
+  }
+
+  private parseResponse(
+    response: HttpResponse,
+    applyParseInt: boolean,
+    exclusionFields: string[],
+    preApplyParser?: (o: any) => any,
+  ): Result<any> {
+    const ok = response.statusCode >= 200 && response.statusCode < 300;
+    if (!ok) {
+      const retryAfter = response.headers["retry-after"];
+      return httpErrorResult(
+        response.statusCode,
+        this.getErrorMessage(response),
+        retryAfter !== undefined && /^\d+$/.test(retryAfter)
+          ? parseInt(retryAfter) * 1000
+          : undefined,
+      );
+    }
+
+    // malformed body throws and is reported as network issue
+    const bodyJson = JSON.parse(response.body);
+    if (bodyJson.result === undefined)
+      return bodyJson.error !== undefined
+        ? httpErrorResult(response.statusCode, `${bodyJson.error}`)
+        : bodyJson;
+    let data = preApplyParser
+      ? preApplyParser(bodyJson["result"])
+      : bodyJson["result"];
+    return {
+      result: applyParseInt
+        ? convertToBigintRecursively(data, exclusionFields)
+        : data,
+    };
+  }
+
+  private getErrorMessage(response: HttpResponse): string {
+    try {
+      const error = JSON.parse(response.body)?.error;
+      if (error) return `${error}`;
+    } catch (e) {
+      // body is not a json
     }
+    return response.body;
   }
 
   protected objectToSearchParams(params: object = {}) {
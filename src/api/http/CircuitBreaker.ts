@@ -0,0 +1,93 @@
+import { Result } from "../../response_types";
+import { ErrorReason } from "../errors";
+
+/**
+ * Represents settings of the circuit breaker of the http client
+ */
+export interface CircuitBreakerConfiguration {
+  failureThreshold: number; // number of consecutive failures that opens the circuit
+  resetTimeoutMillis: number; // for how long circuit stays open before probing request is allowed
+}
+
+/**
+ * Represents state of the circuit breaker
+ */
+export enum CircuitState {
+  CLOSED = "CLOSED", // requests are sent
+  OPEN = "OPEN", // requests are rejected without sending
+  HALF_OPEN = "HALF_OPEN", // single probing request is sent, its outcome closes or reopens the circuit
+}
+
+/**
+ * The CircuitBreaker class stops sending requests to the exchange that is unavailable.
+ * Only network failures, timeouts and 5xx statuses that indicate unavailability are counted,
+ * business errors of the exchange mean that it is up
+ * @category Main Classes
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfiguration;
+  private failures: number = 0;
+  private openedAt: number = 0;
+  private probing: boolean = false;
+  private _state: CircuitState = CircuitState.CLOSED;
+
+  constructor(config: CircuitBreakerConfiguration) {
+    this.config = config;
+  }
+
+  public get state(): CircuitState {
+    if (
+      this._state === CircuitState.OPEN &&
+      Date.now() - this.openedAt >= this.config.resetTimeoutMillis
+    )
+      this._state = CircuitState.HALF_OPEN;
+    return this._state;
+  }
+
+  /**
+   * Checks whether request might be sent, in HALF_OPEN state only one request is allowed
+   * @returns undefined if request allowed, otherwise milliseconds until next probing request
+   */
+  public tryAcquire(): number | undefined {
+    const state = this.state;
+    if (state === CircuitState.CLOSED) return undefined;
+    if (state === CircuitState.HALF_OPEN && !this.probing) {
+      this.probing = true;
+      return undefined;
+    }
+    return Math.max(
+      this.openedAt + this.config.resetTimeoutMillis - Date.now(),
+      0,
+    );
+  }
+
+  /**
+   * Records outcome of the sent request
+   * @param res - result of the request
+   */
+  public record<T>(res: Result<T>) {
+    this.probing = false;
+    if (!CircuitBreaker.isUnavailable(res)) {
+      this.failures = 0;
+      this._state = CircuitState.CLOSED;
+      return;
+    }
+    this.failures += 1;
+    if (
+      this._state === CircuitState.HALF_OPEN ||
+      this.failures >= this.config.failureThreshold
+    ) {
+      this._state = CircuitState.OPEN;
+      this.openedAt = Date.now();
+    }
+  }
+
+  private static isUnavailable<T>(res: Result<T>): boolean {
+    return (
+      res.reason === ErrorReason.NETWORK ||
+      res.reason === ErrorReason.TIMEOUT ||
+      res.code === 502 ||
+      res.code === 503
+    );
+  }
+}
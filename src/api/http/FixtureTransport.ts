@@ -0,0 +1,177 @@
+import {
+  DEFAULT_REDACTED_FIELDS,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  redactJson,
+} from "./HttpTransport";
+
+/**
+ * Represents whether FixtureTransport records real responses or serves recorded ones
+ */
+export enum FixtureMode {
+  RECORD = "record", // requests are sent via inner transport and responses are recorded
+  REPLAY = "replay", // requests are answered from fixtures without network
+}
+
+/**
+ * Represents recorded request with its response, secrets of both are masked
+ */
+export interface HttpFixture {
+  method: "GET" | "POST";
+  path: string; // path of the url without query string
+  query: string; // query string with params sorted by name
+  body?: string; // json body with sorted keys
+  response: HttpResponse;
+}
+
+/**
+ * Represents parameters of the FixtureTransport
+ */
+export interface HttpFixtureOptions {
+  mode: FixtureMode;
+  fixtures?: HttpFixture[]; // fixtures to replay, in record mode new ones are appended to them
+  redactedFields?: string[]; // fields masked in requests and responses, by default signatures and jwt token
+  secretPaths?: string[]; // endpoints which results are masked entirely, by default jwt and listen key ones
+}
+
+/**
+ * Exception thrown in replay mode if there is no fixture for the request
+ */
+export class FixtureMismatchError extends Error {
+  public readonly request: HttpRequest;
+
+  constructor(request: HttpRequest, key: string) {
+    super(`No recorded fixture for ${key}`);
+    this.name = "FixtureMismatchError";
+    this.request = request;
+  }
+}
+
+const DEFAULT_SECRET_PATHS = ["/sign/auth", "/user/listen_key"];
+const JWT_PATTERN = /^eyJ[\w-]*\.[\w-]+\.[\w-]*$/;
+const REDACTED = "***";
+
+/**
+ * The FixtureTransport class records responses of the inner transport and serves them back offline,
+ * so tests of LayerAkiraHttpAPI, IndexerAPI and LayerAkiraUIQuoter can run without exchange.
+ * Requests are matched by method, path, query and body with masked secrets,
+ * repeated requests are answered in order they were recorded and the last response is reused afterwards.
+ * In replay mode unmatched request throws FixtureMismatchError that is not swallowed by http client
+ * @category Testing
+ */
+export class FixtureTransport implements HttpTransport {
+  public readonly mode: FixtureMode;
+  private readonly inner: HttpTransport;
+  private readonly recorded: HttpFixture[];
+  private readonly redactedFields: string[];
+  private readonly secretPaths: string[];
+  private readonly served = new Map<string, number>();
+
+  /**
+   * Creates an instance of FixtureTransport.
+   * @param inner - transport used to send requests in record mode
+   * @param options - mode and fixtures
+   */
+  constructor(inner: HttpTransport, options: HttpFixtureOptions) {
+    this.inner = inner;
+    this.mode = options.mode;
+    this.recorded = [...(options.fixtures ?? [])];
+    this.redactedFields = options.redactedFields ?? DEFAULT_REDACTED_FIELDS;
+    this.secretPaths = options.secretPaths ?? DEFAULT_SECRET_PATHS;
+  }
+
+  /**
+   * Recorded fixtures that are safe to save, e.g. with saveFixtures
+   */
+  public get fixtures(): HttpFixture[] {
+    return [...this.recorded];
+  }
+
+  public async send(request: HttpRequest): Promise<HttpResponse> {
+    const fixture = this.normalizeRequest(request);
+    const key = fixtureKey(fixture);
+    if (this.mode === FixtureMode.RECORD) {
+      const response = await this.inner.send(request);
+      this.recorded.push({
+        ...fixture,
+        response: this.redactResponse(fixture.path, response),
+      });
+      return response;
+    }
+    const candidates = this.recorded.filter((f) => fixtureKey(f) === key);
+    if (candidates.length === 0) throw new FixtureMismatchError(request, key);
+    const served = this.served.get(key) ?? 0;
+    this.served.set(key, served + 1);
+    const { response } = candidates[Math.min(served, candidates.length - 1)];
+    return { ...response, headers: { ...response.headers } };
+  }
+
+  private normalizeRequest(
+    request: HttpRequest,
+  ): Omit<HttpFixture, "response"> {
+    const url = new URL(request.url);
+    url.searchParams.sort();
+    let body = request.body;
+    if (body !== undefined) {
+      try {
+        body = stableStringify(this.redact(JSON.parse(body)));
+      } catch (e) {
+        // not a json, matched as is
+      }
+    }
+    return {
+      method: request.method,
+      path: url.pathname,
+      query: url.searchParams.toString(),
+      body,
+    };
+  }
+
+  private redactResponse(path: string, response: HttpResponse): HttpResponse {
+    let body = response.body;
+    try {
+      const json = JSON.parse(body);
+      if (this.secretPaths.includes(path) && json?.result !== undefined)
+        json.result = REDACTED;
+      body = JSON.stringify(this.redact(json));
+    } catch (e) {
+      if (JWT_PATTERN.test(body.trim())) body = REDACTED;
+    }
+    return {
+      statusCode: response.statusCode,
+      headers: this.redact(response.headers),
+      body,
+    };
+  }
+
+  private redact(obj: any): any {
+    const maskJwt = (o: any): any => {
+      if (typeof o === "string") return JWT_PATTERN.test(o) ? REDACTED : o;
+      if (Array.isArray(o)) return o.map(maskJwt);
+      if (o === null || typeof o !== "object") return o;
+      return Object.fromEntries(
+        Object.entries(o).map(([k, v]) => [k, maskJwt(v)]),
+      );
+    };
+    return maskJwt(redactJson(obj, this.redactedFields));
+  }
+}
+
+function fixtureKey(fixture: Omit<HttpFixture, "response">): string {
+  const query = fixture.query === "" ? "" : `?${fixture.query}`;
+  return `${fixture.method} ${fixture.path}${query} ${fixture.body ?? ""}`.trim();
+}
+
+function stableStringify(obj: any): string {
+  const sort = (o: any): any => {
+    if (Array.isArray(o)) return o.map(sort);
+    if (o === null || typeof o !== "object") return o;
+    return Object.fromEntries(
+      Object.keys(o)
+        .sort()
+        .map((k) => [k, sort(o[k])]),
+    );
+  };
+  return JSON.stringify(sort(obj));
+}
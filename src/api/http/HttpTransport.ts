@@ -0,0 +1,166 @@
+import { ethers, toUtf8Bytes } from "ethers";
+
+/**
+ * Represents http request as it is passed to the transport
+ */
+export interface HttpRequest {
+  method: "GET" | "POST";
+  url: string; // full url including query string
+  headers: Record<string, string>;
+  body?: string; // serialized json body
+  timeoutMillis: number;
+}
+
+/**
+ * Represents http response as it is returned by the transport
+ */
+export interface HttpResponse {
+  statusCode: number;
+  headers: Record<string, string>; // header names are lowercase
+  body: string; // raw response body
+}
+
+/**
+ * Represents the way http requests are delivered to the exchange, e.g. via proxy or recorded fixtures.
+ * Transport should throw on network failure and throw error with code TIMEOUT if request timed out
+ */
+export interface HttpTransport {
+  send(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/**
+ * Represents hooks around every request sent by http client, e.g. for logging, metrics or header injection.
+ * Interceptors are applied in order they specified, onRequest might return modified request
+ */
+export interface HttpInterceptor {
+  onRequest?: (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+  onResponse?: (
+    request: HttpRequest,
+    response: HttpResponse,
+    elapsedMillis: number,
+  ) => HttpResponse | Promise<HttpResponse>;
+  onError?: (request: HttpRequest, error: any, elapsedMillis: number) => void;
+}
+
+/**
+ * Fields that carry secrets and are masked by redactJson, compared case-insensitively
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  "authorization",
+  "sign",
+  "signature",
+  "router_sign",
+  "jwt",
+];
+
+const REDACTED = "***";
+
+/**
+ * Masks values of the secret fields of the object recursively
+ * @param obj - object to redact, e.g. headers or parsed body
+ * @param fields - names of the fields to mask
+ * @returns copy of the object with masked fields
+ */
+export function redactJson(
+  obj: any,
+  fields: string[] = DEFAULT_REDACTED_FIELDS,
+): any {
+  const lowered = new Set(fields.map((f) => f.toLowerCase()));
+  const redact = (o: any): any => {
+    if (Array.isArray(o)) return o.map(redact);
+    if (o === null || typeof o !== "object") return o;
+    return Object.fromEntries(
+      Object.entries(o).map(([k, v]) => [
+        k,
+        lowered.has(k.toLowerCase()) ? REDACTED : redact(v),
+      ]),
+    );
+  };
+  return redact(obj);
+}
+
+/**
+ * Masks values of the secret fields of the request headers and body
+ * @param request - request to redact
+ * @param fields - names of the fields to mask
+ * @returns copy of the request that is safe to log
+ */
+export function redactRequest(
+  request: HttpRequest,
+  fields: string[] = DEFAULT_REDACTED_FIELDS,
+): HttpRequest {
+  let body = request.body;
+  if (body !== undefined) {
+    try {
+      body = JSON.stringify(redactJson(JSON.parse(body), fields));
+    } catch (e) {
+      body = REDACTED;
+    }
+  }
+  return { ...request, headers: redactJson(request.headers, fields), body };
+}
+
+/**
+ * Creates interceptor that logs requests and responses with masked secrets
+ * @param logger - Logger function.
+ * @param fields - names of the fields to mask
+ */
+export function loggingInterceptor(
+  logger: (arg: string) => void,
+  fields: string[] = DEFAULT_REDACTED_FIELDS,
+): HttpInterceptor {
+  return {
+    onResponse: (request, response, elapsedMillis) => {
+      const { method, url, body } = redactRequest(request, fields);
+      logger(
+        `${method} ${url} ${body ?? ""} -> ${response.statusCode} in ${elapsedMillis}ms`,
+      );
+      return response;
+    },
+    onError: (request, error, elapsedMillis) => {
+      logger(
+        `${request.method} ${request.url} failed in ${elapsedMillis}ms: ${error}`,
+      );
+    },
+  };
+}
+
+/**
+ * Creates interceptor that adds headers to every request, e.g. for tracing
+ * @param headers - headers to add or function that builds them per request
+ */
+export function headersInterceptor(
+  headers: Record<string, string> | (() => Record<string, string>),
+): HttpInterceptor {
+  return {
+    onRequest: (request) => ({
+      ...request,
+      headers: {
+        ...request.headers,
+        ...(typeof headers === "function" ? headers() : headers),
+      },
+    }),
+  };
+}
+
+/**
+ * The default transport that sends requests via ethers FetchRequest
+ */
+export class EthersHttpTransport implements HttpTransport {
+  public async send(request: HttpRequest): Promise<HttpResponse> {
+    const req = new ethers.FetchRequest(request.url);
+    req.method = request.method;
+    for (const [key, value] of Object.entries(request.headers))
+      req.setHeader(key, value);
+    if (request.body !== undefined) req.body = toUtf8Bytes(request.body);
+    req.timeout = request.timeoutMillis;
+    // throttled responses are retried by http client according to retry policy
+    req.retryFunc = async () => false;
+    const response = await req.send();
+    return {
+      statusCode: response.statusCode,
+      headers: response.headers,
+      body: response.bodyText,
+    };
+  }
+}
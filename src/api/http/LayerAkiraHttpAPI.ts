@@ -29,7 +29,7 @@ import {
   formattedDecimalToBigInt,
   parseTableLvl,
 } from "../utils";
-import { BaseHttpAPI } from "./BaseHttpAPI";
+import { BaseHttpAPI, HttpClientOptions } from "./BaseHttpAPI";
 
 export interface LayerAkiraHttpConfig {
   jwt?: string;
@@ -39,6 +39,7 @@ export interface LayerAkiraHttpConfig {
 }
 
 const AUTH_HEADER_INVALID_MSG = "Auth header invalid";
+const AUTH_PATHS = ["/sign/request_sign_data", "/sign/auth"];
 
 /**
  * The API class for the LayerAkira SDK.
@@ -51,6 +52,7 @@ export class LayerAkiraHttpAPI extends BaseHttpAPI {
   private tradingAccount: Address | undefined;
   private signer: Address | undefined;
   private baseFeeToken: ERC20Token;
+  private authRefresher: (() => Promise<boolean>) | undefined;
 
   constructor(
     config: LayerAkiraHttpConfig,
@@ -58,8 +60,9 @@ export class LayerAkiraHttpAPI extends BaseHttpAPI {
     baseFeeToken: ERC20Token,
     logger?: (arg: string) => void,
     timeoutMillis?: number,
+    options?: HttpClientOptions,
   ) {
-    super(config.apiBaseUrl, logger, timeoutMillis);
+    super(config.apiBaseUrl, logger, timeoutMillis, options);
     this.jwtToken = config.jwt;
     this.tradingAccount = config.tradingAccount;
     this.signer = config.signer;
@@ -114,6 +117,15 @@ export class LayerAkiraHttpAPI extends BaseHttpAPI {
     return this.signer;
   }
 
+  /**
+   * Set callback that is invoked when exchange rejects jwt token, if callback returns true
+   * rejected request is replayed once with new credentials
+   * @param refresher - callback that reissues jwt token, undefined to remove
+   */
+  public setAuthRefresher(refresher?: () => Promise<boolean>) {
+    this.authRefresher = refresher;
+  }
+
   /**
    * Set jwt token and trading account for this instance so client can reach endpoints which requires authorization
    */
@@ -590,20 +602,42 @@ export class LayerAkiraHttpAPI extends BaseHttpAPI {
     headers?: object,
     body?: object,
     preApplyParser?: (o: any) => any,
-  ) {
-    headers = {
-      ...(this.jwtToken ? { Authorization: this.jwtToken } : {}),
-      ...headers,
-    };
+    isReplay = false,
+  ): Promise<any> {
+    // token is being issued by these requests, so stale one is not sent and its rejection does not trigger reissue
+    const isAuth = AUTH_PATHS.some((p) =>
+      url.startsWith(`${this.apiBaseUrl}${p}`),
+    );
     const resp = await super._fetch(
       url,
       applyParseInt,
       exclusionFields,
-      headers,
+      {
+        ...(this.jwtToken && !isAuth ? { Authorization: this.jwtToken } : {}),
+        ...headers,
+      },
       body,
       preApplyParser,
     );
-    this.isJWTInvalid = resp.message === AUTH_HEADER_INVALID_MSG;
+    if (isAuth) return resp;
+    this.isJWTInvalid = resp.error === AUTH_HEADER_INVALID_MSG;
+    if (
+      this.isJWTInvalid &&
+      !isReplay &&
+      this.authRefresher !== undefined &&
+      (await this.authRefresher())
+    ) {
+      this.logger(`Replaying request ${url} with reissued jwt token`);
+      return await this._fetch(
+        url,
+        applyParseInt,
+        exclusionFields,
+        headers,
+        body,
+        preApplyParser,
+        true,
+      );
+    }
     return resp;
   }
 
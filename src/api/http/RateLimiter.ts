@@ -0,0 +1,73 @@
+import { stall } from "./utils";
+
+/**
+ * Represents client side rate limit of the http client
+ */
+export interface RateLimiterConfiguration {
+  requestsPerSecond: number; // sustained rate of the requests
+  burst?: number; // how many requests might be sent at once, by default equal to requestsPerSecond
+}
+
+/**
+ * The RateLimiter class throttles requests with token bucket.
+ * When exchange answers with Retry-After, all requests are paused for requested time
+ * @category Main Classes
+ */
+export class RateLimiter {
+  private readonly requestsPerSecond: number | undefined;
+  private readonly burst: number;
+  private tokens: number;
+  private refilledAt: number;
+  private pausedUntil: number = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param config - rate limit, if not specified requests are only paused on Retry-After
+   */
+  constructor(config?: RateLimiterConfiguration) {
+    this.requestsPerSecond = config?.requestsPerSecond;
+    this.burst = config?.burst ?? config?.requestsPerSecond ?? 1;
+    this.tokens = this.burst;
+    this.refilledAt = Date.now();
+  }
+
+  /**
+   * Waits until request is allowed to be sent, requests are served in order of acquisition
+   */
+  public async acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    return await turn;
+  }
+
+  /**
+   * Pauses all requests, e.g. when exchange answered with Retry-After
+   * @param millis - for how long requests should be paused
+   */
+  public pause(millis: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + millis);
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        await stall(this.pausedUntil - now);
+        continue;
+      }
+      if (this.requestsPerSecond === undefined) return;
+      this.tokens = Math.min(
+        this.burst,
+        this.tokens + ((now - this.refilledAt) * this.requestsPerSecond) / 1000,
+      );
+      this.refilledAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await stall(
+        Math.ceil(((1 - this.tokens) * 1000) / this.requestsPerSecond),
+      );
+    }
+  }
+}
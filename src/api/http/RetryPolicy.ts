@@ -0,0 +1,112 @@
+import { Result } from "../../response_types";
+import { ErrorReason } from "../errors";
+
+/**
+ * Represents rules for repeating failed http requests
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // total number of attempts including the first one, 1 disables retries
+  baseDelayMillis: number; // delay before the first retry, doubled on each next one
+  maxDelayMillis: number; // upper bound of the delay
+  jitter: boolean; // whether delay is randomized in range [0, delay] to spread retries of clients
+  retryOn: ErrorReason[]; // failure reasons that are worth retrying
+  retryOnStatus: number[]; // http status codes that are worth retrying regardless of reason
+}
+
+/**
+ * Represents retry policies of the http client, every field overrides only specified fields of defaults
+ */
+export interface RetryConfiguration {
+  idempotent?: Partial<RetryPolicy>; // applied to GET requests
+  nonIdempotent?: Partial<RetryPolicy>; // applied to POST requests, e.g. placing order or withdraw
+  endpoints?: { [apiPath: string]: Partial<RetryPolicy> }; // overrides for specific paths, e.g. /place_order
+}
+
+/**
+ * Default policy for requests that are safe to repeat
+ */
+export const DEFAULT_IDEMPOTENT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMillis: 250,
+  maxDelayMillis: 5000,
+  jitter: true,
+  retryOn: [ErrorReason.NETWORK, ErrorReason.TIMEOUT, ErrorReason.RATE_LIMIT],
+  retryOnStatus: [502, 503],
+};
+
+/**
+ * Default policy for requests that change state of the exchange.
+ * Only rate limited requests are repeated since exchange rejected them without processing,
+ * while after network failure or timeout it is unknown whether request was processed
+ */
+export const DEFAULT_NON_IDEMPOTENT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMillis: 250,
+  maxDelayMillis: 5000,
+  jitter: true,
+  retryOn: [ErrorReason.RATE_LIMIT],
+  retryOnStatus: [],
+};
+
+/**
+ * Resolves policy for the request
+ * @param config - retry configuration of the client
+ * @param apiPath - path of the endpoint under api
+ * @param isIdempotent - whether request is safe to repeat
+ * @returns resolved policy
+ */
+export function resolveRetryPolicy(
+  config: RetryConfiguration,
+  apiPath: string,
+  isIdempotent: boolean,
+): RetryPolicy {
+  return isIdempotent
+    ? {
+        ...DEFAULT_IDEMPOTENT_RETRY_POLICY,
+        ...config.idempotent,
+        ...config.endpoints?.[apiPath],
+      }
+    : {
+        ...DEFAULT_NON_IDEMPOTENT_RETRY_POLICY,
+        ...config.nonIdempotent,
+        ...config.endpoints?.[apiPath],
+      };
+}
+
+/**
+ * Checks whether failed request should be repeated
+ * @param policy - retry policy
+ * @param res - result of the failed attempt
+ * @param attempt - number of the failed attempt starting from 1
+ */
+export function shouldRetry<T>(
+  policy: RetryPolicy,
+  res: Result<T>,
+  attempt: number,
+): boolean {
+  if (res.result !== undefined || attempt >= policy.maxAttempts) return false;
+  return (
+    (res.reason !== undefined && policy.retryOn.includes(res.reason)) ||
+    (res.code !== undefined && policy.retryOnStatus.includes(res.code))
+  );
+}
+
+/**
+ * Calculates exponential delay before next attempt
+ * @param policy - retry policy
+ * @param attempt - number of the failed attempt starting from 1
+ * @param retryAfterMillis - delay requested by exchange, if any, it is never shortened
+ * @returns delay in milliseconds
+ */
+export function getBackoffDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterMillis?: number,
+): number {
+  const exp = Math.min(
+    policy.maxDelayMillis,
+    policy.baseDelayMillis * 2 ** (attempt - 1),
+  );
+  const delay = policy.jitter ? Math.floor(Math.random() * exp) : exp;
+  return Math.max(delay, retryAfterMillis ?? 0);
+}
@@ -0,0 +1,168 @@
+import { TypedData } from "starknet";
+import { TraderSignature } from "../../request_types";
+import { Result } from "../../response_types";
+import { Address } from "../../types";
+import { getTypedDataForJWT, StarknetDomain } from "../signing/snip12";
+import { LayerAkiraWSSAPI } from "../websocket/LayerAkiraWSSAPI";
+import { LayerAkiraHttpAPI } from "./LayerAkiraHttpAPI";
+import { internalErrorResult } from "../errors";
+
+const MAX_TIMEOUT_MILLIS = 2 ** 31 - 1;
+
+/**
+ * Callback that signs typed data on behalf of trading account, e.g. via starknet Signer or Account
+ */
+export type SignTypedDataCallback = (
+  data: TypedData,
+) => Promise<TraderSignature>;
+
+/**
+ * Extracts expiration time in milliseconds from jwt token
+ * @param jwt - token
+ * @returns epoch millis or undefined if token has no exp claim
+ */
+export function getJWTExpiration(jwt: string): number | undefined {
+  try {
+    const payload = jwt.split(".")[1];
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const json = JSON.parse(
+      atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=")),
+    );
+    return typeof json.exp === "number" ? json.exp * 1000 : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * The SessionManager class keeps http client authenticated.
+ * It issues jwt token, reissues it before expiry and when exchange rejects it,
+ * in the latter case rejected request is replayed once with new token.
+ * If websocket client specified, its listen key is refreshed once new token issued
+ * @category Main Classes
+ */
+export class SessionManager {
+  public logger: (arg: string) => void;
+
+  private readonly httpClient: LayerAkiraHttpAPI;
+  private readonly wsClient: LayerAkiraWSSAPI | undefined;
+  private readonly tradingAccount: Address;
+  private readonly signer: Address;
+  private readonly domain: StarknetDomain;
+  private readonly signCallback: SignTypedDataCallback;
+  private readonly refreshBeforeExpiryMillis: number;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private pendingAuth: Promise<Result<string>> | null = null;
+
+  /**
+   * Creates an instance of SessionManager.
+   * @param httpClient - http client to keep authenticated
+   * @param tradingAccount - trading account
+   * @param signer - public key that is responsible for signing action on behalf of account
+   * @param domain - starknet domain where exchange name and version and chain specified
+   * @param signCallback - signs typed data on behalf of trading account
+   * @param wsClient - optional websocket client which listen key should be refreshed along with token
+   * @param logger - Logger function.
+   * @param refreshBeforeExpiryMillis - how long before expiry token should be reissued
+   */
+  constructor(
+    httpClient: LayerAkiraHttpAPI,
+    tradingAccount: Address,
+    signer: Address,
+    domain: StarknetDomain,
+    signCallback: SignTypedDataCallback,
+    wsClient?: LayerAkiraWSSAPI,
+    logger?: (arg: string) => void,
+    refreshBeforeExpiryMillis: number = 60 * 1000,
+  ) {
+    this.httpClient = httpClient;
+    this.wsClient = wsClient;
+    this.tradingAccount = tradingAccount;
+    this.signer = signer;
+    this.domain = domain;
+    this.signCallback = signCallback;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.refreshBeforeExpiryMillis = refreshBeforeExpiryMillis;
+  }
+
+  /**
+   * Authenticates and installs re-authentication on rejected token into http client
+   * @returns issued jwt token
+   */
+  public async start(): Promise<Result<string>> {
+    this.httpClient.setAuthRefresher(async () => {
+      const res = await this.refresh();
+      return res.result !== undefined;
+    });
+    return await this.refresh();
+  }
+
+  /**
+   * Stops scheduled refreshes and removes re-authentication from http client
+   */
+  public stop() {
+    this.httpClient.setAuthRefresher(undefined);
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Issues new jwt token, concurrent calls share the same authentication request
+   * @returns issued jwt token
+   */
+  public async refresh(): Promise<Result<string>> {
+    if (this.pendingAuth === null)
+      this.pendingAuth = this.authenticate().finally(() => {
+        this.pendingAuth = null;
+      });
+    return await this.pendingAuth;
+  }
+
+  private async authenticate(): Promise<Result<string>> {
+    this.logger(`Issuing jwt token for ${this.tradingAccount}`);
+    const signData = await this.httpClient.getSignData(
+      this.signer,
+      this.tradingAccount,
+    );
+    if (signData.result === undefined)
+      return { ...signData, result: undefined };
+    let signature: TraderSignature;
+    try {
+      signature = await this.signCallback(
+        getTypedDataForJWT(signData.result, this.domain),
+      );
+    } catch (e: any) {
+      this.logger(`Failed to sign jwt sign data: ${e}`);
+      return internalErrorResult(e);
+    }
+    const jwt = await this.httpClient.auth(signData.result, signature);
+    if (jwt.result === undefined) {
+      this.logger(`Failed to issue jwt token: ${JSON.stringify(jwt)}`);
+      return jwt;
+    }
+    this.httpClient.setCredentials(
+      jwt.result,
+      this.tradingAccount,
+      this.signer,
+    );
+    this.scheduleRefresh(jwt.result);
+    // not awaited: listen key request itself might be replayed via this session
+    if (this.wsClient !== undefined && !this.wsClient.isClosed)
+      this.wsClient.refreshListenKey();
+    return jwt;
+  }
+
+  private scheduleRefresh(jwt: string) {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    const expiration = getJWTExpiration(jwt);
+    if (expiration === undefined) return;
+    const delay = Math.min(
+      Math.max(expiration - this.refreshBeforeExpiryMillis - Date.now(), 0),
+      MAX_TIMEOUT_MILLIS,
+    );
+    this.refreshTimer = setTimeout(() => this.refresh(), delay);
+  }
+}
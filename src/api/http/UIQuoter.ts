@@ -1,7 +1,7 @@
 import { ERC20Token, ERCToDecimalsMap } from "../../request_types";
 import { BBO, Result, Snapshot } from "../../response_types";
 import { formattedDecimalToBigInt, parseTableLvl } from "../utils";
-import { BaseHttpAPI } from "./BaseHttpAPI";
+import { BaseHttpAPI, HttpClientOptions } from "./BaseHttpAPI";
 
 /**
  * The API class for the LayerAkira SDK.
@@ -17,8 +17,9 @@ export class LayerAkiraUIQuoter extends BaseHttpAPI {
     baseFeeToken: ERC20Token,
     logger?: (arg: string) => void,
     timeoutMillis?: number,
+    options?: HttpClientOptions,
   ) {
-    super(apiBaseUrl, logger, timeoutMillis);
+    super(apiBaseUrl, logger, timeoutMillis, options);
     this.erc20ToDecimals = erc20ToDecimals;
     this.baseFeeToken = baseFeeToken;
   }
@@ -1,6 +1,15 @@
+export * from "./errors";
 export * from "./http/LayerAkiraHttpAPI";
+export * from "./http/SessionManager";
+export * from "./http/RetryPolicy";
+export * from "./http/RateLimiter";
+export * from "./http/CircuitBreaker";
+export * from "./http/HttpTransport";
+export * from "./http/FixtureTransport";
+export type { HttpClientOptions } from "./http/BaseHttpAPI";
 export * from "./websocket/LayerAkiraWSSAPI";
 export * from "./websocket/DepthBook";
+export * from "./websocket/OrderTracker";
 export * from "./websocket/types";
 export { castToApiSignature } from "./http/utils";
 export * from "./executeOutside/utils";
@@ -9,8 +9,9 @@ import {
   MarketStat,
   TraderVolume,
 } from "./types";
-import { BaseHttpAPI } from "../http/BaseHttpAPI";
+import { BaseHttpAPI, HttpClientOptions } from "../http/BaseHttpAPI";
 import { ERC20Token } from "../../request_types";
+import { paginate, PaginationOptions } from "./pagination";
 
 export interface TraderOrdersParams {
   trader: string;
@@ -68,8 +69,9 @@ export class IndexerAPI extends BaseHttpAPI {
     apiBaseUrl: string,
     logger?: (arg: string) => void,
     timeoutMillis?: number,
+    options?: HttpClientOptions,
   ) {
-    super(apiBaseUrl, logger, timeoutMillis);
+    super(apiBaseUrl, logger, timeoutMillis, options);
   }
 
   /**
@@ -297,4 +299,98 @@ export class IndexerAPI extends BaseHttpAPI {
       (o: any) => o,
     );
   }
+
+  /**
+   * Iterates over all orders of the trader, page after page
+   * @param params - filters of getTraderOrders
+   * @param options - page size, stop predicate, time window by created_at and retry policy
+   * @returns orders in the same order as getTraderOrders
+   */
+  public iterateTraderOrders(
+    params: Omit<TraderOrdersParams, "cursor" | "num">,
+    options: PaginationOptions<DbOrder> = {},
+  ): AsyncGenerator<DbOrder, void, undefined> {
+    return paginate(
+      (cursor, num) =>
+        this.getTraderOrders({ ...params, cursor, num: String(num) }),
+      options,
+      { getTime: (o) => o.created_at * 1000, ascending: !!params.reverse },
+    );
+  }
+
+  /**
+   * Iterates over all trades of the ticker, page after page.
+   * Trades carry no time, so time window of options is not applied
+   * @param params - filters of getTradesByTicker
+   * @param options - page size, stop predicate and retry policy
+   * @returns trades in the same order as getTradesByTicker
+   */
+  public iterateTradesByTicker(
+    params: Omit<TradesByTickerParams, "cursor" | "num">,
+    options: PaginationOptions<DbTrade> = {},
+  ): AsyncGenerator<DbTrade, void, undefined> {
+    return paginate(
+      (cursor, num) =>
+        this.getTradesByTicker({ ...params, cursor, num: String(num) }),
+      options,
+    );
+  }
+
+  /**
+   * Iterates over all deposits of the trader, page after page
+   * @param params - filters of getTraderDeposits
+   * @param options - page size, stop predicate, time window by event_time and retry policy
+   * @returns deposits in the same order as getTraderDeposits
+   */
+  public iterateTraderDeposits(
+    params: Omit<DepositEventParams, "cursor" | "num">,
+    options: PaginationOptions<DbDeposit> = {},
+  ): AsyncGenerator<DbDeposit, void, undefined> {
+    return paginate(
+      (cursor, num) => this.getTraderDeposits({ ...params, cursor, num }),
+      options,
+      {
+        getTime: (d) => (d.event_time === null ? null : d.event_time * 1000),
+        ascending: !!params.reverse,
+      },
+    );
+  }
+
+  /**
+   * Iterates over all withdrawals of the trader, page after page
+   * @param params - filters of getTraderWithdrawals
+   * @param options - page size, stop predicate, time window by event_time and retry policy
+   * @returns withdrawals in the same order as getTraderWithdrawals
+   */
+  public iterateTraderWithdrawals(
+    params: Omit<WithdrawEventParams, "cursor" | "num">,
+    options: PaginationOptions<DbWithdrawal> = {},
+  ): AsyncGenerator<DbWithdrawal, void, undefined> {
+    return paginate(
+      (cursor, num) => this.getTraderWithdrawals({ ...params, cursor, num }),
+      options,
+      {
+        getTime: (w) => (w.event_time === null ? null : w.event_time * 1000),
+        ascending: !!params.reverse,
+      },
+    );
+  }
+
+  /**
+   * Iterates over all klines of the ticker, page after page, starting from the earliest
+   * @param params - ticker and duration of getKlineByTicker
+   * @param options - page size, stop predicate, time window by start_time and retry policy
+   * @returns klines from the earliest to the latest
+   */
+  public iterateKlineByTicker(
+    params: Omit<DbKlineByTickerParams, "cursor" | "num">,
+    options: PaginationOptions<DbKline> = {},
+  ): AsyncGenerator<DbKline, void, undefined> {
+    return paginate(
+      (cursor, num) =>
+        this.getKlineByTicker({ ...params, cursor, num: String(num) }),
+      options,
+      { getTime: (k) => k.start_time, ascending: true },
+    );
+  }
 }
@@ -0,0 +1,129 @@
+import { Result } from "../../response_types";
+import { internalErrorResult, LayerAkiraError } from "../errors";
+import {
+  DEFAULT_IDEMPOTENT_RETRY_POLICY,
+  getBackoffDelay,
+  RetryPolicy,
+  shouldRetry,
+} from "../http/RetryPolicy";
+import { stall } from "../http/utils";
+
+/**
+ * Represents single page of the cursor based endpoint of the indexer
+ */
+export interface Page<T> {
+  data: T[];
+  cursor: string | null;
+}
+
+/**
+ * Represents options of iteration over pages of the indexer
+ */
+export interface PaginationOptions<T> {
+  pageSize?: number; // items queried per request, 50 by default
+  cursor?: string | null; // start after this cursor
+  stopWhen?: (item: T) => boolean; // iteration ends before the first item that matches predicate
+  from?: number; // in milliseconds, inclusive, items without time are skipped when window is set
+  to?: number; // in milliseconds, inclusive
+  retry?: Partial<RetryPolicy>; // retry of failed pages on top of retries of http client, idempotent policy by default
+}
+
+/**
+ * Represents how item of the stream is placed in time
+ */
+export interface PaginationOrdering<T> {
+  getTime?: (item: T) => number | null; // time of the item in milliseconds, window is not applied if not specified
+  ascending?: boolean; // whether stream goes from oldest to latest, iteration stops once it leaves the window
+}
+
+/**
+ * Iterates over all items of cursor based endpoint, page after page.
+ * Failed pages are retried according to retry policy, then LayerAkiraError is thrown
+ * @param query - queries page after cursor
+ * @param options - iteration options
+ * @param ordering - time of the items, used by time window filters
+ */
+export async function* paginate<T>(
+  query: (cursor: string | null, num: number) => Promise<Result<Page<T>>>,
+  options: PaginationOptions<T> = {},
+  ordering: PaginationOrdering<T> = {},
+): AsyncGenerator<T, void, undefined> {
+  const policy = { ...DEFAULT_IDEMPOTENT_RETRY_POLICY, ...options.retry };
+  const { from, to } = options;
+  const hasWindow =
+    ordering.getTime !== undefined && (from !== undefined || to !== undefined);
+  let cursor = options.cursor ?? null;
+  while (true) {
+    const page = await queryPage(
+      () => query(cursor, options.pageSize ?? 50),
+      policy,
+    );
+    for (const item of page.data) {
+      if (options.stopWhen?.(item)) return;
+      if (!hasWindow) {
+        yield item;
+        continue;
+      }
+      const time = ordering.getTime!(item);
+      if (time === null) continue;
+      const before = from !== undefined && time < from;
+      const after = to !== undefined && time > to;
+      if (
+        ordering.ascending !== undefined &&
+        (ordering.ascending ? after : before)
+      )
+        return;
+      if (!before && !after) yield item;
+    }
+    if (
+      page.data.length === 0 ||
+      page.cursor === null ||
+      page.cursor === cursor
+    )
+      return;
+    cursor = page.cursor;
+  }
+}
+
+/**
+ * Collects items of the iteration
+ * @param items - async iterable, e.g. returned by paginate or iterators of IndexerAPI
+ * @param maxItems - iteration ends once that many items are collected
+ * @returns collected items or failure that ended iteration
+ */
+export async function collect<T>(
+  items: AsyncIterable<T>,
+  maxItems?: number,
+): Promise<Result<T[]>> {
+  const result: T[] = [];
+  if (maxItems !== undefined && maxItems <= 0) return { result };
+  try {
+    for await (const item of items) {
+      result.push(item);
+      if (maxItems !== undefined && result.length >= maxItems) break;
+    }
+  } catch (e: any) {
+    if (!(e instanceof LayerAkiraError)) return internalErrorResult(e);
+    return {
+      error: e.message,
+      reason: e.reason,
+      code: e.code,
+      exchangeCode: e.exchangeCode,
+      retryAfterMillis: e.retryAfterMillis,
+      exception: e.cause,
+    };
+  }
+  return { result };
+}
+
+async function queryPage<T>(
+  query: () => Promise<Result<Page<T>>>,
+  policy: RetryPolicy,
+): Promise<Page<T>> {
+  for (let attempt = 1; ; attempt++) {
+    const res = await query();
+    if (res.result !== undefined) return res.result;
+    if (!shouldRetry(policy, res, attempt)) throw new LayerAkiraError(res);
+    await stall(getBackoffDelay(policy, attempt, res.retryAfterMillis));
+  }
+}
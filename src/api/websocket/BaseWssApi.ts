@@ -1,5 +1,5 @@
 import { IMessageEvent, w3cwebsocket as W3CWebSocket } from "websocket";
-import { Job, MinimalEvent, SocketEvent } from "./types";
+import { Job, MinimalEvent, ReconnectedEvent, SocketEvent } from "./types";
 import { Result } from "../../response_types";
 import { getEpochSeconds, sleep } from "./utils";
 
@@ -93,6 +93,10 @@ export abstract class BaseWssApi {
    * Timestamp of the time in seconds when recent connection was established
    */
   public lastConnected: number = 0;
+  /**
+   * Indicates whether active subscriptions are restored once connection established again
+   */
+  public readonly restoreSubscriptions: boolean;
 
   private readonly repeatCoolDownMillis: number;
   private client: W3CWebSocket | null = null;
@@ -107,23 +111,40 @@ export abstract class BaseWssApi {
     number | string,
     (evt: any | SocketEvent.DISCONNECT) => Promise<void>
   > = new Map();
+  private restorableSubscriptions: Map<
+    number | string,
+    {
+      cb: (evt: any | SocketEvent.DISCONNECT) => Promise<void>;
+      data: Record<string, any>;
+    }
+  > = new Map();
+  private disconnectedAt: number | undefined;
+  private frameListeners: Array<(frame: string, receivedAt: number) => void> =
+    [];
+  private replaying = false;
 
   protected constructor(
     wsPath: string,
     logger?: (msg: string) => void,
     shouldReconnect = true,
     repeatCoolDownMillis = 5000,
+    restoreSubscriptions = false,
   ) {
     this.wsPath = wsPath;
     this.logger = logger ?? ((msg) => msg);
     this.shouldReconnect = shouldReconnect;
     this.repeatCoolDownMillis = repeatCoolDownMillis;
+    this.restoreSubscriptions = restoreSubscriptions;
     this.isClosed = true;
   }
 
   protected abstract onopen(): void;
   protected abstract onclose(): void;
   protected abstract handleSubsEvent(json: Record<string, any>): Promise<void>;
+  /**
+   * Issues json rpc request id for the next request
+   */
+  protected abstract nextRequestId(): number;
 
   /**
    * Establishes a WebSocket connection and handles reconnection logic.
@@ -155,6 +176,31 @@ export abstract class BaseWssApi {
     this.client?.close();
   }
 
+  /**
+   * Registers listener that receives every raw frame before it is handled, e.g. to record market data
+   * @param listener - callback to invoke with raw frame and local time of its receipt in milliseconds
+   */
+  public onFrame(listener: (frame: string, receivedAt: number) => void) {
+    this.frameListeners.push(listener);
+  }
+
+  /**
+   * Switches client to replay mode: subscriptions are registered locally without connection
+   * and frames are fed via handleFrame, used to replay recorded market data
+   */
+  public startReplay() {
+    this.replaying = true;
+    this.isClosed = false;
+  }
+
+  /**
+   * Handles raw frame as if it was received from the socket
+   * @param frame - raw frame
+   */
+  public async handleFrame(frame: string) {
+    await this.handleSocketMessage({ data: frame });
+  }
+
   /**
    * Subscribes to a WebSocket stream, in case of success Result<"OK"> would be returned
    * @param cb - Callback function to handle incoming events from the stream.
@@ -172,6 +218,10 @@ export abstract class BaseWssApi {
     timeout?: number,
   ): Promise<Result<"OK" | T>> {
     const trySubscribe = async () => {
+      if (this.replaying) {
+        this.subscriptions.set(streamId, cb);
+        return { result: "OK" };
+      }
       let client = this.client;
       if (client === null) {
         return {
@@ -208,6 +258,8 @@ export abstract class BaseWssApi {
         return { error: "Please retry" };
       }
       this.subscriptions.set(streamId, cb);
+      if (this.restoreSubscriptions)
+        this.restorableSubscriptions.set(streamId, { cb, data });
       return result;
     };
     while (true) {
@@ -235,6 +287,10 @@ export abstract class BaseWssApi {
     timeout?: number,
   ): Promise<Result<"OK" | T>> {
     const tryUnsubscribe = async () => {
+      if (this.replaying) {
+        this.subscriptions.delete(streamId);
+        return { result: "OK" };
+      }
       let client = this.client;
       if (client === undefined) return { result: "OK" };
       if (
@@ -268,7 +324,10 @@ export abstract class BaseWssApi {
     };
     while (true) {
       try {
-        return (await tryUnsubscribe()) as Result<"OK">;
+        const res = (await tryUnsubscribe()) as Result<"OK">;
+        if (res.result !== undefined)
+          this.restorableSubscriptions.delete(streamId);
+        return res;
       } catch (e) {
         if (timeout !== undefined) return { error: "Timeout" };
         await sleep(this.repeatCoolDownMillis);
@@ -305,6 +364,7 @@ export abstract class BaseWssApi {
         this.client = client;
         this.lastConnected = getEpochSeconds();
         this.onopen();
+        if (this.restoreSubscriptions) this.restore(client);
       };
 
       client.onmessage = (e) => {
@@ -318,6 +378,7 @@ export abstract class BaseWssApi {
 
       client.onclose = (closeEvent) => {
         this.logger(`WebSocket closed: ${closeEvent}`);
+        if (this.client === client) this.disconnectedAt = Date.now();
         this.client = null;
         this.onclose();
         resolve();
@@ -325,6 +386,40 @@ export abstract class BaseWssApi {
     });
   }
 
+  /**
+   * Resubscribes to streams that were active before disconnection,
+   * subscriber receives ReconnectedEvent once its subscription restored
+   * @param client - connection that was established
+   */
+  private async restore(client: W3CWebSocket) {
+    const disconnectedAt = this.disconnectedAt;
+    if (disconnectedAt === undefined) return;
+    for (const [streamId, { cb, data }] of this.restorableSubscriptions) {
+      if (client !== this.client) return;
+      if (this.subscriptions.has(streamId)) continue;
+      const idx = this.nextRequestId();
+      const res = await this.subscribe(
+        cb,
+        { ...data, id: idx },
+        streamId,
+        idx,
+        this.repeatCoolDownMillis,
+      );
+      if (res.result === undefined) {
+        this.logger(`Failed to restore subscription ${streamId}: ${res.error}`);
+        continue;
+      }
+      try {
+        await cb({
+          event: SocketEvent.RECONNECTED,
+          downtimeMillis: Date.now() - disconnectedAt,
+        } as ReconnectedEvent);
+      } catch (e) {
+        this.logger(`Error in reconnect callback for ${streamId}: ${e}`);
+      }
+    }
+  }
+
   private enqueueMessage(message: IMessageEvent) {
     if (message.data instanceof ArrayBuffer) {
       // Handle data as ArrayBuffer (binary data)
@@ -353,7 +448,16 @@ export abstract class BaseWssApi {
    * @param e The WebSocket message event containing the message data.
    */
   private async handleSocketMessage(e: IMessageEvent) {
-    let json = JSON.parse(e.data.toString());
+    const frame = e.data.toString();
+    const receivedAt = Date.now();
+    this.frameListeners.forEach((listener) => {
+      try {
+        listener(frame, receivedAt);
+      } catch (err) {
+        this.logger(`Error in frame listener: ${err}`);
+      }
+    });
+    let json = JSON.parse(frame);
     if (json.id !== undefined) return this.jobs.get(json.id)?.event.emit(json);
     await this.handleSubsEvent(json);
   }
@@ -1,10 +1,102 @@
 import { TradedPair } from "../../request_types";
 import { LayerAkiraWSSAPI } from "./LayerAkiraWSSAPI";
 import { Snapshot, Table, TableUpdate } from "../../response_types";
-import { ExchangeTicker, SocketEvent } from "./types";
+import {
+  BookHealth,
+  BookIssue,
+  BookStatus,
+  ExchangeTicker,
+  isReconnectedEvent,
+  SocketEvent,
+} from "./types";
 import { LayerAkiraHttpAPI } from "../http/LayerAkiraHttpAPI";
 import { getPairKey, timeout } from "./utils";
+import { bigIntReplacer } from "../http/utils";
+import { checkBookInvariants } from "../../utils/depth";
 
+/**
+ * Represents configuration of consistency checks of the DepthBook
+ */
+export interface DepthBookOptions {
+  staleAfterMillis?: number; // resync the book if no updates were received for that long, disabled by default
+  checkIntervalMillis?: number; // how often staleness is checked, 1000 by default
+  resyncRetryMillis?: number; // delay before retrying failed resync, doubled on each next failure, 1000 by default
+  maxResyncRetryMillis?: number; // upper bound of the retry delay, 30000 by default
+}
+
+/**
+ * The DepthBookView class holds value derived from the book of the pair, e.g. mid price or aggregated levels,
+ * and notifies listeners when the value changes
+ */
+export class DepthBookView<T> {
+  public readonly pair: TradedPair;
+  private readonly compute: (book: Table<bigint>) => T;
+  private readonly equals: (a: T, b: T) => boolean;
+  private readonly listeners: Set<(value: T, prev: T | undefined) => void> =
+    new Set();
+  private current: T | undefined;
+  private initialized = false;
+
+  /**
+   * @param pair - traded pair of the book
+   * @param compute - derives value from the book
+   * @param equals - compares derived values, by default compares their json representation
+   */
+  constructor(
+    pair: TradedPair,
+    compute: (book: Table<bigint>) => T,
+    equals?: (a: T, b: T) => boolean,
+  ) {
+    this.pair = pair;
+    this.compute = compute;
+    this.equals =
+      equals ??
+      ((a, b) =>
+        JSON.stringify(a, bigIntReplacer) ===
+        JSON.stringify(b, bigIntReplacer));
+  }
+
+  /**
+   * Current derived value, undefined until book is received
+   */
+  public get value(): T | undefined {
+    return this.current;
+  }
+
+  /**
+   * Subscribes on changes of the derived value
+   * @param listener - called with new and previous values
+   * @returns function that unsubscribes the listener
+   */
+  public onChange(listener: (value: T, prev: T | undefined) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Recomputes value from the book, listeners are notified only if value changed
+   * @param book - new state of the book
+   */
+  public update(book: Table<bigint>) {
+    const value = this.compute(book);
+    if (this.initialized && this.equals(value, this.current as T)) return;
+    const prev = this.current;
+    this.current = value;
+    this.initialized = true;
+    this.listeners.forEach((listener) => listener(value, prev));
+  }
+}
+
+/**
+ * The DepthBook class maintains local copies of the books of the tickers from snapshot and depth updates.
+ * After every update the book is checked for consistency, i.e. it is not crossed, has no duplicate levels,
+ * levels with non-positive volume or out of sequence updates, and optionally is not stale.
+ * Inconsistent book is resynced automatically, consumers can track health of the books via onHealthChange,
+ * e.g. to stop quoting while the book is not healthy
+ * @category Main Classes
+ */
 export class DepthBook {
   /**
    * Array of exchange ticker to listen to.
@@ -42,17 +134,39 @@ export class DepthBook {
    * Start Sequence Snapshot
    */
   private startSequence: Map<string, bigint>;
+  /**
+   * Pair to derived views of its book
+   */
+  private pairToViews: Map<string, Set<DepthBookView<any>>>;
+  /**
+   * Pair to health of its book
+   */
+  private pairToHealth: Map<string, BookHealth>;
+  /**
+   * Pairs that are being resynced
+   */
+  private resyncing: Set<string>;
+  /**
+   * Listeners that are notified on every change of health of any book
+   */
+  private healthListeners: Array<(health: BookHealth) => void> = [];
+  private readonly options: DepthBookOptions;
+  private staleTimer?: ReturnType<typeof setInterval>;
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private failedResyncs: Map<string, number> = new Map();
 
   /**
    * Constructor for the DepthBook class.
    * @param wsClient - WebSocket client instance.
    * @param logger - Logger function.
+   * @param options - configuration of consistency checks
    */
   constructor(
     httpClient: LayerAkiraHttpAPI,
     wsClient: LayerAkiraWSSAPI,
     tickers: Array<ExchangeTicker>,
     logger?: (arg: string) => void,
+    options: DepthBookOptions = {},
   ) {
     this.httpClient = httpClient;
     this.wsClient = wsClient;
@@ -63,6 +177,84 @@ export class DepthBook {
     this.pendingEvt = new Map();
     this.pairToApplyChange = new Map();
     this.startSequence = new Map();
+    this.pairToViews = new Map();
+    this.pairToHealth = new Map();
+    this.resyncing = new Set();
+    this.options = options;
+  }
+
+  /**
+   * Returns health of the book of the pair
+   * @param pair - traded pair of the book
+   * @returns health or undefined if pair is not tracked
+   */
+  public getHealth(pair: TradedPair): BookHealth | undefined {
+    const health = this.pairToHealth.get(getPairKey(pair));
+    return health === undefined ? undefined : { ...health };
+  }
+
+  /**
+   * @returns health of the books of all tracked pairs
+   */
+  public getHealthAll(): BookHealth[] {
+    return [...this.pairToHealth.values()].map((health) => ({ ...health }));
+  }
+
+  /**
+   * Checks whether the book of the pair is synced and consistent
+   * @param pair - traded pair of the book
+   */
+  public isHealthy(pair: TradedPair): boolean {
+    return this.getHealth(pair)?.status === BookStatus.HEALTHY;
+  }
+
+  /**
+   * Registers listener that is notified on every change of status or issues of the book of any pair
+   * @param listener - callback to invoke
+   */
+  public onHealthChange(listener: (health: BookHealth) => void) {
+    this.healthListeners.push(listener);
+  }
+
+  /**
+   * Stops staleness checks and retries of failed resyncs
+   */
+  public stop() {
+    clearInterval(this.staleTimer);
+    this.staleTimer = undefined;
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  /**
+   * Creates view that derives value from the book of the pair and tracks its changes,
+   * e.g. createView(pair, (book) => getMidPrice(book)) or createView(pair, (book) => aggregateBook(book, step))
+   * @param pair - traded pair of the book
+   * @param compute - derives value from the book
+   * @param equals - compares derived values, by default compares their json representation
+   * @returns view, initialized immediately if book already received
+   */
+  public createView<T>(
+    pair: TradedPair,
+    compute: (book: Table<bigint>) => T,
+    equals?: (a: T, b: T) => boolean,
+  ): DepthBookView<T> {
+    const key = getPairKey(pair);
+    const view = new DepthBookView(pair, compute, equals);
+    const views = this.pairToViews.get(key) ?? new Set();
+    views.add(view);
+    this.pairToViews.set(key, views);
+    const book = this.pairToBook.get(key);
+    if (book !== undefined) view.update(book);
+    return view;
+  }
+
+  /**
+   * Stops updating the view
+   * @param view - view created via createView
+   */
+  public removeView(view: DepthBookView<any>) {
+    this.pairToViews.get(getPairKey(view.pair))?.delete(view);
   }
 
   /**
@@ -129,22 +321,55 @@ export class DepthBook {
       if (
         currentMsgId + 1n === evt.msg_ids_start ||
         currentMsgId === evt.msg_ids_end
-      )
-        return this.applyChanges(pair, evt);
-      else if (currentMsgId + 1n < evt.msg_ids_start) {
+      ) {
+        this.applyChanges(pair, evt);
+        return await this.checkConsistency(pair);
+      } else if (currentMsgId + 1n < evt.msg_ids_start) {
         this.logger(`missed messages for ${pair} \n
                             Resyncing snapshot. local ${currentMsgId} arrived ${evt.msg_ids_start}"`);
-        this.pairToApplyChange.set(key, false);
-        return await this.resetSnapshot(pair);
+        return await this.resync(pair, []);
+      } else if (evt.msg_ids_end < currentMsgId) {
+        this.logger(
+          `Ignoring already applied evt ${evt.msg_ids_start}: ${evt.msg_ids_end}`,
+        );
       } else {
-        this.logger(`Wired`);
+        this.logger(
+          `Out of sequence evt ${evt.msg_ids_start}: ${evt.msg_ids_end}, local ${currentMsgId}`,
+        );
+        return await this.resync(pair, [BookIssue.OUT_OF_SEQUENCE]);
       }
     };
 
+    this.tickers.forEach((ticker) =>
+      this.pairToHealth.set(getPairKey(ticker.pair), {
+        pair: ticker.pair,
+        status: BookStatus.SYNCING,
+        issues: [],
+        resyncs: 0,
+        lastUpdateMillis: 0,
+      }),
+    );
+    if (this.options.staleAfterMillis !== undefined && !this.staleTimer)
+      this.staleTimer = setInterval(
+        () => this.checkStaleness(this.options.staleAfterMillis!),
+        this.options.checkIntervalMillis ?? 1000,
+      );
+
     this.tickers.forEach(async (ticker) => {
       this.logger(`Subscribing to depth stream for ${ticker.pair}`);
-      await this.resetSnapshot(ticker.pair);
-      let succ = await this.wsClient.subscribeOnDepthUpdate(ticker, relay);
+      if (await this.resetSnapshot(ticker.pair))
+        await this.checkConsistency(ticker.pair);
+      else this.scheduleResync(ticker.pair, []);
+      let succ = await this.wsClient.subscribeOnDepthUpdate(
+        ticker,
+        async (evt) => {
+          if (!isReconnectedEvent(evt)) return relay(evt);
+          this.logger(
+            `Resyncing snapshot for ${ticker.pair} after reconnection, downtime ${evt.downtimeMillis}ms`,
+          );
+          await this.resync(ticker.pair, []);
+        },
+      );
       if (!succ) {
         this.logger(`Failed to subscribe to depth stream for ${ticker.pair}`);
         return;
@@ -163,8 +388,9 @@ export class DepthBook {
       `Applying the new evt ${update.msg_ids_start}: ${update.msg_ids_end}: ${update}`,
     );
     let key = getPairKey(pair);
-    let bids = this.pairToBook.get(key)?.bids ?? [];
-    let asks = this.pairToBook.get(key)?.asks ?? [];
+    // levels are copied so values derived by views from previous book are not mutated
+    let bids = [...(this.pairToBook.get(key)?.bids ?? [])];
+    let asks = [...(this.pairToBook.get(key)?.asks ?? [])];
 
     update.bids.forEach((level) => {
       if (level[1] == 0n) {
@@ -172,7 +398,8 @@ export class DepthBook {
       } else {
         const existingBidIndex = bids.findIndex((bid) => bid[0] == level[0]);
         if (existingBidIndex >= 0) {
-          bids[existingBidIndex][1] = level[1];
+          const [price, , orders] = bids[existingBidIndex];
+          bids[existingBidIndex] = [price, level[1], orders];
         } else {
           bids.push([level[0], level[1], level[2]]);
         }
@@ -185,7 +412,8 @@ export class DepthBook {
       } else {
         const existingAskIndex = asks.findIndex((ask) => ask[0] == level[0]);
         if (existingAskIndex >= 0) {
-          asks[existingAskIndex][1] = level[1];
+          const [price, , orders] = asks[existingAskIndex];
+          asks[existingAskIndex] = [price, level[1], orders];
         } else {
           asks.push([level[0], level[1], level[2]]);
         }
@@ -207,14 +435,133 @@ export class DepthBook {
     });
 
     this.pairToMsgId.set(key, BigInt(update.msg_id));
+    this.updateHealth(key, { lastUpdateMillis: Date.now() });
+    this.notifyViews(key);
+  }
+
+  /**
+   * Checks invariants of the book and resyncs it if any of them is violated
+   * @param pair - traded pair of the book
+   */
+  private async checkConsistency(pair: TradedPair): Promise<void> {
+    const key = getPairKey(pair);
+    const book = this.pairToBook.get(key);
+    if (book === undefined || this.resyncing.has(key)) return;
+    const issues = checkBookInvariants(book);
+    if (issues.length == 0) {
+      this.updateHealth(key, { status: BookStatus.HEALTHY, issues: [] });
+      return;
+    }
+    this.logger(`Inconsistent book for ${key}: ${issues}`);
+    await this.resync(pair, issues);
+  }
+
+  /**
+   * Fetches snapshot again, the book is reported as syncing if resync is caused by a gap in updates
+   * and as unhealthy if it is caused by violated invariants
+   * @param pair - traded pair of the book
+   * @param issues - issues that caused resync
+   */
+  private async resync(pair: TradedPair, issues: BookIssue[]): Promise<void> {
+    const key = getPairKey(pair);
+    if (this.resyncing.has(key)) return;
+    this.resyncing.add(key);
+    clearTimeout(this.retryTimers.get(key));
+    this.retryTimers.delete(key);
+    this.pairToApplyChange.set(key, false);
+    this.updateHealth(key, {
+      status: issues.length > 0 ? BookStatus.UNHEALTHY : BookStatus.SYNCING,
+      issues,
+      resyncs: (this.pairToHealth.get(key)?.resyncs ?? 0) + 1,
+    });
+    let synced = false;
+    try {
+      synced = await this.resetSnapshot(pair);
+    } finally {
+      this.resyncing.delete(key);
+    }
+    if (!synced) return this.scheduleResync(pair, issues);
+    this.failedResyncs.delete(key);
+    if (this.pairToApplyChange.get(key)) await this.checkConsistency(pair);
+  }
+
+  /**
+   * Retries failed resync with exponential backoff until snapshot is fetched or book is stopped
+   * @param pair - traded pair of the book
+   * @param issues - issues that caused resync
+   */
+  private scheduleResync(pair: TradedPair, issues: BookIssue[]) {
+    const key = getPairKey(pair);
+    if (this.retryTimers.has(key)) return;
+    const failures = (this.failedResyncs.get(key) ?? 0) + 1;
+    this.failedResyncs.set(key, failures);
+    const delay = Math.min(
+      (this.options.resyncRetryMillis ?? 1000) * 2 ** (failures - 1),
+      this.options.maxResyncRetryMillis ?? 30_000,
+    );
+    this.logger(
+      `Failed to resync ${key} ${failures} times, retrying in ${delay}ms`,
+    );
+    this.retryTimers.set(
+      key,
+      setTimeout(() => {
+        this.retryTimers.delete(key);
+        this.resync(pair, issues);
+      }, delay),
+    );
+  }
+
+  private checkStaleness(staleAfterMillis: number) {
+    const now = Date.now();
+    this.pairToHealth.forEach((health) => {
+      if (
+        health.status === BookStatus.HEALTHY &&
+        now - health.lastUpdateMillis > staleAfterMillis
+      ) {
+        this.logger(`No updates for ${getPairKey(health.pair)}, resyncing`);
+        this.resync(health.pair, [BookIssue.STALE]);
+      }
+    });
+  }
+
+  private updateHealth(key: string, patch: Partial<BookHealth>) {
+    const health = this.pairToHealth.get(key);
+    if (health === undefined) return;
+    const updated = { ...health, ...patch };
+    this.pairToHealth.set(key, updated);
+    if (
+      updated.status === health.status &&
+      updated.resyncs === health.resyncs &&
+      updated.issues.join() === health.issues.join()
+    )
+      return;
+    this.healthListeners.forEach((listener) => {
+      try {
+        listener({ ...updated });
+      } catch (e) {
+        this.logger(`Error in health listener for ${key}: ${e}`);
+      }
+    });
+  }
+
+  private notifyViews(key: string) {
+    const book = this.pairToBook.get(key);
+    if (book === undefined) return;
+    this.pairToViews.get(key)?.forEach((view) => {
+      try {
+        view.update(book);
+      } catch (e) {
+        this.logger(`Failed to update view of ${key}: ${e}`);
+      }
+    });
   }
 
   /**
    * Get the current order book for a given pair.
    * @param pair - The traded pair for the pair.
-   * @returns {Promise<void>}
+   * @returns whether snapshot was fetched and applied
    */
-  private async resetSnapshot(pair: TradedPair): Promise<void> {
+  private async resetSnapshot(pair: TradedPair): Promise<boolean> {
     try {
       let key = getPairKey(pair);
       let res = await this.httpClient.getSnapshot(pair.base, pair.quote, false);
@@ -226,6 +573,7 @@ export class DepthBook {
       this.pairToBook.set(key, snap.levels);
       this.pairToMsgId.set(key, snap.levels.msg_id!);
       this.startSequence.set(key, snap.levels.msg_id!);
+      this.updateHealth(key, { lastUpdateMillis: Date.now() });
 
       let pendingEvt = this.pendingEvt.get(key);
 
@@ -265,8 +613,11 @@ export class DepthBook {
 
       this.pendingEvt.delete(key);
       this.pairToApplyChange.set(key, true);
+      this.notifyViews(key);
+      return true;
     } catch (error) {
       this.logger(`Error resetting snapshot for ${pair}: ${error}`);
+      return false;
     }
   }
 }
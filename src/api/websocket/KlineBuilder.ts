@@ -0,0 +1,399 @@
+import { IndexerAPI } from "../indexer/Indexer";
+import { collect, paginate } from "../indexer/pagination";
+import { ErrorReason } from "../errors";
+import { ERCToDecimalsMap } from "../../request_types";
+import { Result, Trade } from "../../response_types";
+import {
+  emptyKline,
+  Kline,
+  parseDuration,
+  parseKline,
+} from "../../utils/kline";
+import { LayerAkiraWSSAPI } from "./LayerAkiraWSSAPI";
+import { ExchangeTicker, SocketEvent } from "./types";
+import { getPairKey, sleep } from "./utils";
+
+/**
+ * Represents optional parameters of the KlineBuilder
+ */
+export interface KlineBuilderOptions {
+  seedKlines?: number; // closed klines loaded from indexer per interval on subscription, 100 by default
+  maxKlines?: number; // closed klines kept in memory per interval, 500 by default
+  fillGaps?: boolean; // intervals without trades produce flat klines with previous close price, true by default
+  lateTradeToleranceMillis?: number; // trades of already closed kline are applied if it closed not earlier than that, 5000 by default
+  checkIntervalMillis?: number; // how often klines are closed by time when there are no trades, 1000 by default
+  repeatCoolDownMillis?: number; // sleep between attempts to resubscribe after disconnection, 1000 by default
+}
+
+interface Series {
+  ticker: ExchangeTicker;
+  interval: string;
+  intervalMillis: number;
+  closed: Kline[];
+  current?: Kline;
+}
+
+type KlineListener = (
+  ticker: ExchangeTicker,
+  interval: string,
+  kline: Kline,
+) => void;
+
+/**
+ * The KlineBuilder class maintains klines of several intervals per ticker in real time.
+ * History is seeded from the indexer, then trades of the websocket stream are folded into the forming kline.
+ * Klines are closed when their interval ends, either by the next trade or by timer,
+ * late trades within tolerance revise already closed kline.
+ * In case of disconnection the builder resubscribes once websocket is back, or relies on websocket client
+ * if it restores subscriptions
+ * @category Main Classes
+ */
+export class KlineBuilder {
+  private indexer?: IndexerAPI;
+  private wsClient: LayerAkiraWSSAPI;
+  private readonly erc20ToDecimals: ERCToDecimalsMap;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: KlineBuilderOptions;
+  /**
+   * Ticker key to klines of its intervals
+   */
+  private series: Map<string, Map<string, Series>> = new Map();
+  /**
+   * Series key to pages of the klines seeded before, cursor of the page with start time of its first kline
+   */
+  private seedPages: Map<string, [string | null, number][]> = new Map();
+  private updateListeners: KlineListener[] = [];
+  private closeListeners: KlineListener[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+
+  /**
+   * Creates an instance of KlineBuilder.
+   * @param indexer - indexer to seed history from, optional if only live klines are needed
+   * @param wsClient - websocket client
+   * @param erc20ToDecimals - decimals of the tokens, used to parse klines of the indexer
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    indexer: IndexerAPI | undefined,
+    wsClient: LayerAkiraWSSAPI,
+    erc20ToDecimals: ERCToDecimalsMap,
+    logger?: (arg: string) => void,
+    options: KlineBuilderOptions = {},
+  ) {
+    this.indexer = indexer;
+    this.wsClient = wsClient;
+    this.erc20ToDecimals = erc20ToDecimals;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+  }
+
+  /**
+   * Seeds klines of the intervals from the indexer and starts folding trades of the ticker into them
+   * @param ticker - ticker to build klines for
+   * @param intervals - durations in indexer format, e.g. ["1m", "1h"]
+   * @param timeout - Optional timeout value in milliseconds for the subscription request
+   * @returns result of the subscription
+   */
+  public async subscribe(
+    ticker: ExchangeTicker,
+    intervals: string[],
+    timeout?: number,
+  ): Promise<Result<"OK">> {
+    const key = this.getKey(ticker);
+    const isNew = !this.series.has(key);
+    const tickerSeries = this.series.get(key) ?? new Map<string, Series>();
+    for (const interval of intervals) {
+      if (tickerSeries.has(interval)) continue;
+      let intervalMillis: number;
+      try {
+        intervalMillis = parseDuration(interval);
+      } catch (e: any) {
+        return { error: `${e.message}`, reason: ErrorReason.VALIDATION };
+      }
+      const series: Series = { ticker, interval, intervalMillis, closed: [] };
+      const res = await this.seed(series);
+      if (res.error !== undefined) return res;
+      tickerSeries.set(interval, series);
+    }
+    this.series.set(key, tickerSeries);
+    if (isNew) {
+      const res = await this.subscribeTrades(ticker, timeout);
+      if (res.error !== undefined) {
+        this.series.delete(key);
+        return { ...res, result: undefined };
+      }
+    }
+    if (this.timer === undefined)
+      this.timer = setInterval(
+        () => this.advance(),
+        this.options.checkIntervalMillis ?? 1000,
+      );
+    return { result: "OK" };
+  }
+
+  /**
+   * Stops building klines of the ticker
+   * @param ticker - ticker to unsubscribe from
+   * @param timeout - Optional timeout value in milliseconds for the unsubscription request
+   */
+  public async unsubscribe(ticker: ExchangeTicker, timeout?: number) {
+    if (!this.series.delete(this.getKey(ticker))) return;
+    if (this.series.size === 0) this.stopTimer();
+    await this.wsClient.unSubscribeFromMarketData(
+      SocketEvent.TRADE,
+      ticker,
+      timeout,
+    );
+  }
+
+  /**
+   * Stops building klines of all tickers
+   * @param timeout - Optional timeout value in milliseconds for the unsubscription requests
+   */
+  public async stop(timeout?: number) {
+    for (const tickerSeries of [...this.series.values()]) {
+      const [series] = tickerSeries.values();
+      await this.unsubscribe(series.ticker, timeout);
+    }
+    this.stopTimer();
+  }
+
+  /**
+   * Registers listener that is notified on every change of the forming kline
+   * @param listener - callback to invoke with ticker, interval and kline
+   */
+  public onUpdate(listener: KlineListener) {
+    this.updateListeners.push(listener);
+  }
+
+  /**
+   * Registers listener that is notified when kline is closed, or closed kline is revised by late trade
+   * @param listener - callback to invoke with ticker, interval and kline
+   */
+  public onClose(listener: KlineListener) {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * Returns klines of the interval from the oldest to the latest, the last one is forming kline if there is one
+   * @param ticker - ticker
+   * @param interval - interval of the klines
+   */
+  public getKlines(ticker: ExchangeTicker, interval: string): Kline[] {
+    const series = this.series.get(this.getKey(ticker))?.get(interval);
+    if (series === undefined) return [];
+    const klines = [...series.closed];
+    if (series.current !== undefined) klines.push(series.current);
+    return klines.map((k) => ({ ...k }));
+  }
+
+  /**
+   * Returns forming kline of the interval
+   * @param ticker - ticker
+   * @param interval - interval of the kline
+   */
+  public getCurrent(
+    ticker: ExchangeTicker,
+    interval: string,
+  ): Kline | undefined {
+    const current = this.series
+      .get(this.getKey(ticker))
+      ?.get(interval)?.current;
+    return current === undefined ? undefined : { ...current };
+  }
+
+  /**
+   * Folds trade into klines of all intervals of the ticker
+   * @param ticker - ticker of the trade
+   * @param trade - trade to apply
+   */
+  public applyTrade(ticker: ExchangeTicker, trade: Trade) {
+    const tickerSeries = this.series.get(this.getKey(ticker));
+    if (tickerSeries === undefined) return;
+    for (const series of tickerSeries.values()) {
+      this.advanceSeries(series, trade.time);
+      const start =
+        Math.floor(trade.time / series.intervalMillis) * series.intervalMillis;
+      // without gap filling there is no forming kline after close, so trade is compared with the last closed one
+      const latest = series.current ?? series.closed[series.closed.length - 1];
+      if (latest === undefined || start > latest.start_time) {
+        series.current = emptyKline(start, series.intervalMillis, trade.price);
+      }
+      if (start === series.current?.start_time) {
+        this.fold(series.current, trade);
+        this.notify(this.updateListeners, series, series.current);
+        continue;
+      }
+      const late = series.closed.find((k) => k.start_time === start);
+      const tolerance = this.options.lateTradeToleranceMillis ?? 5000;
+      if (late === undefined || Date.now() - late.time > tolerance) {
+        this.logger(
+          `Dropped late trade of ${this.getKey(ticker)} at ${trade.time} for ${series.interval}`,
+        );
+        continue;
+      }
+      this.fold(late, trade);
+      this.notify(this.closeListeners, series, late);
+    }
+  }
+
+  /**
+   * Closes klines which intervals ended by the moment, called periodically by timer
+   * @param now - current time in milliseconds
+   */
+  public advance(now: number = Date.now()) {
+    for (const tickerSeries of this.series.values())
+      for (const series of tickerSeries.values())
+        this.advanceSeries(series, now);
+  }
+
+  private advanceSeries(series: Series, now: number) {
+    while (series.current !== undefined && series.current.time <= now) {
+      const closed = series.current;
+      series.closed.push(closed);
+      const maxKlines = this.options.maxKlines ?? 500;
+      if (series.closed.length > maxKlines)
+        series.closed.splice(0, series.closed.length - maxKlines);
+      series.current =
+        this.options.fillGaps ?? true
+          ? emptyKline(closed.time, series.intervalMillis, closed.close)
+          : undefined;
+      this.notify(this.closeListeners, series, closed);
+      if (series.current !== undefined && series.current.time > now)
+        this.notify(this.updateListeners, series, series.current);
+    }
+  }
+
+  private fold(kline: Kline, trade: Trade) {
+    if (kline.trades === 0) {
+      kline.open = trade.price;
+      kline.high = trade.price;
+      kline.low = trade.price;
+    }
+    if (trade.price > kline.high) kline.high = trade.price;
+    if (trade.price < kline.low) kline.low = trade.price;
+    kline.close = trade.price;
+    kline.volume += trade.base_qty;
+    kline.trades += 1;
+    if (!trade.is_sell_side) {
+      kline.buy_volume += trade.base_qty;
+      kline.buy_quote_volume += trade.quote_qty;
+    }
+  }
+
+  private async subscribeTrades(
+    ticker: ExchangeTicker,
+    timeout?: number,
+  ): Promise<Result<"OK">> {
+    const key = this.getKey(ticker);
+    const res = await this.wsClient.subscribeOnMarketData(
+      async (evt) => {
+        if (evt === SocketEvent.DISCONNECT) return this.restore(ticker);
+        if (typeof evt !== "object" || !("base_qty" in evt)) return;
+        this.applyTrade(ticker, evt);
+      },
+      SocketEvent.TRADE,
+      ticker,
+      timeout,
+    );
+    if (res.error !== undefined)
+      this.logger(`Failed to subscribe to trades of ${key}: ${res.error}`);
+    return res;
+  }
+
+  private async restore(ticker: ExchangeTicker) {
+    const key = this.getKey(ticker);
+    this.logger(`Trades stream of ${key} disconnected`);
+    if (this.wsClient.restoreSubscriptions) return;
+    const cooldown = this.options.repeatCoolDownMillis ?? 1000;
+    while (this.series.has(key) && !this.wsClient.isClosed) {
+      await sleep(cooldown);
+      if (!this.series.has(key)) return;
+      const res = await this.subscribeTrades(ticker, cooldown);
+      if (res.error === undefined) return;
+    }
+  }
+
+  private async seed(series: Series): Promise<Result<"OK">> {
+    const count = this.options.seedKlines ?? 100;
+    const indexer = this.indexer;
+    if (indexer === undefined || count === 0) return { result: "OK" };
+    const { pair, isEcosystemBook } = series.ticker;
+    const { intervalMillis } = series;
+    const from =
+      (Math.floor(Date.now() / intervalMillis) - count) * intervalMillis;
+    // indexer serves klines from the earliest, so walk resumes from the latest known page before the window
+    const seedKey = `${this.getKey(series.ticker)}/${series.interval}`;
+    const known = this.seedPages.get(seedKey) ?? [];
+    let resumeIdx = 0;
+    known.forEach(([, startTime], i) => {
+      if (startTime <= from) resumeIdx = i;
+    });
+    const pages = known.slice(resumeIdx);
+    this.seedPages.set(seedKey, pages);
+    const res = await collect(
+      paginate(
+        async (cursor, num) => {
+          const page = await indexer.getKlineByTicker({
+            pair: {
+              base: pair.base,
+              quote: pair.quote,
+              is_ecosystem_book: isEcosystemBook,
+            },
+            duration: series.interval,
+            cursor,
+            num: String(num),
+          });
+          const first = page.result?.data[0];
+          if (first !== undefined && !pages.some(([c]) => c === cursor))
+            pages.push([cursor, first.start_time]);
+          return page;
+        },
+        { cursor: pages.length > 0 ? pages[0][0] : null, from },
+        { getTime: (k) => k.start_time, ascending: true },
+      ),
+      count + 1,
+    );
+    if (res.result === undefined) {
+      this.logger(
+        `Failed to seed ${series.interval} klines of ${getPairKey(pair)}: ${res.error}`,
+      );
+      return { ...res, result: undefined };
+    }
+    const klines = res.result.map((k) =>
+      parseKline(
+        k,
+        this.erc20ToDecimals[pair.base],
+        this.erc20ToDecimals[pair.quote],
+      ),
+    );
+    const last = klines[klines.length - 1];
+    if (last !== undefined && last.time > Date.now())
+      series.current = klines.pop();
+    series.closed = klines.slice(-count);
+    return { result: "OK" };
+  }
+
+  private notify(listeners: KlineListener[], series: Series, kline: Kline) {
+    listeners.forEach((listener) => {
+      try {
+        listener(series.ticker, series.interval, { ...kline });
+      } catch (e) {
+        this.logger(`Error in kline listener: ${e}`);
+      }
+    });
+  }
+
+  private stopTimer() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private getKey(ticker: ExchangeTicker): string {
+    return `${getPairKey(ticker.pair)}/${ticker.isEcosystemBook}`;
+  }
+}
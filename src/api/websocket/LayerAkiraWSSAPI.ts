@@ -8,7 +8,12 @@ import {
   TableUpdate,
   Trade,
 } from "../../response_types";
-import { ExchangeTicker, SocketEvent } from "./types";
+import {
+  ExchangeTicker,
+  isReconnectedEvent,
+  ReconnectedEvent,
+  SocketEvent,
+} from "./types";
 import { getHashCode, normalize, stringHash } from "./utils";
 import {
   convertFieldsRecursively,
@@ -97,6 +102,8 @@ export interface ILayerAkiraWSSAPI {
  *  1) ongoing pending requests would be cancelled
  *  2) subscribers would be notified about disconnection with DISCONNECT event. It is guaranteed that only one event for client would be fired
  *  3) all internal state would be cleared, i.e. user would need to subscribe again once connection established back
+ *     unless restoreSubscriptions specified in constructor. In that case active subscriptions are restored
+ *     and subscribers are notified with ReconnectedEvent, so they can resync their state
  *  4) if shouldReconnect specified in constructor than websockets would automatically reconnect after small cooldown
  *  Notes:
  *      After each N minutes user need to refresh listen key
@@ -138,7 +145,11 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
    */
   private depthListners: Map<
     string,
-    Array<(evt: TableUpdate<bigint> | SocketEvent.DISCONNECT) => Promise<void>>
+    Array<
+      (
+        evt: TableUpdate<bigint> | SocketEvent.DISCONNECT | ReconnectedEvent,
+      ) => Promise<void>
+    >
   >;
 
   /**
@@ -148,6 +159,7 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
    * @param shouldReconnect - Whether to attempt reconnection in case of disconnections
    * @param logger - Optional logger function.
    * @param repeatCoolDownMillis sleep after failed attempts for restore disconnection and retry for subs/unsub if timeout not specified
+   * @param restoreSubscriptions - Whether to restore active subscriptions after reconnection
    */
   constructor(
     wsPath: string,
@@ -155,8 +167,15 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
     shouldReconnect: boolean,
     logger?: (arg: string) => void,
     repeatCoolDownMillis?: number,
+    restoreSubscriptions?: boolean,
   ) {
-    super(wsPath, logger, shouldReconnect, repeatCoolDownMillis);
+    super(
+      wsPath,
+      logger,
+      shouldReconnect,
+      repeatCoolDownMillis,
+      restoreSubscriptions,
+    );
     this.httpClient = httpClient;
     this.depthListners = new Map();
   }
@@ -172,7 +191,7 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
   public async subscribeOnDepthUpdate(
     ticker: ExchangeTicker,
     clientCb: (
-      evt: TableUpdate<bigint> | SocketEvent.DISCONNECT,
+      evt: TableUpdate<bigint> | SocketEvent.DISCONNECT | ReconnectedEvent,
     ) => Promise<void>,
   ): Promise<boolean> {
     try {
@@ -184,7 +203,7 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
       }
       let res = await this.subscribeOnMarketData(
         (evt) => {
-          return this.handleDepthStream(evt);
+          return this.handleDepthStream(evt, key);
         },
         SocketEvent.BOOK_DELTA,
         ticker,
@@ -207,13 +226,26 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
   /**
    * Depth Stream handler function
    * @param evt - Event object containing depth update or disconnect event.
+   * @param key - pair key of the depth stream
    * @returns {Promise<void>}
    */
   private async handleDepthStream(
-    evt: TableUpdate<bigint> | BBO | SocketEvent.DISCONNECT,
+    evt:
+      | TableUpdate<bigint>
+      | BBO
+      | Trade
+      | SocketEvent.DISCONNECT
+      | ReconnectedEvent,
+    key: string,
   ): Promise<void> {
-    if (typeof evt === "object" && "ts" in evt) {
-      // unreachable bbo
+    if (isReconnectedEvent(evt)) {
+      await Promise.all(
+        (this.depthListners.get(key) ?? []).map((cb) => cb(evt)),
+      );
+      return;
+    }
+    if (typeof evt === "object" && ("ts" in evt || "base_qty" in evt)) {
+      // unreachable bbo and trades
       return;
     }
     // TODO: move to the base
@@ -224,7 +256,7 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
           cbs.map((cb) => promises.push(cb(SocketEvent.DISCONNECT)));
         }
         await Promise.all(promises);
-        this.depthListners.delete(key);
+        if (!this.restoreSubscriptions) this.depthListners.delete(key);
       });
       return;
     }
@@ -248,7 +280,7 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
 
   public async subscribeOnMarketData(
     clientCb: (
-      evt: TableUpdate<bigint> | BBO | SocketEvent.DISCONNECT,
+      evt: TableUpdate<bigint> | BBO | Trade | SocketEvent.DISCONNECT,
     ) => Promise<void>,
     event: SocketEvent.BBO | SocketEvent.TRADE | SocketEvent.BOOK_DELTA,
     ticker: ExchangeTicker,
@@ -357,6 +389,11 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
     this.startListenKeyRefresh();
   }
 
+  protected nextRequestId(): number {
+    this.rpcReqId += 1;
+    return this.rpcReqId;
+  }
+
   protected onclose() {
     if (this.listenKeyRefreshInterval) {
       clearInterval(this.listenKeyRefreshInterval);
@@ -453,7 +490,10 @@ export class LayerAkiraWSSAPI extends BaseWssApi implements ILayerAkiraWSSAPI {
       this.REISSUE_LISTEN_KEY_TIME,
     );
   }
-  private async refreshListenKey() {
+  /**
+   * Reissues listen key, called periodically while connection is alive
+   */
+  public async refreshListenKey() {
     this.logger(`Refreshing listen key...`);
 
     const listenKeyResponse = await this.httpClient.getListenKey();
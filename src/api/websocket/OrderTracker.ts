@@ -0,0 +1,441 @@
+import { OrderStatus, ReducedOrder, TradedPair } from "../../request_types";
+import {
+  CancelAllReport,
+  ExecutionReport,
+  FillTransactionInfo,
+  MatchingEngineResult,
+  Result,
+} from "../../response_types";
+import { Address } from "../../types";
+import { isNotFoundError } from "../errors";
+import { LayerAkiraHttpAPI } from "../http/LayerAkiraHttpAPI";
+import { LayerAkiraWSSAPI } from "./LayerAkiraWSSAPI";
+import { isReconnectedEvent, ReconnectedEvent, SocketEvent } from "./types";
+import { sleep } from "./utils";
+
+/**
+ * Represents the state of the order as observed by the OrderTracker
+ */
+export interface TrackedOrder {
+  hash: string;
+  client: Address;
+  pair?: TradedPair; // unknown until first execution report or catch up
+  isSellSide?: boolean;
+  status: OrderStatus; // lifecycle status, FAILED_ROLLUP and REIMBURSE are only recorded in history
+  history: OrderStatus[]; // all statuses that were observed for the order in order of arrival
+  accBaseQty: bigint; // accumulated filled quantity in the base token
+  accQuoteQty: bigint; // accumulated filled quantity in the quote token
+  fills: ExecutionReport[]; // execution reports that carried a fill
+  txHashes: string[]; // rollup transactions that settled fills of the order
+  matcherResult?: MatchingEngineResult;
+}
+
+type ExecReportEvent =
+  | ExecutionReport
+  | FillTransactionInfo
+  | CancelAllReport
+  | SocketEvent.DISCONNECT
+  | ReconnectedEvent;
+
+interface Waiter {
+  statuses: OrderStatus[];
+  resolve: (res: Result<TrackedOrder>) => void;
+  timer?: NodeJS.Timeout;
+}
+
+const STATUS_RANK: Partial<Record<OrderStatus, number>> = {
+  [OrderStatus.ACCEPTED]: 0,
+  [OrderStatus.OPEN]: 1,
+  [OrderStatus.PARTIALLY_FILLED]: 2,
+  [OrderStatus.SCHEDULED_CANCEL]: 2,
+  [OrderStatus.FILLED]: 3,
+  [OrderStatus.CANCELLED]: 3,
+  [OrderStatus.CLOSED]: 3,
+  [OrderStatus.EXPIRED]: 3,
+  [OrderStatus.NOT_PROCESSED]: 3,
+};
+
+const REPORT_ONLY_STATUSES = [OrderStatus.FAILED_ROLLUP, OrderStatus.REIMBURSE];
+
+/**
+ * Checks whether order with such status would not receive lifecycle updates anymore
+ * @param status - status of the order
+ */
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return STATUS_RANK[status] === 3;
+}
+
+/**
+ * The OrderTracker class keeps state of orders of the trading account, that associated with http client,
+ * by listening to execution reports over websockets.
+ * Out of order updates are ignored, i.e. status of the order never moves backward.
+ * In case of disconnection the tracker resubscribes once websocket is back, or relies on websocket client
+ * if it restores subscriptions, and catches up the state of the orders that are not finished yet via http api
+ * @category Main Classes
+ */
+export class OrderTracker {
+  /**
+   * Http client connection.
+   */
+  private httpClient: LayerAkiraHttpAPI;
+  /**
+   * WebSocket client connection.
+   */
+  private wsClient: LayerAkiraWSSAPI;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  /**
+   * Order hash to its state
+   */
+  private orders: Map<string, TrackedOrder> = new Map();
+  /**
+   * Order hash to pending waiters
+   */
+  private waiters: Map<string, Waiter[]> = new Map();
+  /**
+   * Listeners that are notified on every update of any order
+   */
+  private listeners: Array<(order: TrackedOrder) => void> = [];
+  /**
+   * Listeners that are notified when execution reports stream disconnects
+   */
+  private disconnectListeners: Array<() => void> = [];
+  private readonly repeatCoolDownMillis: number;
+  private running = false;
+
+  /**
+   * Constructor for the OrderTracker class.
+   * @param httpClient - Http client instance with credentials set
+   * @param wsClient - WebSocket client instance
+   * @param logger - Logger function.
+   * @param repeatCoolDownMillis - sleep between attempts to resubscribe after disconnection
+   */
+  constructor(
+    httpClient: LayerAkiraHttpAPI,
+    wsClient: LayerAkiraWSSAPI,
+    logger?: (arg: string) => void,
+    repeatCoolDownMillis: number = 1000,
+  ) {
+    this.httpClient = httpClient;
+    this.wsClient = wsClient;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.repeatCoolDownMillis = repeatCoolDownMillis;
+  }
+
+  /**
+   * Subscribes to execution reports of the trading account
+   * @param timeout - Optional timeout value in milliseconds for the subscription request
+   * @returns result of the subscription
+   */
+  public async run(timeout?: number): Promise<Result<"OK">> {
+    this.running = true;
+    const res = await this.wsClient.subscribeOnExecReport(
+      (evt) => this.handle(evt),
+      timeout,
+    );
+    if (res.error !== undefined) {
+      this.running = false;
+      this.logger(`Failed to subscribe to execution reports: ${res.error}`);
+    }
+    return res;
+  }
+
+  /**
+   * Stops tracking, pending waiters are resolved with an error
+   */
+  public async stop(timeout?: number): Promise<void> {
+    this.running = false;
+    await this.wsClient.unSubscribeFromExecReport(timeout);
+    this.waiters.forEach((waiters) =>
+      waiters.forEach((w) => this.settle(w, { error: "Tracker stopped" })),
+    );
+    this.waiters.clear();
+  }
+
+  /**
+   * Registers listener that is notified on every update of any tracked order
+   * @param listener - callback to invoke
+   */
+  public onUpdate(listener: (order: TrackedOrder) => void) {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Registers listener that is notified when execution reports stream disconnects,
+   * i.e. updates of the orders might be missed until the tracker catches up
+   * @param listener - callback to invoke
+   */
+  public onDisconnect(listener: () => void) {
+    this.disconnectListeners.push(listener);
+  }
+
+  /**
+   * Returns state of the order if it is known to the tracker
+   * @param hash - hash of the order
+   */
+  public getOrder(hash: string): TrackedOrder | undefined {
+    return this.orders.get(hash);
+  }
+
+  /**
+   * Returns all known orders
+   * @param activeOnly - return only orders that are not in terminal status
+   */
+  public getOrders(activeOnly: boolean = false): TrackedOrder[] {
+    return [...this.orders.values()].filter(
+      (o) => !activeOnly || !isTerminalStatus(o.status),
+    );
+  }
+
+  /**
+   * Starts tracking order that was placed before the tracker was started, its state is queried via http
+   * @param hash - hash of the order
+   */
+  public async track(hash: string): Promise<Result<TrackedOrder>> {
+    const res = await this.queryOrder(
+      this.httpClient.getTradingAccount()!,
+      hash,
+    );
+    if (res.result === undefined) return { ...res, result: undefined };
+    return { result: this.applyOrderState(res.result) };
+  }
+
+  /**
+   * Waits until the order reaches one of the specified statuses.
+   * If order ends in terminal status different from expected one, the result contains an error
+   * @param hash - hash of the order
+   * @param status - status or list of statuses to wait for
+   * @param timeout - Optional timeout value in milliseconds
+   * @returns state of the order at the moment status was reached
+   */
+  public waitFor(
+    hash: string,
+    status: OrderStatus | OrderStatus[],
+    timeout?: number,
+  ): Promise<Result<TrackedOrder>> {
+    const statuses = Array.isArray(status) ? status : [status];
+    return new Promise((resolve) => {
+      const waiter: Waiter = { statuses, resolve };
+      const order = this.orders.get(hash);
+      if (order !== undefined && this.checkWaiter(order, waiter)) return;
+      if (timeout !== undefined) {
+        waiter.timer = setTimeout(() => {
+          this.waiters.set(
+            hash,
+            (this.waiters.get(hash) ?? []).filter((w) => w !== waiter),
+          );
+          resolve({ error: "Timeout", result: this.orders.get(hash) });
+        }, timeout);
+      }
+      if (!this.waiters.has(hash)) this.waiters.set(hash, []);
+      this.waiters.get(hash)!.push(waiter);
+    });
+  }
+
+  /**
+   * Queries state of all unfinished orders via http api, called automatically after reconnection
+   */
+  public async sync(): Promise<void> {
+    const seen = new Set<string>();
+    for (const toEcosystemBook of [false, true]) {
+      let cursor: string | null = null;
+      do {
+        const res = await this.httpClient.getOrders(
+          2,
+          20,
+          0,
+          true,
+          null,
+          cursor,
+          toEcosystemBook,
+        );
+        if (res.result === undefined) {
+          this.logger(`Failed to query active orders: ${JSON.stringify(res)}`);
+          break;
+        }
+        (res.result.data as ReducedOrder[]).forEach((o) => {
+          seen.add(o.hash);
+          this.applyOrderState(o);
+        });
+        cursor = res.result.data.length > 0 ? res.result.cursor : null;
+      } while (cursor !== null);
+    }
+
+    for (const order of this.getOrders(true)) {
+      if (seen.has(order.hash)) continue;
+      const res = await this.queryOrder(order.client, order.hash);
+      if (res.result === undefined) {
+        this.logger(
+          `Failed to query order ${order.hash}: ${JSON.stringify(res)}`,
+        );
+        continue;
+      }
+      this.applyOrderState(res.result);
+    }
+  }
+
+  /**
+   * Queries order via http api, resting order is in the active set and finished one in the inactive set
+   */
+  private async queryOrder(
+    client: Address,
+    hash: string,
+  ): Promise<Result<ReducedOrder>> {
+    const active = await this.httpClient.getOrder(client, hash, 2, true);
+    if (active.result !== undefined || !isNotFoundError(active))
+      return active as Result<ReducedOrder>;
+    return (await this.httpClient.getOrder(
+      client,
+      hash,
+      2,
+    )) as Result<ReducedOrder>;
+  }
+
+  private async handle(evt: ExecReportEvent): Promise<void> {
+    if (evt === SocketEvent.DISCONNECT) {
+      this.logger(`Execution reports stream disconnected`);
+      this.disconnectListeners.forEach((listener) => {
+        try {
+          listener();
+        } catch (e) {
+          this.logger(`Error in disconnect listener: ${e}`);
+        }
+      });
+      if (this.running && !this.wsClient.restoreSubscriptions) this.restore();
+      return;
+    }
+    if (isReconnectedEvent(evt)) {
+      this.logger(
+        `Execution reports stream restored, downtime ${evt.downtimeMillis}ms`,
+      );
+      return await this.sync();
+    }
+    if ("cancel_ticker_hash" in evt) {
+      this.logger(`Cancel all processed ${evt.cancel_ticker_hash}`);
+      return;
+    }
+    if ("tx_hash" in evt) return this.applyTxInfo(evt);
+    this.applyReport(evt);
+  }
+
+  private async restore() {
+    while (this.running && !this.wsClient.isClosed) {
+      await sleep(this.repeatCoolDownMillis);
+      const res = await this.wsClient.subscribeOnExecReport(
+        (evt) => this.handle(evt),
+        this.repeatCoolDownMillis,
+      );
+      if (res.error === undefined) return await this.sync();
+      this.logger(`Failed to resubscribe to execution reports: ${res.error}`);
+    }
+  }
+
+  private applyReport(report: ExecutionReport) {
+    const order = this.getOrCreate(report.hash, report.client);
+    order.pair = report.pair ?? order.pair;
+    order.isSellSide = report.is_sell_side;
+    order.matcherResult = report.matcher_result;
+    if (report.fill_base_qty > 0n) order.fills.push(report);
+    if (report.acc_base_qty > order.accBaseQty)
+      order.accBaseQty = report.acc_base_qty;
+    if (report.acc_quote_qty > order.accQuoteQty)
+      order.accQuoteQty = report.acc_quote_qty;
+    this.setStatus(order, report.status);
+    this.notify(order);
+  }
+
+  private applyTxInfo(info: FillTransactionInfo) {
+    const order = this.getOrCreate(info.order_hash, info.client);
+    const idx = info.old_tx_hash
+      ? order.txHashes.indexOf(info.old_tx_hash)
+      : -1;
+    if (idx >= 0) order.txHashes[idx] = info.tx_hash;
+    else if (!order.txHashes.includes(info.tx_hash))
+      order.txHashes.push(info.tx_hash);
+    this.notify(order);
+  }
+
+  private applyOrderState(o: ReducedOrder): TrackedOrder {
+    const order = this.getOrCreate(o.hash, o.maker);
+    order.pair = o.ticker;
+    order.isSellSide = o.order_flags.is_sell_side;
+    if (o.state.filled_base_amount > order.accBaseQty)
+      order.accBaseQty = o.state.filled_base_amount;
+    if (o.state.filled_quote_amount > order.accQuoteQty)
+      order.accQuoteQty = o.state.filled_quote_amount;
+    this.setStatus(order, o.state.status);
+    this.notify(order);
+    return order;
+  }
+
+  private setStatus(order: TrackedOrder, status: OrderStatus) {
+    if (order.history[order.history.length - 1] !== status)
+      order.history.push(status);
+    if (REPORT_ONLY_STATUSES.includes(status)) return;
+    if ((STATUS_RANK[status] ?? 0) < (STATUS_RANK[order.status] ?? 0)) {
+      this.logger(
+        `Ignoring stale status ${status} for ${order.hash}, current ${order.status}`,
+      );
+      return;
+    }
+    order.status = status;
+  }
+
+  private getOrCreate(hash: string, client: Address): TrackedOrder {
+    let order = this.orders.get(hash);
+    if (order === undefined) {
+      order = {
+        hash,
+        client,
+        status: OrderStatus.ACCEPTED,
+        history: [],
+        accBaseQty: 0n,
+        accQuoteQty: 0n,
+        fills: [],
+        txHashes: [],
+      };
+      this.orders.set(hash, order);
+    }
+    return order;
+  }
+
+  private notify(order: TrackedOrder) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(order);
+      } catch (e) {
+        this.logger(`Error in order listener for ${order.hash}: ${e}`);
+      }
+    });
+    const waiters = this.waiters.get(order.hash);
+    if (waiters === undefined) return;
+    const pending = waiters.filter((w) => !this.checkWaiter(order, w));
+    if (pending.length > 0) this.waiters.set(order.hash, pending);
+    else this.waiters.delete(order.hash);
+  }
+
+  private checkWaiter(order: TrackedOrder, waiter: Waiter): boolean {
+    if (waiter.statuses.some((s) => order.history.includes(s))) {
+      this.settle(waiter, { result: order });
+      return true;
+    }
+    const lifecycleOnly = waiter.statuses.every(
+      (s) => !REPORT_ONLY_STATUSES.includes(s),
+    );
+    if (lifecycleOnly && isTerminalStatus(order.status)) {
+      this.settle(waiter, {
+        error: `Order reached terminal status ${order.status}`,
+        result: order,
+      });
+      return true;
+    }
+    return false;
+  }
+
+  private settle(waiter: Waiter, res: Result<TrackedOrder>) {
+    if (waiter.timer !== undefined) clearTimeout(waiter.timer);
+    waiter.resolve(res);
+  }
+}
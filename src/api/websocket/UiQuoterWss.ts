@@ -29,8 +29,15 @@ export class UiQuoterWss extends BaseWssApi {
     logger?: (msg: string) => void,
     shouldReconnect = true,
     repeatCoolDownMillis = 5000,
+    restoreSubscriptions = false,
   ) {
-    super(wsPath, logger, shouldReconnect, repeatCoolDownMillis);
+    super(
+      wsPath,
+      logger,
+      shouldReconnect,
+      repeatCoolDownMillis,
+      restoreSubscriptions,
+    );
     this.idx = 0;
   }
 
@@ -96,4 +103,9 @@ export class UiQuoterWss extends BaseWssApi {
   protected onclose(): void {}
 
   protected onopen(): void {}
+
+  protected nextRequestId(): number {
+    this.idx += 1;
+    return this.idx;
+  }
 }
@@ -17,6 +17,57 @@ export enum SocketEvent {
   EXECUTION_REPORT = "fills",
   TRADE = "trade",
   BOOK_DELTA = "snap",
+  RECONNECTED = "reconnected", // wss client can emit it once subscription restored after reconnection
+}
+
+/**
+ * Represents event that is sent to subscriber once its subscription was restored after reconnection
+ */
+export interface ReconnectedEvent {
+  event: SocketEvent.RECONNECTED;
+  downtimeMillis: number; // time passed since disconnection till subscription was restored
+}
+
+/**
+ * Checks whether the event received by subscriber is ReconnectedEvent
+ */
+export function isReconnectedEvent(evt: any): evt is ReconnectedEvent {
+  return (
+    typeof evt === "object" &&
+    evt !== null &&
+    evt.event === SocketEvent.RECONNECTED
+  );
+}
+
+/**
+ * Represents violated invariant of the local copy of the book
+ */
+export enum BookIssue {
+  CROSSED = "crossed", // best bid is not lower than best ask
+  INVALID_VOLUME = "invalid_volume", // level with zero or negative volume
+  DUPLICATE_LEVEL = "duplicate_level", // several levels with the same price on one side
+  OUT_OF_SEQUENCE = "out_of_sequence", // delta overlaps already applied messages
+  STALE = "stale", // no updates were received for too long
+}
+
+/**
+ * Represents status of the local copy of the book
+ */
+export enum BookStatus {
+  SYNCING = "syncing", // snapshot is being fetched
+  HEALTHY = "healthy",
+  UNHEALTHY = "unhealthy", // invariants are violated, resync is in progress
+}
+
+/**
+ * Represents health of the local copy of the book of the pair
+ */
+export interface BookHealth {
+  pair: TradedPair;
+  status: BookStatus;
+  issues: BookIssue[]; // issues that caused the last resync, empty if book is healthy
+  resyncs: number; // number of resyncs since start, initial snapshot is not counted
+  lastUpdateMillis: number; // local time of the last applied snapshot or delta, 0 if none
 }
 
 export interface IMinimalEvent<T> {
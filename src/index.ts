@@ -22,8 +22,14 @@ export * from "./api/websocket/types";
 export * from "./api/contract/types";
 export * from "./utils/utils";
 export * from "./utils/OrderConstructor";
+export * from "./utils/OrderValidator";
 export * from "./utils/WithdrawConstructor";
 export * from "./utils/swap";
+export * from "./utils/SwapSimulator";
+export * from "./utils/SorPathFinder";
+export * from "./utils/depth";
+export * from "./utils/kline";
+export * from "./utils/indicators";
 export * from "./utils/TickerFeeMap";
 export { ERC20Contract } from "./api/contract/ERC20Contract";
 export {
@@ -37,11 +43,33 @@ export type { LayerAkiraHttpConfig } from "./api/http/LayerAkiraHttpAPI";
 export { type ILayerAkiraWSSAPI } from "./api/websocket/LayerAkiraWSSAPI";
 export { LayerAkiraWSSAPI } from "./api/websocket/LayerAkiraWSSAPI";
 export { LayerAkiraContract } from "./api/contract/LayerAkiraContract";
-export { DepthBook } from "./api/websocket/DepthBook";
+export {
+  DepthBook,
+  DepthBookView,
+  type DepthBookOptions,
+} from "./api/websocket/DepthBook";
+export {
+  KlineBuilder,
+  type KlineBuilderOptions,
+} from "./api/websocket/KlineBuilder";
 export { IndexerAPI } from "./api/indexer/Indexer";
 export * from "./api/indexer/types";
+export * from "./api/indexer/pagination";
 
 export { normalize } from "./api/websocket/utils";
 export { castToApiSignature } from "./api";
 export * from "./api/index";
 export * from "./rollup/RollupOnchainParser";
+export * from "./trading/Trader";
+export * from "./trading/ConditionalOrderEngine";
+export * from "./trading/AlgoExecutor";
+export {
+  signAndPlaceOrder,
+  fetchOrderTrades,
+  dbTradeToTrade,
+} from "./trading/utils";
+export * from "./trading/QuoteManager";
+export * from "./trading/Portfolio";
+export * from "./trading/PnLEngine";
+export * from "./trading/LedgerExporter";
+export * from "./trading/Backtester";
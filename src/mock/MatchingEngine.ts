@@ -0,0 +1,329 @@
+import { Address } from "../types";
+import { STPMode, TradedPair } from "../request_types";
+import { MatchingEngineResult, Table } from "../response_types";
+import { getPairKey } from "../api/websocket/utils";
+
+/**
+ * Represents an order as seen by the mock matching engine, amounts are raw
+ */
+export interface EngineOrder {
+  hash: string;
+  maker: Address;
+  pair: TradedPair;
+  isEcosystemBook: boolean;
+  isSellSide: boolean;
+  price: bigint; // limit price or protection price for taker orders
+  baseQty: bigint; // 0 if order is limited by quote qty only
+  quoteQty: bigint; // 0 if order is limited by base qty only
+  baseAsset: bigint; // raw amount of the base asset representing 1 unit
+  postOnly: boolean;
+  isMarketOrder: boolean;
+  fullFillOnly: boolean;
+  bestLevelOnly: boolean;
+  stp: STPMode;
+  nonce: number;
+}
+
+/**
+ * Represents an order that rests in the book of the mock matching engine
+ */
+export interface RestingOrder extends EngineOrder {
+  remainingBase: bigint;
+  filledBase: bigint;
+  filledQuote: bigint;
+}
+
+/**
+ * Represents single trade between resting maker order and incoming taker order
+ */
+export interface EngineFill {
+  maker: RestingOrder;
+  price: bigint;
+  baseQty: bigint;
+  quoteQty: bigint;
+}
+
+/**
+ * Represents the outcome of the placement of an order into the mock matching engine
+ */
+export interface MatchOutcome {
+  fills: EngineFill[];
+  expiredMakers: RestingOrder[]; // makers removed due to STP
+  resting?: RestingOrder; // set if remaining part of the order was put into the book
+  filledBase: bigint;
+  filledQuote: bigint;
+  matcherResult: MatchingEngineResult;
+  changedPrices: { bids: bigint[]; asks: bigint[] };
+}
+
+interface Book {
+  bids: RestingOrder[]; // sorted by price desc, then by time
+  asks: RestingOrder[]; // sorted by price asc, then by time
+}
+
+/**
+ * Tiny price-time priority matching engine used by the mock exchange.
+ * It does not charge fees and does not simulate rollups, trades are settled instantly
+ */
+export class MatchingEngine {
+  private books: Map<string, Book> = new Map();
+
+  /**
+   * Matches the order against the book, the remaining part of non-market order is put into the book
+   * @param order - order to place
+   * @returns outcome of the matching
+   */
+  public place(order: EngineOrder): MatchOutcome {
+    const book = this.getOrCreateBook(order.pair, order.isEcosystemBook);
+    const opposite = order.isSellSide ? book.bids : book.asks;
+    const outcome: MatchOutcome = {
+      fills: [],
+      expiredMakers: [],
+      filledBase: 0n,
+      filledQuote: 0n,
+      matcherResult: MatchingEngineResult.OK,
+      changedPrices: { bids: [], asks: [] },
+    };
+    const markChanged = (isSell: boolean, price: bigint) => {
+      const lst = isSell
+        ? outcome.changedPrices.asks
+        : outcome.changedPrices.bids;
+      if (!lst.includes(price)) lst.push(price);
+    };
+    const crosses = (makerPrice: bigint) =>
+      order.isSellSide ? makerPrice >= order.price : makerPrice <= order.price;
+
+    if (opposite.length > 0 && crosses(opposite[0].price) && order.postOnly) {
+      outcome.matcherResult = MatchingEngineResult.FAILED_VALIDATION;
+      return outcome;
+    }
+    if (
+      order.fullFillOnly &&
+      this.matchableBase(order, opposite) < this.requestedBase(order, opposite)
+    ) {
+      outcome.matcherResult = MatchingEngineResult.NOT_ENOUGH_LIQUIDITY;
+      return outcome;
+    }
+
+    let remainingBase = order.baseQty;
+    let remainingQuote = order.quoteQty;
+    const bestPrice = opposite.length > 0 ? opposite[0].price : undefined;
+    while (opposite.length > 0) {
+      const maker = opposite[0];
+      if (!crosses(maker.price)) {
+        // limit order just rests at its price, only taker stopped by protection price slipped
+        if (order.isMarketOrder)
+          outcome.matcherResult = MatchingEngineResult.SLIPPAGE;
+        break;
+      }
+      if (order.bestLevelOnly && maker.price !== bestPrice) break;
+      if (order.stp !== STPMode.NONE && maker.maker === order.maker) {
+        if (order.stp === STPMode.EXPIRE_TAKER) {
+          outcome.matcherResult = MatchingEngineResult.OK;
+          remainingBase = 0n;
+          remainingQuote = 0n;
+          break;
+        }
+        opposite.shift();
+        outcome.expiredMakers.push(maker);
+        markChanged(maker.isSellSide, maker.price);
+        if (order.stp === STPMode.EXPIRE_BOTH) {
+          remainingBase = 0n;
+          remainingQuote = 0n;
+          break;
+        }
+        continue;
+      }
+      let qty = maker.remainingBase;
+      if (order.baseQty !== 0n && remainingBase < qty) qty = remainingBase;
+      if (order.quoteQty !== 0n) {
+        const byQuote = (remainingQuote * order.baseAsset) / maker.price;
+        if (byQuote < qty) qty = byQuote;
+      }
+      if (qty === 0n) break;
+      const quote = (qty * maker.price) / order.baseAsset;
+      maker.remainingBase -= qty;
+      maker.filledBase += qty;
+      maker.filledQuote += quote;
+      remainingBase -= order.baseQty !== 0n ? qty : 0n;
+      remainingQuote -= order.quoteQty !== 0n ? quote : 0n;
+      outcome.filledBase += qty;
+      outcome.filledQuote += quote;
+      outcome.fills.push({
+        maker,
+        price: maker.price,
+        baseQty: qty,
+        quoteQty: quote,
+      });
+      markChanged(maker.isSellSide, maker.price);
+      if (maker.remainingBase === 0n) opposite.shift();
+      if (this.isExhausted(order, remainingBase, remainingQuote)) break;
+    }
+
+    const exhausted = this.isExhausted(order, remainingBase, remainingQuote);
+    if (!exhausted && opposite.length === 0 && order.isMarketOrder)
+      outcome.matcherResult = MatchingEngineResult.NOT_ENOUGH_LIQUIDITY;
+
+    if (!exhausted && !order.isMarketOrder && order.baseQty !== 0n) {
+      const resting: RestingOrder = {
+        ...order,
+        remainingBase,
+        filledBase: outcome.filledBase,
+        filledQuote: outcome.filledQuote,
+      };
+      this.insert(book, resting);
+      markChanged(order.isSellSide, order.price);
+      outcome.resting = resting;
+    }
+    return outcome;
+  }
+
+  /**
+   * Removes resting order from the book
+   * @param hash - hash of the order
+   * @returns removed order if it was found
+   */
+  public cancel(hash: string): RestingOrder | undefined {
+    for (const book of this.books.values()) {
+      for (const side of [book.bids, book.asks]) {
+        const idx = side.findIndex((o) => o.hash === hash);
+        if (idx >= 0) return side.splice(idx, 1)[0];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Removes all resting orders that satisfy predicate
+   * @param predicate - which orders should be removed
+   * @returns removed orders
+   */
+  public cancelWhere(predicate: (o: RestingOrder) => boolean): RestingOrder[] {
+    const removed: RestingOrder[] = [];
+    for (const book of this.books.values()) {
+      removed.push(
+        ...book.bids.filter(predicate),
+        ...book.asks.filter(predicate),
+      );
+      book.bids = book.bids.filter((o) => !predicate(o));
+      book.asks = book.asks.filter((o) => !predicate(o));
+    }
+    return removed;
+  }
+
+  /**
+   * Looks up resting order by its hash
+   */
+  public getRestingOrder(hash: string): RestingOrder | undefined {
+    for (const book of this.books.values()) {
+      const order =
+        book.bids.find((o) => o.hash === hash) ??
+        book.asks.find((o) => o.hash === hash);
+      if (order) return order;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns all resting orders of the maker
+   */
+  public getRestingOrders(maker?: Address): RestingOrder[] {
+    const res: RestingOrder[] = [];
+    for (const book of this.books.values())
+      res.push(
+        ...[...book.bids, ...book.asks].filter(
+          (o) => maker === undefined || o.maker === maker,
+        ),
+      );
+    return res;
+  }
+
+  /**
+   * Aggregates resting orders into levels [price, volume, orders]
+   * @param pair - traded pair
+   * @param isEcosystemBook - which book
+   * @param levels - how many levels to return, -1 for all
+   */
+  public getTable(
+    pair: TradedPair,
+    isEcosystemBook: boolean,
+    levels: number = -1,
+  ): Table<bigint> {
+    const book = this.getOrCreateBook(pair, isEcosystemBook);
+    return {
+      bids: this.aggregate(book.bids, levels),
+      asks: this.aggregate(book.asks, levels),
+    };
+  }
+
+  /**
+   * Returns aggregated level for the specific price, volume is 0 if no orders at that price
+   */
+  public getLevel(
+    pair: TradedPair,
+    isEcosystemBook: boolean,
+    isSellSide: boolean,
+    price: bigint,
+  ): [bigint, bigint, number] {
+    const book = this.getOrCreateBook(pair, isEcosystemBook);
+    const orders = (isSellSide ? book.asks : book.bids).filter(
+      (o) => o.price === price,
+    );
+    return [
+      price,
+      orders.reduce((acc, o) => acc + o.remainingBase, 0n),
+      orders.length,
+    ];
+  }
+
+  private aggregate(side: RestingOrder[], levels: number) {
+    const res: [bigint, bigint, number][] = [];
+    for (const o of side) {
+      const last = res[res.length - 1];
+      if (last !== undefined && last[0] === o.price) {
+        last[1] += o.remainingBase;
+        last[2] += 1;
+      } else {
+        if (levels >= 0 && res.length >= levels) break;
+        res.push([o.price, o.remainingBase, 1]);
+      }
+    }
+    return res;
+  }
+
+  private insert(book: Book, order: RestingOrder) {
+    const side = order.isSellSide ? book.asks : book.bids;
+    const worse = (p: bigint) =>
+      order.isSellSide ? p > order.price : p < order.price;
+    const idx = side.findIndex((o) => worse(o.price));
+    if (idx < 0) side.push(order);
+    else side.splice(idx, 0, order);
+  }
+
+  private isExhausted(order: EngineOrder, base: bigint, quote: bigint) {
+    return (
+      (order.baseQty !== 0n && base <= 0n) ||
+      (order.quoteQty !== 0n && quote <= 0n)
+    );
+  }
+
+  private requestedBase(order: EngineOrder, opposite: RestingOrder[]) {
+    if (order.baseQty !== 0n) return order.baseQty;
+    const price = opposite.length > 0 ? opposite[0].price : order.price;
+    return (order.quoteQty * order.baseAsset) / price;
+  }
+
+  private matchableBase(order: EngineOrder, opposite: RestingOrder[]) {
+    return opposite
+      .filter((o) =>
+        order.isSellSide ? o.price >= order.price : o.price <= order.price,
+      )
+      .reduce((acc, o) => acc + o.remainingBase, 0n);
+  }
+
+  private getOrCreateBook(pair: TradedPair, isEcosystemBook: boolean): Book {
+    const key = `${getPairKey(pair)}/${isEcosystemBook}`;
+    if (!this.books.has(key)) this.books.set(key, { bids: [], asks: [] });
+    return this.books.get(key)!;
+  }
+}
@@ -0,0 +1,985 @@
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  connection as WsConnection,
+  request as WsRequest,
+  server as WsServer,
+} from "websocket";
+import { Address } from "../types";
+import {
+  ERC20Token,
+  ERCToDecimalsMap,
+  OrderStatus,
+  STPMode,
+  TradedPair,
+} from "../request_types";
+import {
+  FeeTuple,
+  MatchingEngineResult,
+  RouterSpecification,
+  StepsConfiguration,
+  TickerSpecification,
+} from "../response_types";
+import { SocketEvent } from "../api/websocket/types";
+import { normalize } from "../api/websocket/utils";
+import { bigIntReplacer } from "../api/http/utils";
+import {
+  bigIntToFormattedDecimal,
+  formattedDecimalToBigInt,
+} from "../api/utils";
+import { bigintToHex } from "../api/contract/utils";
+import { NULL_ADDRESS } from "../constants";
+import { EngineOrder, MatchingEngine, RestingOrder } from "./MatchingEngine";
+
+/**
+ * Interface representing the configuration for the mock exchange.
+ */
+export interface MockExchangeConfig {
+  erc20ToDecimals: ERCToDecimalsMap;
+  baseFeeToken: ERC20Token;
+  tickerSpecifications: TickerSpecification[];
+  gasPrice?: bigint;
+  stepsConfiguration?: StepsConfiguration;
+  routerSpecification?: RouterSpecification;
+  fees?: FeeTuple; // maker and taker fees reported in user info, not charged
+  logger?: (arg: string) => void;
+}
+
+interface MockAccount {
+  nonce: number;
+  balances: Map<ERC20Token, bigint>;
+}
+
+interface StoredOrder {
+  hash: string;
+  maker: Address;
+  body: Record<string, any>; // order as it was received by place_order
+  pair: TradedPair;
+  isEcosystemBook: boolean;
+  baseAsset: bigint;
+  status: OrderStatus;
+  matcherResult: MatchingEngineResult;
+  filledBase: bigint;
+  filledQuote: bigint;
+  trades: number;
+  createdAt: number;
+}
+
+interface MockResponse {
+  code?: number;
+  result?: any;
+  error?: string;
+  headers?: Record<string, string>;
+}
+
+type Handler = (
+  query: URLSearchParams,
+  body: Record<string, any>,
+  account?: Address,
+) => MockResponse;
+
+interface WsClientState {
+  conn: WsConnection;
+  account: Address;
+  streams: Set<string>;
+}
+
+/**
+ * In-process mock of the LayerAkira exchange that serves the same http routes as LayerAkiraHttpAPI calls
+ * and the same json-rpc websocket protocol as LayerAkiraWSSAPI uses.
+ * Orders are matched by the tiny MatchingEngine and results are published as ExecutionReport,
+ * FillTransactionInfo, TableUpdate, BBO and Trade events.
+ * Notes:
+ *    Signatures are not verified, any sign data signature yields JWT token
+ *    Fees and gas are not charged, trades are settled instantly and rollup tx hashes are synthetic
+ *    Node only, not exported from package index to keep browser bundles free of http server
+ * @category Testing
+ */
+export class MockExchange {
+  public readonly engine: MatchingEngine = new MatchingEngine();
+  public logger: (arg: string) => void;
+
+  private readonly config: MockExchangeConfig;
+  private readonly httpServer: http.Server;
+  private readonly wsServer: WsServer;
+  private readonly routes: Map<string, Handler>;
+  private readonly accounts: Map<Address, MockAccount> = new Map();
+  private readonly orders: Map<string, StoredOrder> = new Map();
+  private readonly signData: Map<string, Address> = new Map();
+  private readonly jwts: Map<string, Address> = new Map();
+  private readonly listenKeys: Map<string, Address> = new Map();
+  private readonly msgIds: Map<string, bigint> = new Map();
+  private readonly wsClients: Set<WsClientState> = new Set();
+  private readonly failures: Map<string, MockResponse[]> = new Map();
+  private counter = 0n;
+
+  constructor(config: MockExchangeConfig) {
+    this.config = config;
+    this.logger = config.logger ?? ((arg: string) => arg);
+    this.httpServer = http.createServer((req, res) =>
+      this.handleHttp(req, res),
+    );
+    this.wsServer = new WsServer({ httpServer: this.httpServer });
+    this.wsServer.on("request", (req) => this.handleWsRequest(req));
+    this.routes = new Map<string, Handler>([
+      ["GET /sign/request_sign_data", (q) => this.requestSignData(q)],
+      ["POST /sign/auth", (_, b) => this.auth(b)],
+      ["GET /gas/price", () => this.ok(this.gasPrice())],
+      ["GET /book/bbo", (q) => this.bbo(q)],
+      ["GET /book/snapshot", (q) => this.snapshot(q)],
+      [
+        "GET /user/listen_key",
+        this.authorized((_, __, a) => this.listenKey(a)),
+      ],
+      ["GET /user/order", this.authorized((q) => this.getOrder(q))],
+      ["GET /user/orders", this.authorized((q) => this.getOrders(q))],
+      ["GET /user/user_info", this.authorized((q) => this.userInfo(q))],
+      [
+        "POST /place_order",
+        this.authorized((_, b, a) => this.placeOrder(b, a)),
+      ],
+      [
+        "POST /cancel_order",
+        this.authorized((_, b, a) => this.cancelOrder(b, a)),
+      ],
+      ["POST /cancel_all", this.authorized((_, b, a) => this.cancelAll(b, a))],
+      ["POST /withdraw", this.authorized((_, b, a) => this.withdraw(b, a))],
+      [
+        "POST /increase_nonce",
+        this.authorized((_, b, a) => this.increaseNonce(b, a)),
+      ],
+      [
+        "POST /router/sign_external_order",
+        () => this.ok([bigintToHex(this.nextId()), bigintToHex(this.nextId())]),
+      ],
+      ["GET /info/conversion_rate", (q) => this.conversionRate(q)],
+      ["GET /info/steps_specifications", () => this.ok(this.steps())],
+      ["GET /info/ticker_specifications", () => this.tickerSpecs()],
+      ["GET /info/router_details", () => this.ok(this.router())],
+    ]);
+  }
+
+  /**
+   * Base url that should be passed as apiBaseUrl to LayerAkiraHttpAPI
+   */
+  public get httpUrl(): string {
+    const addr = this.httpServer.address() as AddressInfo;
+    return `http://127.0.0.1:${addr.port}`;
+  }
+
+  /**
+   * Websocket path that should be passed as wsPath to LayerAkiraWSSAPI
+   */
+  public get wsUrl(): string {
+    const addr = this.httpServer.address() as AddressInfo;
+    return `ws://127.0.0.1:${addr.port}/ws`;
+  }
+
+  /**
+   * Starts listening for http and websocket connections
+   * @param port - port to listen, 0 picks random free port
+   */
+  public async start(port: number = 0): Promise<void> {
+    return new Promise((resolve) =>
+      this.httpServer.listen(port, "127.0.0.1", () => resolve()),
+    );
+  }
+
+  /**
+   * Drops all websocket connections and stops the http server
+   */
+  public async stop(): Promise<void> {
+    this.wsServer.shutDown();
+    this.wsClients.clear();
+    this.httpServer.closeAllConnections();
+    return new Promise((resolve) => this.httpServer.close(() => resolve()));
+  }
+
+  /**
+   * Makes next requests to the route fail without processing, used to simulate unavailability and throttling
+   * @param route - method and path, e.g. "GET /gas/price"
+   * @param code - http status code to answer with
+   * @param times - how many requests should fail
+   * @param retryAfterSeconds - value of Retry-After header, if any
+   */
+  public injectFailure(
+    route: string,
+    code: number,
+    times: number = 1,
+    retryAfterSeconds?: number,
+  ) {
+    const queue = this.failures.get(route) ?? [];
+    for (let i = 0; i < times; i++)
+      queue.push({
+        code,
+        error: `Injected failure ${code}`,
+        headers:
+          retryAfterSeconds !== undefined
+            ? { "retry-after": `${retryAfterSeconds}` }
+            : undefined,
+      });
+    this.failures.set(route, queue);
+  }
+
+  /**
+   * Closes all websocket connections while keeping the server running, used to simulate network issues
+   */
+  public dropConnections() {
+    this.wsClients.forEach((c) => c.conn.drop());
+    this.wsClients.clear();
+  }
+
+  /**
+   * Credits exchange balance of the trading account
+   * @param account - trading account
+   * @param token - token to credit
+   * @param amount - raw amount
+   */
+  public deposit(account: Address, token: ERC20Token, amount: bigint) {
+    const acc = this.getAccount(account);
+    acc.balances.set(token, (acc.balances.get(token) ?? 0n) + amount);
+  }
+
+  /**
+   * Returns exchange balance of the trading account including locked amount
+   */
+  public balanceOf(account: Address, token: ERC20Token): bigint {
+    return this.getAccount(account).balances.get(token) ?? 0n;
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse) {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://127.0.0.1");
+      const route = `${req.method} ${url.pathname}`;
+      const handler = this.routes.get(route);
+      const failure = this.failures.get(route)?.shift();
+      let resp: MockResponse;
+      try {
+        const body = raw.length > 0 ? JSON.parse(raw) : {};
+        if (failure) resp = failure;
+        else if (handler)
+          resp = handler(
+            url.searchParams,
+            body,
+            this.jwts.get(req.headers.authorization ?? ""),
+          );
+        else resp = { code: 404, error: `Unknown route ${url.pathname}` };
+      } catch (e) {
+        resp = { code: 500, error: `${e}` };
+      }
+      const code = resp.code ?? (resp.error === undefined ? 200 : 400);
+      this.logger(`Mock ${req.method} ${url.pathname} -> ${code}`);
+      res.writeHead(code, {
+        "content-type": "application/json",
+        ...resp.headers,
+      });
+      res.end(
+        JSON.stringify(
+          resp.error === undefined
+            ? { result: resp.result }
+            : { error: resp.error },
+          bigIntReplacer,
+        ),
+      );
+    });
+  }
+
+  private handleWsRequest(req: WsRequest) {
+    const { listenKey, signer } = req.resourceURL.query;
+    const account = this.listenKeys.get(`${listenKey}`);
+    if (req.resourceURL.pathname !== "/ws" || !account || !signer) {
+      req.reject(401, "Wrong listen key");
+      return;
+    }
+    const state: WsClientState = {
+      conn: req.accept(null, req.origin),
+      account,
+      streams: new Set(),
+    };
+    this.wsClients.add(state);
+    state.conn.on("close", () => this.wsClients.delete(state));
+    state.conn.on("message", (msg) => {
+      if (msg.type !== "utf8") return;
+      let json: any;
+      try {
+        json = JSON.parse(msg.utf8Data);
+      } catch (e) {
+        state.conn.sendUTF(
+          JSON.stringify({ id: null, error: `Malformed request: ${e}` }),
+        );
+        return;
+      }
+      const stream = this.streamKey(json, state.account);
+      if (stream === undefined) {
+        state.conn.sendUTF(
+          JSON.stringify({ id: json.id, error: "Wrong stream" }),
+        );
+        return;
+      }
+      if (json.action === "subscribe") state.streams.add(stream);
+      else state.streams.delete(stream);
+      state.conn.sendUTF(JSON.stringify({ id: json.id, result: "OK" }));
+    });
+  }
+
+  private streamKey(json: any, account: Address): string | undefined {
+    if (`${json.stream}`.startsWith(`${SocketEvent.EXECUTION_REPORT}_`)) {
+      const client = normalize(json.stream.split("_")[1]);
+      return client === account
+        ? `${SocketEvent.EXECUTION_REPORT}_${client}`
+        : undefined;
+    }
+    if (
+      ![SocketEvent.BBO, SocketEvent.TRADE, SocketEvent.BOOK_DELTA].includes(
+        json.stream,
+      )
+    )
+      return undefined;
+    const t = json.ticker;
+    return this.marketStream(
+      json.stream,
+      { base: t.base, quote: t.quote },
+      !!t.ecosystem_book,
+    );
+  }
+
+  private marketStream(
+    stream: SocketEvent,
+    pair: TradedPair,
+    isEcosystemBook: boolean,
+  ) {
+    return `${stream}/${pair.base}/${pair.quote}/${isEcosystemBook}`;
+  }
+
+  private broadcast(stream: string, frame: Record<string, any>) {
+    const data = JSON.stringify(frame, bigIntReplacer);
+    this.wsClients.forEach(
+      (c) => c.streams.has(stream) && c.conn.sendUTF(data),
+    );
+  }
+
+  private authorized(handler: Handler): Handler {
+    return (query, body, account) =>
+      account === undefined
+        ? { code: 401, error: "Auth header invalid" }
+        : handler(query, body, account);
+  }
+
+  private ok(result: any): MockResponse {
+    return { result };
+  }
+
+  private requestSignData(q: URLSearchParams): MockResponse {
+    const account = q.get("account") ?? "";
+    if (!/^0x[0-9a-fA-F]+$/.test(account))
+      return { code: 500, error: "Wrong account" };
+    const msg = (this.nextId() + 1_000_000n).toString();
+    this.signData.set(msg, normalize(account));
+    return this.ok(msg);
+  }
+
+  private auth(body: Record<string, any>): MockResponse {
+    const account = this.signData.get(`${body.msg}`);
+    if (
+      account === undefined ||
+      !Array.isArray(body.signature) ||
+      body.signature.length < 2
+    )
+      return { code: 500, error: "Wrong signature" };
+    this.signData.delete(`${body.msg}`);
+    const jwt = `mock_jwt_${this.nextId()}`;
+    this.jwts.set(jwt, account);
+    return this.ok(jwt);
+  }
+
+  private listenKey(account?: Address): MockResponse {
+    const key = `mock_listen_key_${this.nextId()}`;
+    this.listenKeys.set(key, account!);
+    return this.ok(key);
+  }
+
+  private bbo(q: URLSearchParams): MockResponse {
+    const [pair, eco] = this.parseBookQuery(q);
+    const table = this.engine.getTable(pair, eco, 1);
+    const lvl = (l?: [bigint, bigint, number]) =>
+      l === undefined
+        ? {}
+        : {
+            price: this.fmt(l[0], pair.quote),
+            volume: this.fmt(l[1], pair.base),
+            orders: l[2],
+          };
+    return this.ok({
+      bid: lvl(table.bids[0]),
+      ask: lvl(table.asks[0]),
+      ts: Date.now(),
+      pair,
+    });
+  }
+
+  private snapshot(q: URLSearchParams): MockResponse {
+    const [pair, eco] = this.parseBookQuery(q);
+    const table = this.engine.getTable(
+      pair,
+      eco,
+      Number(q.get("levels") ?? -1),
+    );
+    const msgId = (
+      this.msgIds.get(this.marketStream(SocketEvent.BOOK_DELTA, pair, eco)) ??
+      0n
+    ).toString();
+    return this.ok({
+      levels: {
+        bids: table.bids.map((l) => this.fmtLevel(l, pair)),
+        asks: table.asks.map((l) => this.fmtLevel(l, pair)),
+        msg_id: msgId,
+      },
+      msg_id: msgId,
+      time: Date.now(),
+      msg_ids_start: msgId,
+      msg_ids_end: msgId,
+      pair,
+    });
+  }
+
+  private parseBookQuery(q: URLSearchParams): [TradedPair, boolean] {
+    return [
+      { base: q.get("base") ?? "", quote: q.get("quote") ?? "" },
+      q.get("to_ecosystem_book") === "1",
+    ];
+  }
+
+  private userInfo(q: URLSearchParams): MockResponse {
+    const account = normalize(q.get("trading_account") ?? "0x0");
+    const acc = this.getAccount(account);
+    const locked = this.lockedOf(account);
+    return this.ok({
+      nonce: acc.nonce,
+      balances: Array.from(acc.balances.entries()).map(([token, balance]) => ({
+        token,
+        balance: this.fmt(balance, token),
+        locked: this.fmt(locked.get(token) ?? 0n, token),
+      })),
+      fees: this.config.tickerSpecifications.map((s) => ({
+        base: s.ticker.pair.base,
+        quote: s.ticker.pair.quote,
+        fee: this.config.fees ?? [0, 0],
+      })),
+    });
+  }
+
+  private getOrder(q: URLSearchParams): MockResponse {
+    const order = this.orders.get(normalize(q.get("order_hash") ?? "0x0"));
+    const isActive =
+      order !== undefined &&
+      this.engine.getRestingOrder(order.hash) !== undefined;
+    if (order === undefined || isActive !== (q.get("active") === "1"))
+      return { code: 404, error: "Order not found" };
+    return this.ok(this.renderOrder(order, Number(q.get("mode") ?? 1)));
+  }
+
+  private getOrders(q: URLSearchParams): MockResponse {
+    const account = normalize(q.get("trading_account") ?? "0x0");
+    const active = q.get("active") === "true";
+    const offset = Number(q.get("offset") ?? 0);
+    const limit = Number(q.get("limit") ?? 20);
+    const data = Array.from(this.orders.values())
+      .filter((o) => o.maker === account)
+      .filter(
+        (o) => (this.engine.getRestingOrder(o.hash) !== undefined) === active,
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(offset, offset + limit)
+      .map((o) => this.renderOrder(o, Number(q.get("mode") ?? 1)));
+    return this.ok({ data, cursor: null });
+  }
+
+  private placeOrder(
+    body: Record<string, any>,
+    account?: Address,
+  ): MockResponse {
+    const [base, quote] = body.ticker as [ERC20Token, ERC20Token];
+    const pair = { base, quote };
+    const isEco = !!body.flags.to_ecosystem_book;
+    const maker = normalize(body.maker);
+    if (maker !== account) return { error: "Wrong maker" };
+    const spec = this.config.tickerSpecifications.find(
+      (s) =>
+        s.ticker.pair.base === base &&
+        s.ticker.pair.quote === quote &&
+        s.ticker.isEcosystemBook === isEco,
+    );
+    if (spec === undefined) return { error: "Unknown ticker" };
+    const acc = this.getAccount(maker);
+    if (Number(body.constraints.nonce) < acc.nonce)
+      return { error: "Stale nonce" };
+
+    const baseAsset = 10n ** BigInt(this.config.erc20ToDecimals[base]);
+    const engineOrder: EngineOrder = {
+      hash: bigintToHex(this.nextId()),
+      maker,
+      pair,
+      isEcosystemBook: isEco,
+      isSellSide: !!body.flags.is_sell_side,
+      price: this.parse(body.price, quote),
+      baseQty: this.parse(body.qty.base_qty, base),
+      quoteQty: this.parse(body.qty.quote_qty, quote),
+      baseAsset,
+      postOnly: !!body.flags.post_only,
+      isMarketOrder: !!body.flags.is_market_order,
+      fullFillOnly: !!body.flags.full_fill_only,
+      bestLevelOnly: !!body.flags.best_level_only,
+      stp: Number(body.constraints.stp ?? STPMode.NONE),
+      nonce: Number(body.constraints.nonce),
+    };
+    const [spendToken, spend] = engineOrder.isSellSide
+      ? [
+          base,
+          engineOrder.baseQty !== 0n
+            ? engineOrder.baseQty
+            : (engineOrder.quoteQty * baseAsset) / engineOrder.price,
+        ]
+      : [
+          quote,
+          engineOrder.quoteQty !== 0n
+            ? engineOrder.quoteQty
+            : (engineOrder.baseQty * engineOrder.price) / baseAsset,
+        ];
+    const available =
+      (acc.balances.get(spendToken) ?? 0n) -
+      (this.lockedOf(maker).get(spendToken) ?? 0n);
+    if (!body.flags.external_funds && available < spend)
+      return { error: "Not enough balance" };
+
+    const { sign, router_sign, ...rest } = body;
+    const stored: StoredOrder = {
+      hash: engineOrder.hash,
+      maker,
+      body: rest,
+      pair,
+      isEcosystemBook: isEco,
+      baseAsset,
+      status: OrderStatus.ACCEPTED,
+      matcherResult: MatchingEngineResult.OK,
+      filledBase: 0n,
+      filledQuote: 0n,
+      trades: 0,
+      createdAt: Number(body.constraints.created_at),
+    };
+    this.orders.set(stored.hash, stored);
+    const expired =
+      stored.createdAt + Number(body.constraints.duration_valid) <
+      Math.floor(Date.now() / 1000);
+    const valid =
+      engineOrder.price % spec.rawPriceIncrement === 0n &&
+      engineOrder.baseQty % spec.rawQuoteQtyIncrement === 0n &&
+      (engineOrder.baseQty === 0n ||
+        engineOrder.baseQty >= spec.rawMinQuoteQty);
+    setImmediate(() => this.match(stored, engineOrder, valid, expired));
+    return this.ok(stored.hash);
+  }
+
+  private match(
+    stored: StoredOrder,
+    order: EngineOrder,
+    valid: boolean,
+    expired: boolean,
+  ) {
+    this.report(stored, 0n, 0n, 0n);
+    if (expired || !valid) {
+      stored.status = expired ? OrderStatus.EXPIRED : OrderStatus.CLOSED;
+      stored.matcherResult = expired
+        ? MatchingEngineResult.EXPIRED
+        : MatchingEngineResult.FAILED_VALIDATION;
+      return this.report(stored, 0n, 0n, 0n);
+    }
+    const outcome = this.engine.place(order);
+    for (const fill of outcome.fills) {
+      const makerOrder = this.orders.get(fill.maker.hash)!;
+      this.settle(
+        order.maker,
+        order.pair,
+        order.isSellSide,
+        fill.baseQty,
+        fill.quoteQty,
+      );
+      this.settle(
+        fill.maker.maker,
+        order.pair,
+        !order.isSellSide,
+        fill.baseQty,
+        fill.quoteQty,
+      );
+      makerOrder.filledBase += fill.baseQty;
+      makerOrder.filledQuote += fill.quoteQty;
+      makerOrder.trades += 1;
+      makerOrder.status =
+        fill.maker.remainingBase === 0n
+          ? OrderStatus.FILLED
+          : OrderStatus.PARTIALLY_FILLED;
+      stored.filledBase += fill.baseQty;
+      stored.filledQuote += fill.quoteQty;
+      stored.trades += 1;
+      stored.status = OrderStatus.PARTIALLY_FILLED;
+      this.report(makerOrder, fill.price, fill.baseQty, fill.quoteQty);
+      this.report(stored, fill.price, fill.baseQty, fill.quoteQty);
+      this.broadcast(
+        this.marketStream(SocketEvent.TRADE, order.pair, order.isEcosystemBook),
+        {
+          stream: SocketEvent.TRADE,
+          pair: order.pair,
+          ecosystem: order.isEcosystemBook,
+          result: {
+            price: this.fmt(fill.price, order.pair.quote),
+            base_qty: this.fmt(fill.baseQty, order.pair.base),
+            quote_qty: this.fmt(fill.quoteQty, order.pair.quote),
+            is_sell_side: order.isSellSide,
+            time: Date.now(),
+          },
+        },
+      );
+    }
+    outcome.expiredMakers.forEach((m) => this.finalize(m, OrderStatus.EXPIRED));
+
+    stored.matcherResult = outcome.matcherResult;
+    if (outcome.resting !== undefined) {
+      if (outcome.fills.length === 0) {
+        stored.status = OrderStatus.OPEN;
+        this.report(stored, 0n, 0n, 0n);
+      }
+    } else {
+      const fullyFilled =
+        (order.baseQty !== 0n && stored.filledBase >= order.baseQty) ||
+        (order.quoteQty !== 0n && stored.filledQuote >= order.quoteQty);
+      stored.status = fullyFilled
+        ? OrderStatus.FILLED
+        : outcome.matcherResult === MatchingEngineResult.FAILED_VALIDATION
+          ? OrderStatus.CANCELLED
+          : OrderStatus.CLOSED;
+      this.report(stored, 0n, 0n, 0n);
+    }
+    if (outcome.fills.length > 0) {
+      const txHash = bigintToHex(this.nextId());
+      for (const hash of new Set([
+        stored.hash,
+        ...outcome.fills.map((f) => f.maker.hash),
+      ])) {
+        const o = this.orders.get(hash)!;
+        this.broadcast(`${SocketEvent.EXECUTION_REPORT}_${o.maker}`, {
+          stream: SocketEvent.EXECUTION_REPORT,
+          client: o.maker,
+          result: {
+            client: o.maker,
+            tx_hash: txHash,
+            order_hash: o.hash,
+            source: o.body.source,
+            old_tx_hash: "",
+          },
+        });
+      }
+    }
+    this.publishBook(order.pair, order.isEcosystemBook, outcome.changedPrices);
+  }
+
+  private cancelOrder(
+    body: Record<string, any>,
+    account?: Address,
+  ): MockResponse {
+    const hash = normalize(body.order_hash);
+    const order = this.orders.get(hash);
+    if (order === undefined || order.maker !== account)
+      return { code: 404, error: "Order not found" };
+    const removed = this.engine.cancel(hash);
+    if (removed !== undefined) {
+      this.finalize(removed, OrderStatus.CANCELLED);
+      this.publishBook(order.pair, order.isEcosystemBook, {
+        bids: removed.isSellSide ? [] : [removed.price],
+        asks: removed.isSellSide ? [removed.price] : [],
+      });
+    }
+    return this.ok(bigintToHex(this.nextId()));
+  }
+
+  private cancelAll(
+    body: Record<string, any>,
+    account?: Address,
+  ): MockResponse {
+    const t = body.ticker;
+    const pair = { base: t.base, quote: t.quote };
+    const removed = this.engine.cancelWhere(
+      (o) =>
+        o.maker === account &&
+        o.pair.base === pair.base &&
+        o.pair.quote === pair.quote &&
+        o.isEcosystemBook === !!t.to_ecosystem_book,
+    );
+    const reqHash = bigintToHex(this.nextId());
+    setImmediate(() => {
+      removed.forEach((o) => this.finalize(o, OrderStatus.CANCELLED));
+      this.broadcast(`${SocketEvent.EXECUTION_REPORT}_${account}`, {
+        stream: SocketEvent.EXECUTION_REPORT,
+        client: account,
+        result: { client: account, cancel_ticker_hash: reqHash },
+      });
+      this.publishBook(pair, !!t.to_ecosystem_book, this.changedOf(removed));
+    });
+    return this.ok(reqHash);
+  }
+
+  private increaseNonce(
+    body: Record<string, any>,
+    account?: Address,
+  ): MockResponse {
+    const acc = this.getAccount(account!);
+    const newNonce = Number(body.new_nonce);
+    if (newNonce <= acc.nonce) return { error: "Stale nonce" };
+    acc.nonce = newNonce;
+    const removed = this.engine.cancelWhere(
+      (o) => o.maker === account && o.nonce < newNonce,
+    );
+    setImmediate(() => {
+      removed.forEach((o) => this.finalize(o, OrderStatus.CANCELLED));
+      for (const o of removed)
+        this.publishBook(o.pair, o.isEcosystemBook, this.changedOf([o]));
+    });
+    return this.ok(bigintToHex(this.nextId()));
+  }
+
+  private withdraw(body: Record<string, any>, account?: Address): MockResponse {
+    const amount = this.parse(body.amount, body.token);
+    const acc = this.getAccount(account!);
+    const available =
+      (acc.balances.get(body.token) ?? 0n) -
+      (this.lockedOf(account!).get(body.token) ?? 0n);
+    if (available < amount) return { error: "Not enough balance" };
+    acc.balances.set(body.token, (acc.balances.get(body.token) ?? 0n) - amount);
+    return this.ok(bigintToHex(this.nextId()));
+  }
+
+  private conversionRate(q: URLSearchParams): MockResponse {
+    const token = q.get("token") ?? this.config.baseFeeToken;
+    if (this.config.erc20ToDecimals[token] === undefined)
+      return { code: 404, error: "Unknown token" };
+    return this.ok(["1", "1"]);
+  }
+
+  private tickerSpecs(): MockResponse {
+    return this.ok(
+      this.config.tickerSpecifications.map((s) => ({
+        ticker: s.ticker,
+        rawPriceIncrement: s.rawPriceIncrement.toString(),
+        rawMinQuoteQty: s.rawMinQuoteQty.toString(),
+        rawQuoteQtyIncrement: s.rawQuoteQtyIncrement.toString(),
+      })),
+    );
+  }
+
+  private gasPrice() {
+    return (this.config.gasPrice ?? 100_000_000n).toString();
+  }
+
+  private steps(): StepsConfiguration {
+    return (
+      this.config.stepsConfiguration ?? {
+        withdraw: 150,
+        swapRouter: 100,
+        swapEcosystem: 50,
+        nonce: 50,
+      }
+    );
+  }
+
+  private router(): RouterSpecification {
+    return (
+      this.config.routerSpecification ?? {
+        routerTakerPbips: 0,
+        routerMakerPbips: 0,
+        routerSigner: NULL_ADDRESS,
+        routerFeeRecipient: NULL_ADDRESS,
+      }
+    );
+  }
+
+  private finalize(resting: RestingOrder, status: OrderStatus) {
+    const order = this.orders.get(resting.hash);
+    if (order === undefined) return;
+    order.status = status;
+    this.report(order, 0n, 0n, 0n);
+  }
+
+  private report(
+    order: StoredOrder,
+    price: bigint,
+    base: bigint,
+    quote: bigint,
+  ) {
+    this.broadcast(`${SocketEvent.EXECUTION_REPORT}_${order.maker}`, {
+      stream: SocketEvent.EXECUTION_REPORT,
+      client: order.maker,
+      pair: order.pair,
+      result: {
+        client: order.maker,
+        fill_price: this.fmt(price, order.pair.quote),
+        fill_base_qty: this.fmt(base, order.pair.base),
+        fill_quote_qty: this.fmt(quote, order.pair.quote),
+        acc_base_qty: this.fmt(order.filledBase, order.pair.base),
+        acc_quote_qty: this.fmt(order.filledQuote, order.pair.quote),
+        hash: order.hash,
+        is_sell_side: !!order.body.flags.is_sell_side,
+        status: order.status,
+        matcher_result: order.matcherResult,
+      },
+    });
+  }
+
+  private publishBook(
+    pair: TradedPair,
+    isEco: boolean,
+    changed: { bids: bigint[]; asks: bigint[] },
+  ) {
+    if (changed.bids.length === 0 && changed.asks.length === 0) return;
+    const deltaStream = this.marketStream(SocketEvent.BOOK_DELTA, pair, isEco);
+    const msgId = (this.msgIds.get(deltaStream) ?? 0n) + 1n;
+    this.msgIds.set(deltaStream, msgId);
+    this.broadcast(deltaStream, {
+      stream: SocketEvent.BOOK_DELTA,
+      pair,
+      ecosystem: isEco,
+      result: {
+        bids: changed.bids.map((p) =>
+          this.fmtLevel(this.engine.getLevel(pair, isEco, false, p), pair),
+        ),
+        asks: changed.asks.map((p) =>
+          this.fmtLevel(this.engine.getLevel(pair, isEco, true, p), pair),
+        ),
+        msg_id: msgId.toString(),
+        msg_ids_start: msgId.toString(),
+        msg_ids_end: msgId.toString(),
+        time: Date.now(),
+        pair,
+      },
+    });
+    const top = this.engine.getTable(pair, isEco, 1);
+    this.broadcast(this.marketStream(SocketEvent.BBO, pair, isEco), {
+      stream: SocketEvent.BBO,
+      pair,
+      ecosystem: isEco,
+      result: {
+        bid: top.bids.length > 0 ? this.fmtLevel(top.bids[0], pair) : [],
+        ask: top.asks.length > 0 ? this.fmtLevel(top.asks[0], pair) : [],
+        ts: Date.now(),
+        pair,
+      },
+    });
+  }
+
+  private renderOrder(o: StoredOrder, mode: number) {
+    const resting = this.engine.getRestingOrder(o.hash);
+    const body = o.body;
+    const qty = { ...body.qty, base_asset: o.baseAsset.toString() };
+    const state = {
+      filled_base_amount: this.fmt(o.filledBase, o.pair.base),
+      filled_quote_amount: this.fmt(o.filledQuote, o.pair.quote),
+      cur_number_of_swaps: o.trades,
+      status: o.status,
+      limit_price: resting !== undefined ? body.price : null,
+      paid_fee_as_maker: "0",
+      paid_fee_as_taker: "0",
+      failed_base_amount: "0",
+      failed_quote_amount: "0",
+      failed_offchain: 0,
+      failed_onchain: 0,
+      reimbursement: "0",
+      gas_paid: "0",
+    };
+    if (mode === 2)
+      return {
+        maker: o.maker,
+        hash: o.hash,
+        state,
+        price: body.price,
+        ticker: o.pair,
+        qty,
+        order_flags: body.flags,
+        stp: body.constraints.stp,
+        expiration_time: o.createdAt + Number(body.constraints.duration_valid),
+        source: body.source,
+        created_at: o.createdAt,
+        taker_match_result: o.matcherResult,
+      };
+    return {
+      ...body,
+      maker: o.maker,
+      ticker: o.pair,
+      qty,
+      hash: o.hash,
+      state,
+    };
+  }
+
+  private settle(
+    account: Address,
+    pair: TradedPair,
+    isSell: boolean,
+    base: bigint,
+    quote: bigint,
+  ) {
+    const acc = this.getAccount(account);
+    const sign = isSell ? -1n : 1n;
+    acc.balances.set(
+      pair.base,
+      (acc.balances.get(pair.base) ?? 0n) + sign * base,
+    );
+    acc.balances.set(
+      pair.quote,
+      (acc.balances.get(pair.quote) ?? 0n) - sign * quote,
+    );
+  }
+
+  private lockedOf(account: Address): Map<ERC20Token, bigint> {
+    const locked = new Map<ERC20Token, bigint>();
+    for (const o of this.engine.getRestingOrders(account)) {
+      const [token, amount] = o.isSellSide
+        ? [o.pair.base, o.remainingBase]
+        : [o.pair.quote, (o.remainingBase * o.price) / o.baseAsset];
+      locked.set(token, (locked.get(token) ?? 0n) + amount);
+    }
+    return locked;
+  }
+
+  private changedOf(orders: RestingOrder[]) {
+    return {
+      bids: orders.filter((o) => !o.isSellSide).map((o) => o.price),
+      asks: orders.filter((o) => o.isSellSide).map((o) => o.price),
+    };
+  }
+
+  private getAccount(account: Address): MockAccount {
+    const key = normalize(account);
+    if (!this.accounts.has(key))
+      this.accounts.set(key, { nonce: 0, balances: new Map() });
+    return this.accounts.get(key)!;
+  }
+
+  private fmtLevel(l: [bigint, bigint, number], pair: TradedPair) {
+    return [this.fmt(l[0], pair.quote), this.fmt(l[1], pair.base), l[2]];
+  }
+
+  private fmt(amount: bigint, token: ERC20Token): string {
+    return bigIntToFormattedDecimal(amount, this.config.erc20ToDecimals[token]);
+  }
+
+  private parse(amount: any, token: ERC20Token): bigint {
+    return formattedDecimalToBigInt(
+      `${amount ?? 0}`,
+      this.config.erc20ToDecimals[token],
+    );
+  }
+
+  private nextId(): bigint {
+    this.counter += 1n;
+    return this.counter;
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./MatchingEngine";
+export * from "./MockExchange";
@@ -0,0 +1,22 @@
+import fs from "fs";
+import path from "path";
+import { HttpFixture } from "../api/http/FixtureTransport";
+
+/**
+ * Writes fixtures recorded by FixtureTransport to the json file, directory is created if it does not exist
+ * @param file - path of the file
+ * @param fixtures - recorded fixtures, e.g. api.fixtures.fixtures
+ */
+export async function saveFixtures(file: string, fixtures: HttpFixture[]) {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify(fixtures, null, 2) + "\n");
+}
+
+/**
+ * Reads fixtures written by saveFixtures
+ * @param file - path of the file
+ * @returns fixtures to pass to HttpClientOptions
+ */
+export async function loadFixtures(file: string): Promise<HttpFixture[]> {
+  return JSON.parse(await fs.promises.readFile(file, "utf-8"));
+}
@@ -0,0 +1,213 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { BaseWssApi } from "../api/websocket/BaseWssApi";
+
+/**
+ * Represents format of the recorded market data
+ */
+export enum RecordFormat {
+  NDJSON = "ndjson", // json object with time and raw frame per line
+  BINARY = "bin", // magic header followed by records of float64 time, uint32 length and utf-8 frame
+}
+
+/**
+ * Represents raw websocket frame with local time of its receipt
+ */
+export interface RecordedFrame {
+  time: number; // in milliseconds
+  data: string; // raw frame as received from the socket
+}
+
+/**
+ * Represents optional parameters of the MarketDataRecorder
+ */
+export interface MarketDataRecorderOptions {
+  format?: RecordFormat; // NDJSON by default
+  prefix?: string; // prefix of the names of the files, "market-data" by default
+  streams?: string[]; // streams to record, e.g. [SocketEvent.BOOK_DELTA], all streams by default
+  maxFileBytes?: number; // file is rotated once it reaches that size, 64 MiB by default
+  rotateIntervalMillis?: number; // file is rotated once it is older than that, disabled by default
+}
+
+const BINARY_MAGIC = Buffer.from("AKMD1");
+
+/**
+ * The MarketDataRecorder class writes raw frames received by websocket client to files in the directory,
+ * json-rpc responses are not recorded. Files are rotated by size and optionally by age,
+ * recorded files can be read back with readRecording and replayed with MarketDataReplayer
+ * @category Testing
+ */
+export class MarketDataRecorder {
+  private readonly directory: string;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: MarketDataRecorderOptions;
+  private stream?: fs.WriteStream;
+  private fileBytes = 0;
+  private fileOpenedAt = 0;
+  private written: string[] = [];
+  private closing: Promise<void>[] = [];
+  private stopped = false;
+
+  /**
+   * Creates an instance of MarketDataRecorder.
+   * @param directory - directory to write files to, created if it does not exist
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    directory: string,
+    logger?: (arg: string) => void,
+    options: MarketDataRecorderOptions = {},
+  ) {
+    this.directory = directory;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+  }
+
+  /**
+   * Files written so far, from the oldest to the latest
+   */
+  public get files(): string[] {
+    return [...this.written];
+  }
+
+  /**
+   * Starts recording frames received by the websocket client
+   * @param wsClient - websocket client, e.g. LayerAkiraWSSAPI
+   */
+  public attach(wsClient: BaseWssApi) {
+    wsClient.onFrame((frame, receivedAt) => this.record(frame, receivedAt));
+  }
+
+  /**
+   * Writes frame to the current file
+   * @param frame - raw frame
+   * @param time - local time of receipt in milliseconds
+   */
+  public record(frame: string, time: number = Date.now()) {
+    if (this.stopped) return;
+    let json: Record<string, any>;
+    try {
+      json = JSON.parse(frame);
+    } catch (e) {
+      this.logger(`Skipped malformed frame: ${e}`);
+      return;
+    }
+    if (json.id !== undefined) return;
+    const { streams } = this.options;
+    if (streams !== undefined && !streams.includes(json.stream)) return;
+    const record = encodeFrame(
+      { time, data: frame },
+      this.options.format ?? RecordFormat.NDJSON,
+    );
+    this.rotateIfNeeded(time, record.length);
+    this.stream!.write(record);
+    this.fileBytes += record.length;
+  }
+
+  /**
+   * Stops recording and flushes the current file
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    this.closeFile();
+    await Promise.all(this.closing);
+  }
+
+  private rotateIfNeeded(time: number, size: number) {
+    const maxBytes = this.options.maxFileBytes ?? 64 * 1024 * 1024;
+    const maxAge = this.options.rotateIntervalMillis;
+    if (
+      this.stream !== undefined &&
+      this.fileBytes + size <= maxBytes &&
+      (maxAge === undefined || time - this.fileOpenedAt < maxAge)
+    )
+      return;
+    this.closeFile();
+    const format = this.options.format ?? RecordFormat.NDJSON;
+    const name = `${this.options.prefix ?? "market-data"}-${time}-${this.written.length}.${format}`;
+    const file = path.join(this.directory, name);
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.stream = fs.createWriteStream(file);
+    this.stream.on("error", (e) =>
+      this.logger(`Failed to write market data to ${file}: ${e}`),
+    );
+    this.fileBytes = 0;
+    this.fileOpenedAt = time;
+    this.written.push(file);
+    if (format === RecordFormat.BINARY) {
+      this.stream.write(BINARY_MAGIC);
+      this.fileBytes += BINARY_MAGIC.length;
+    }
+    this.logger(`Recording market data to ${file}`);
+  }
+
+  private closeFile() {
+    const stream = this.stream;
+    this.stream = undefined;
+    if (stream !== undefined)
+      this.closing.push(new Promise((resolve) => stream.end(() => resolve())));
+  }
+}
+
+/**
+ * Serializes frame to the record of the format
+ * @param frame - frame to serialize
+ * @param format - format of the file
+ */
+export function encodeFrame(
+  frame: RecordedFrame,
+  format: RecordFormat,
+): Buffer {
+  if (format === RecordFormat.NDJSON)
+    return Buffer.from(JSON.stringify({ t: frame.time, d: frame.data }) + "\n");
+  const data = Buffer.from(frame.data, "utf-8");
+  const header = Buffer.alloc(12);
+  header.writeDoubleBE(frame.time, 0);
+  header.writeUInt32BE(data.length, 8);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Reads frames of the recorded files in order of the files, format is inferred from the extension
+ * @param files - files written by MarketDataRecorder
+ * @returns frames in order they were recorded
+ */
+export async function* readRecording(
+  files: string[],
+): AsyncGenerator<RecordedFrame, void, undefined> {
+  for (const file of files) {
+    if (file.endsWith(`.${RecordFormat.BINARY}`)) {
+      yield* readBinary(await fs.promises.readFile(file), file);
+      continue;
+    }
+    const lines = readline.createInterface({
+      input: fs.createReadStream(file),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      if (line.trim() === "") continue;
+      const { t, d } = JSON.parse(line);
+      yield { time: t, data: d };
+    }
+  }
+}
+
+function* readBinary(buffer: Buffer, file: string): Generator<RecordedFrame> {
+  if (!buffer.subarray(0, BINARY_MAGIC.length).equals(BINARY_MAGIC))
+    throw new Error(`${file} is not a binary market data recording`);
+  let offset = BINARY_MAGIC.length;
+  // last record might be truncated if process was killed while writing
+  while (offset + 12 <= buffer.length) {
+    const time = buffer.readDoubleBE(offset);
+    const length = buffer.readUInt32BE(offset + 8);
+    if (offset + 12 + length > buffer.length) return;
+    const data = buffer.toString("utf-8", offset + 12, offset + 12 + length);
+    offset += 12 + length;
+    yield { time, data };
+  }
+}
@@ -0,0 +1,165 @@
+import { BaseWssApi } from "../api/websocket/BaseWssApi";
+import { internalErrorResult } from "../api/errors";
+import { Result } from "../response_types";
+import { readRecording, RecordedFrame } from "./MarketDataRecorder";
+
+/**
+ * Represents optional parameters of the MarketDataReplayer
+ */
+export interface MarketDataReplayerOptions {
+  speed?: number; // 1 replays at real speed, 10 ten times faster, Infinity without delays, 1 by default
+  maxDelayMillis?: number; // longer gaps between frames are shortened to that, e.g. to skip outages, not limited by default
+}
+
+/**
+ * The MarketDataReplayer class feeds recorded frames back into the websocket client, e.g. LayerAkiraWSSAPI,
+ * so its subscribers and components built on top of it like DepthBook receive them as if they came from exchange.
+ * Client is switched to replay mode on creation, so subscriptions succeed without connection.
+ * Frames are replayed with recorded delays scaled by speed, or stepwise
+ * Notes:
+ *    DepthBook still requests snapshots via its http client
+ * @category Testing
+ */
+export class MarketDataReplayer {
+  private readonly wsClient: BaseWssApi;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: MarketDataReplayerOptions;
+  private frames: RecordedFrame[] = [];
+  private position = 0;
+  private running = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private wakeUp?: () => void;
+
+  /**
+   * Creates an instance of MarketDataReplayer.
+   * @param wsClient - websocket client to feed frames into
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    wsClient: BaseWssApi,
+    logger?: (arg: string) => void,
+    options: MarketDataReplayerOptions = {},
+  ) {
+    this.wsClient = wsClient;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+    wsClient.startReplay();
+  }
+
+  /**
+   * Number of frames fed so far
+   */
+  public get replayed(): number {
+    return this.position;
+  }
+
+  /**
+   * Number of frames left to feed
+   */
+  public get remaining(): number {
+    return this.frames.length - this.position;
+  }
+
+  /**
+   * Recorded time of the last fed frame in milliseconds, undefined if nothing was fed
+   */
+  public get time(): number | undefined {
+    return this.frames[this.position - 1]?.time;
+  }
+
+  /**
+   * Loads frames of the recorded files, they are replayed after already loaded ones
+   * @param files - files written by MarketDataRecorder, from the oldest to the latest
+   * @returns number of loaded frames
+   */
+  public async load(files: string[]): Promise<Result<number>> {
+    const frames: RecordedFrame[] = [];
+    try {
+      for await (const frame of readRecording(files)) frames.push(frame);
+    } catch (e) {
+      this.logger(`Failed to load market data: ${e}`);
+      return internalErrorResult(e);
+    }
+    this.addFrames(frames);
+    return { result: frames.length };
+  }
+
+  /**
+   * Adds frames to replay after already loaded ones
+   * @param frames - frames in order they were recorded
+   */
+  public addFrames(frames: RecordedFrame[]) {
+    this.frames.push(...frames);
+  }
+
+  /**
+   * Feeds remaining frames keeping recorded delays between them scaled by speed
+   * @returns once all frames are fed or replay is paused
+   */
+  public async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    const speed = this.options.speed ?? 1;
+    const maxDelay = this.options.maxDelayMillis ?? Infinity;
+    while (this.running && this.remaining > 0) {
+      const prev = this.time;
+      const next = this.frames[this.position].time;
+      if (prev !== undefined && speed !== Infinity) {
+        const delay = Math.min(Math.max(next - prev, 0), maxDelay) / speed;
+        if (delay > 0)
+          await new Promise<void>((resolve) => {
+            this.wakeUp = resolve;
+            this.timer = setTimeout(resolve, delay);
+          });
+        if (!this.running) break;
+      }
+      await this.feed();
+    }
+    this.running = false;
+  }
+
+  /**
+   * Stops run after the frame being fed, it can be resumed with run or step
+   */
+  public pause() {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.wakeUp?.();
+  }
+
+  /**
+   * Feeds next frames immediately
+   * @param count - number of frames to feed
+   * @returns number of fed frames, less than count if recording ended
+   */
+  public async step(count: number = 1): Promise<number> {
+    let fed = 0;
+    while (fed < count && this.remaining > 0) {
+      await this.feed();
+      fed += 1;
+    }
+    return fed;
+  }
+
+  /**
+   * Rewinds to the first frame, state built by subscribers from already fed frames is not reset
+   */
+  public rewind() {
+    this.pause();
+    this.position = 0;
+  }
+
+  private async feed() {
+    const frame = this.frames[this.position];
+    this.position += 1;
+    try {
+      await this.wsClient.handleFrame(frame.data);
+    } catch (e) {
+      this.logger(`Failed to replay frame recorded at ${frame.time}: ${e}`);
+    }
+  }
+}
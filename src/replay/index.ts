@@ -0,0 +1,3 @@
+export * from "./MarketDataRecorder";
+export * from "./MarketDataReplayer";
+export * from "./HttpFixtures";
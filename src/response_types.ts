@@ -1,6 +1,7 @@
 import { ERC20Token, OrderStatus, TradedPair } from "./request_types";
 import { Address } from "./types";
 import { ExchangeTicker } from "./api";
+import { ErrorReason } from "./api/errors";
 
 /**
  * Represents the result of an operation.
@@ -10,6 +11,9 @@ export interface Result<T> {
   code?: number; // The status code of the operation, might be omitted in case of successful operation
   error?: string; // The error message, if any, human-readable
   exception?: Error; // The exception, if any
+  reason?: ErrorReason; // The category of the failure, if operation failed
+  exchangeCode?: string; // The business error code parsed from response of the exchange
+  retryAfterMillis?: number; // How long to wait before retry, if exchange specified it
 }
 
 /**
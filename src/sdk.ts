@@ -4,6 +4,10 @@ import { ERC20Token, ERCToDecimalsMap, TokenAddressMap } from "./request_types";
 import { LayerAkiraContract } from "./api/contract/LayerAkiraContract";
 import { RpcProvider } from "starknet";
 import { LayerAkiraUIQuoter } from "./api/http/UIQuoter";
+import { RetryConfiguration } from "./api/http/RetryPolicy";
+import { RateLimiterConfiguration } from "./api/http/RateLimiter";
+import { CircuitBreakerConfiguration } from "./api/http/CircuitBreaker";
+import { HttpInterceptor, HttpTransport } from "./api/http/HttpTransport";
 
 /**
  * Interface representing the configuration for the LayerAkira SDK.
@@ -23,6 +27,12 @@ export interface SDKConfiguration {
   logger?: (arg: string) => void;
   timeoutMillis?: number;
   apiUIQuoter?: string;
+  restoreSubscriptions?: boolean; // whether websocket client should restore subscriptions after reconnection
+  retry?: RetryConfiguration; // retry policies of http clients
+  rateLimit?: RateLimiterConfiguration; // client side rate limit of http clients
+  circuitBreaker?: CircuitBreakerConfiguration; // circuit breaker of http clients, disabled if not specified
+  transport?: HttpTransport; // transport of http clients, by default via ethers FetchRequest
+  interceptors?: HttpInterceptor[]; // hooks applied to every request of http clients
 }
 
 /**
@@ -51,12 +61,15 @@ export class LayerAkiraSDK {
       config.baseFeeToken,
       config.logger,
       config.timeoutMillis,
+      config,
     );
     this.akiraWss = new LayerAkiraWSSAPI(
       config.wssPath,
       this.akiraHttp,
       true,
       config.logger,
+      undefined,
+      config.restoreSubscriptions,
     );
     this.akiraContract = new LayerAkiraContract(
       config.coreAddress,
@@ -70,6 +83,7 @@ export class LayerAkiraSDK {
       config.baseFeeToken,
       config.logger,
       config.timeoutMillis,
+      config,
     );
   }
 }
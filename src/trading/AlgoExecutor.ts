@@ -0,0 +1,564 @@
+import { LayerAkiraHttpAPI } from "../api/http/LayerAkiraHttpAPI";
+import { ErrorReason } from "../api/errors";
+import { IndexerAPI } from "../api/indexer/Indexer";
+import { DbKline } from "../api/indexer/types";
+import { OrderTracker, TrackedOrder } from "../api/websocket/OrderTracker";
+import {
+  OrderSide,
+  OrderStatus,
+  Order,
+  TraderSignature,
+} from "../request_types";
+import {
+  MatchingEngineResult,
+  Result,
+  TickerSpecification,
+} from "../response_types";
+import { OrderConstructor } from "../utils/OrderConstructor";
+import { signAndPlaceOrder } from "./utils";
+
+const DAY_MILLIS = 24 * 60 * 60 * 1000;
+const TERMINAL_STATUSES = [
+  OrderStatus.FILLED,
+  OrderStatus.CLOSED,
+  OrderStatus.CANCELLED,
+  OrderStatus.EXPIRED,
+  OrderStatus.NOT_PROCESSED,
+];
+const RETRIABLE_RESULTS = [
+  MatchingEngineResult.SLIPPAGE,
+  MatchingEngineResult.NOT_ENOUGH_LIQUIDITY,
+];
+
+/**
+ * Represents lifecycle of the algorithmic execution
+ */
+export enum AlgoStatus {
+  PENDING = "pending", // not started yet
+  RUNNING = "running",
+  COMPLETED = "completed", // parent quantity is filled
+  EXPIRED = "expired", // schedule is over but part of parent quantity is not filled
+  CANCELLED = "cancelled",
+  FAILED = "failed", // too many consecutive child orders failed
+}
+
+/**
+ * Represents child order of the algorithmic execution
+ */
+export interface AlgoSlice {
+  index: number; // index of the slice in the schedule
+  scheduledAt: number; // local time the slice was due
+  baseQty: bigint; // requested quantity of the child order in base asset
+  orderHash?: string; // hash of the child order, undefined if it was not placed
+  status?: OrderStatus; // final status of the child order
+  filledBase: bigint;
+  filledQuote: bigint;
+  matcherResult?: MatchingEngineResult;
+  error?: string; // reason the child order was not placed or not tracked
+}
+
+/**
+ * Represents progress of the algorithmic execution
+ */
+export interface AlgoProgress {
+  status: AlgoStatus;
+  targetBase: bigint; // parent quantity in base asset
+  filledBase: bigint;
+  filledQuote: bigint;
+  remainingBase: bigint;
+  averagePrice: bigint; // achieved average price, 0 if nothing filled
+  slices: AlgoSlice[];
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+/**
+ * Represents parameters of the algorithmic execution
+ */
+export interface AlgoParams {
+  spec: TickerSpecification; // ticker and increments child orders are rounded to
+  side: OrderSide;
+  baseQty: bigint; // parent quantity in base asset
+  limitPrice: bigint; // worst price child orders may be filled at, used as protection price of market child orders
+  durationMillis: number; // time over which parent quantity is spread
+  slices: number; // number of child orders in the schedule
+  baseAsset?: bigint; // raw amount of the base asset representing 1 unit, 10^18 by default
+  numberOfSwapsAllowed?: number; // max number of trades of child order, 10 by default
+  maxConsecutiveFailures?: number; // execution fails after that many child orders in a row filled nothing, 3 by default
+  fillTimeoutMillis?: number; // how long to wait for child order to finish, 30000 by default
+  durationValid?: number; // validity of child orders in seconds
+}
+
+/**
+ * Splits quantity into cumulative targets according to weights of the slices,
+ * so shortfall of one slice is carried over to the next one
+ * @param baseQty - quantity to split
+ * @param weights - non negative weights of the slices
+ * @returns cumulative quantity that should be filled by the end of every slice
+ */
+export function getCumulativeTargets(
+  baseQty: bigint,
+  weights: number[],
+): bigint[] {
+  const positive = weights.map((w) => Math.max(w, 0));
+  const total = positive.reduce((acc, w) => acc + w, 0);
+  const scale = 1_000_000_000n;
+  let acc = 0;
+  return positive.map((w, i) => {
+    acc += total > 0 ? w : 1;
+    if (i == weights.length - 1) return baseQty;
+    const share = acc / (total > 0 ? total : weights.length);
+    return (baseQty * BigInt(Math.floor(share * 1e9))) / scale;
+  });
+}
+
+/**
+ * Builds volume profile for the schedule from historical klines.
+ * Weight of the slice is the average volume of klines covering the same time of day as the slice
+ * @param klines - historical klines, e.g. for the past days
+ * @param startMillis - start time of the schedule
+ * @param durationMillis - duration of the schedule
+ * @param slices - number of slices
+ * @returns weights of the slices, uniform if klines do not cover the time of day of any slice
+ */
+export function getVolumeProfile(
+  klines: DbKline[],
+  startMillis: number,
+  durationMillis: number,
+  slices: number,
+): number[] {
+  const interval = durationMillis / slices;
+  const timeOfDay = (t: number) => ((t % DAY_MILLIS) + DAY_MILLIS) % DAY_MILLIS;
+  const weights = Array.from({ length: slices }, (_, i) => {
+    const at = timeOfDay(startMillis + i * interval + interval / 2);
+    const volumes = klines
+      .filter((k) => {
+        const from = timeOfDay(k.start_time);
+        const to = from + (k.time - k.start_time);
+        return (
+          (from <= at && at < to) ||
+          (from <= at + DAY_MILLIS && at + DAY_MILLIS < to)
+        );
+      })
+      .map((k) => Number(k.volume));
+    return volumes.length > 0
+      ? volumes.reduce((acc, v) => acc + v, 0) / volumes.length
+      : 0;
+  });
+  if (weights.every((w) => w <= 0)) return weights.map(() => 1);
+  return weights;
+}
+
+/**
+ * The AlgoExecutor class is the base of executors that spread parent quantity over time by child market orders with protection price,
+ * built via OrderConstructor, signed via signer callback and placed via http client.
+ * Fills of child orders are tracked via OrderTracker which should be running.
+ * Child quantity is derived from cumulative target of the schedule, so partially filled or failed child orders,
+ * e.g. due to SLIPPAGE or NOT_ENOUGH_LIQUIDITY, are caught up by subsequent ones.
+ * Fills of child orders that did not finish within fill timeout are still counted once they arrive.
+ * Quantities and prices are rounded to increments of the ticker specification,
+ * slices below minimal quantity are merged into subsequent ones
+ * @category Main Classes
+ */
+export abstract class AlgoExecutor {
+  /**
+   * Http client connection.
+   */
+  protected httpClient: LayerAkiraHttpAPI;
+  private tracker: OrderTracker;
+  private orderConstructor: OrderConstructor;
+  private sign: (order: Order) => Promise<TraderSignature>;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  protected readonly params: AlgoParams;
+  private progress: AlgoProgress;
+  private listeners: Array<(progress: AlgoProgress) => void> = [];
+  private finished: Promise<AlgoProgress> | undefined;
+  private wakeUp: (() => void) | undefined;
+  private liveSlices: Map<string, AlgoSlice> = new Map();
+
+  /**
+   * Creates an instance of AlgoExecutor.
+   * @param httpClient - Http client instance with credentials set
+   * @param tracker - running tracker of orders of the trading account
+   * @param orderConstructor - constructor of orders of the trading account
+   * @param sign - signs order on behalf of trading account, should throw on failure
+   * @param params - parameters of the execution
+   * @param logger - Logger function.
+   */
+  constructor(
+    httpClient: LayerAkiraHttpAPI,
+    tracker: OrderTracker,
+    orderConstructor: OrderConstructor,
+    sign: (order: Order) => Promise<TraderSignature>,
+    params: AlgoParams,
+    logger?: (arg: string) => void,
+  ) {
+    this.httpClient = httpClient;
+    this.tracker = tracker;
+    this.orderConstructor = orderConstructor;
+    this.sign = sign;
+    this.params = params;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.progress = {
+      status: AlgoStatus.PENDING,
+      targetBase: params.baseQty,
+      filledBase: 0n,
+      filledQuote: 0n,
+      remainingBase: params.baseQty,
+      averagePrice: 0n,
+      slices: [],
+    };
+  }
+
+  /**
+   * Starts execution in background
+   * @returns error if parameters are invalid or schedule can't be built
+   */
+  public async start(): Promise<Result<"OK">> {
+    if (this.progress.status !== AlgoStatus.PENDING)
+      return {
+        error: "Execution already started",
+        reason: ErrorReason.VALIDATION,
+      };
+    const { baseQty, slices, durationMillis, limitPrice } = this.params;
+    if (baseQty <= 0n || slices <= 0 || durationMillis < 0 || limitPrice <= 0n)
+      return {
+        error: "Quantity, slices, duration and limit price must be positive",
+        reason: ErrorReason.VALIDATION,
+      };
+    const startedAt = Date.now();
+    const weights = await this.getWeights(startedAt);
+    if (weights.result === undefined) return { ...weights, result: undefined };
+    this.update({ status: AlgoStatus.RUNNING, startedAt });
+    this.tracker.onUpdate((order) => this.onChildUpdate(order));
+    this.finished = this.execute(
+      startedAt,
+      getCumulativeTargets(baseQty, weights.result),
+    );
+    return { result: "OK" };
+  }
+
+  /**
+   * Stops execution, child order that is already placed is not cancelled
+   */
+  public cancel() {
+    if (this.progress.status !== AlgoStatus.RUNNING) return;
+    this.update({ status: AlgoStatus.CANCELLED });
+    this.wakeUp?.();
+  }
+
+  /**
+   * Waits until execution finishes
+   * @returns final progress
+   */
+  public async wait(): Promise<AlgoProgress> {
+    return this.finished ?? this.getProgress();
+  }
+
+  /**
+   * @returns current progress of the execution
+   */
+  public getProgress(): AlgoProgress {
+    return {
+      ...this.progress,
+      slices: this.progress.slices.map((s) => ({ ...s })),
+    };
+  }
+
+  /**
+   * Registers listener that is notified on every change of the progress
+   * @param listener - callback to invoke
+   */
+  public onProgress(listener: (progress: AlgoProgress) => void) {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Returns weights of the slices of the schedule
+   * @param startMillis - start time of the schedule
+   */
+  protected abstract getWeights(startMillis: number): Promise<Result<number[]>>;
+
+  private async execute(
+    startedAt: number,
+    targets: bigint[],
+  ): Promise<AlgoProgress> {
+    const interval = this.params.durationMillis / this.params.slices;
+    const maxFailures = this.params.maxConsecutiveFailures ?? 3;
+    let failures = 0;
+    for (let i = 0; i < targets.length; i++) {
+      const scheduledAt = startedAt + i * interval;
+      await this.delay(scheduledAt - Date.now());
+      if (this.progress.status !== AlgoStatus.RUNNING) break;
+
+      const isLast = i == targets.length - 1;
+      const baseQty = this.roundQty(targets[i] - this.progress.filledBase);
+      if (baseQty < this.params.spec.rawMinQuoteQty || baseQty <= 0n) {
+        if (!isLast) continue;
+        break;
+      }
+      const slice = await this.executeSlice(i, scheduledAt, baseQty);
+      failures = slice.filledBase > 0n ? 0 : failures + 1;
+      if (failures >= maxFailures) {
+        this.update({
+          status: AlgoStatus.FAILED,
+          error: `${failures} child orders in a row filled nothing, last: ${slice.error ?? slice.matcherResult}`,
+        });
+        break;
+      }
+    }
+    if (this.progress.status === AlgoStatus.RUNNING)
+      this.update({
+        status:
+          this.progress.remainingBase < this.params.spec.rawMinQuoteQty ||
+          this.roundQty(this.progress.remainingBase) == 0n
+            ? AlgoStatus.COMPLETED
+            : AlgoStatus.EXPIRED,
+      });
+    this.update({ finishedAt: Date.now() });
+    return this.getProgress();
+  }
+
+  private async executeSlice(
+    index: number,
+    scheduledAt: number,
+    baseQty: bigint,
+  ): Promise<AlgoSlice> {
+    const slice: AlgoSlice = {
+      index,
+      scheduledAt,
+      baseQty,
+      filledBase: 0n,
+      filledQuote: 0n,
+    };
+    const settle = (patch: Partial<AlgoSlice>) =>
+      this.settleSlice(slice, patch);
+    settle({});
+
+    const gas = await this.httpClient.queryGasPrice();
+    if (gas.result === undefined) return settle({ error: gas.error });
+    const order = this.orderConstructor.buildOrder(
+      this.params.spec.ticker,
+      this.getProtectionPrice(),
+      {
+        base_qty: baseQty,
+        quote_qty: 0n,
+        base_asset: this.params.baseAsset ?? 10n ** 18n,
+      },
+      this.params.numberOfSwapsAllowed ?? 10,
+      this.params.side,
+      gas.result,
+      false,
+      true,
+      true,
+      false,
+      false,
+      false,
+      0n,
+      this.params.durationValid,
+    );
+    const placed = await signAndPlaceOrder(this.httpClient, order, this.sign);
+    if (placed.result === undefined) {
+      this.logger(`Failed to place child order ${index}: ${placed.error}`);
+      return settle({ error: placed.error });
+    }
+    settle({ orderHash: placed.result });
+    this.liveSlices.set(placed.result, slice);
+
+    const res = await this.tracker.waitFor(
+      placed.result,
+      TERMINAL_STATUSES,
+      this.params.fillTimeoutMillis ?? 30_000,
+    );
+    const tracked = res.result ?? this.tracker.getOrder(placed.result);
+    if (tracked === undefined) {
+      this.logger(
+        `Child order ${index} is not tracked yet, its fills are counted once reported`,
+      );
+      return settle({ error: res.error });
+    }
+    this.countFills(slice, tracked);
+    if (TERMINAL_STATUSES.includes(tracked.status))
+      this.liveSlices.delete(placed.result);
+    else
+      this.logger(
+        `Child order ${index} is still ${tracked.status}, its late fills are counted once reported`,
+      );
+    if (
+      tracked.matcherResult !== undefined &&
+      RETRIABLE_RESULTS.includes(tracked.matcherResult)
+    )
+      this.logger(
+        `Child order ${index} hit ${tracked.matcherResult}, shortfall is carried over`,
+      );
+    return settle({
+      status: tracked.status,
+      matcherResult: tracked.matcherResult,
+      error: res.error,
+    });
+  }
+
+  private onChildUpdate(order: TrackedOrder) {
+    const slice = this.liveSlices.get(order.hash);
+    if (slice === undefined) return;
+    this.countFills(slice, order);
+    if (!TERMINAL_STATUSES.includes(order.status)) return;
+    this.liveSlices.delete(order.hash);
+    this.settleSlice(slice, {
+      status: order.status,
+      matcherResult: order.matcherResult,
+    });
+  }
+
+  /**
+   * Adds fills of the child order that were not counted yet, safe to call several times with the same state
+   */
+  private countFills(slice: AlgoSlice, order: TrackedOrder) {
+    const base = order.accBaseQty - slice.filledBase;
+    const quote = order.accQuoteQty - slice.filledQuote;
+    if (base <= 0n) return;
+    this.update({
+      filledBase: this.progress.filledBase + base,
+      filledQuote: this.progress.filledQuote + quote,
+    });
+    this.settleSlice(slice, {
+      filledBase: order.accBaseQty,
+      filledQuote: order.accQuoteQty,
+    });
+  }
+
+  private settleSlice(slice: AlgoSlice, patch: Partial<AlgoSlice>) {
+    Object.assign(slice, patch);
+    // late fills of earlier slices keep their position
+    const slices = this.progress.slices.includes(slice)
+      ? [...this.progress.slices]
+      : [...this.progress.slices, slice];
+    this.update({ slices });
+    return slice;
+  }
+
+  private getProtectionPrice(): bigint {
+    const step = this.params.spec.rawPriceIncrement;
+    const price = this.params.limitPrice;
+    if (step <= 0n) return price;
+    // rounded towards better price so limit is never exceeded
+    return this.params.side === OrderSide.BUY
+      ? price - (price % step)
+      : price + ((step - (price % step)) % step);
+  }
+
+  private roundQty(qty: bigint): bigint {
+    const step = this.params.spec.rawQuoteQtyIncrement;
+    if (qty <= 0n) return 0n;
+    return step > 0n ? qty - (qty % step) : qty;
+  }
+
+  private delay(ms: number): Promise<void> {
+    if (ms <= 0) return Promise.resolve();
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  private update(patch: Partial<AlgoProgress>) {
+    const progress = { ...this.progress, ...patch };
+    progress.remainingBase = progress.targetBase - progress.filledBase;
+    progress.averagePrice =
+      progress.filledBase > 0n
+        ? (progress.filledQuote * (this.params.baseAsset ?? 10n ** 18n)) /
+          progress.filledBase
+        : 0n;
+    this.progress = progress;
+    const snapshot = this.getProgress();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(snapshot);
+      } catch (e) {
+        this.logger(`Error in progress listener: ${e}`);
+      }
+    });
+  }
+}
+
+/**
+ * The TwapExecutor class spreads parent quantity evenly over time
+ * @category Main Classes
+ */
+export class TwapExecutor extends AlgoExecutor {
+  protected async getWeights(): Promise<Result<number[]>> {
+    return { result: Array.from({ length: this.params.slices }, () => 1) };
+  }
+}
+
+/**
+ * The VwapExecutor class spreads parent quantity proportionally to the historical volume profile of the ticker,
+ * the profile is built from klines of the indexer for the past days
+ * @category Main Classes
+ */
+export class VwapExecutor extends AlgoExecutor {
+  private indexer: IndexerAPI;
+  private readonly klineDuration: string;
+  private readonly lookbackKlines: number;
+
+  /**
+   * Creates an instance of VwapExecutor.
+   * @param httpClient - Http client instance with credentials set
+   * @param tracker - running tracker of orders of the trading account
+   * @param orderConstructor - constructor of orders of the trading account
+   * @param sign - signs order on behalf of trading account, should throw on failure
+   * @param params - parameters of the execution
+   * @param indexer - indexer api that provides klines
+   * @param klineDuration - duration of klines of the profile, e.g. 1h
+   * @param lookbackKlines - number of the latest klines the profile is built from, a week of hourly klines by default
+   * @param logger - Logger function.
+   */
+  constructor(
+    httpClient: LayerAkiraHttpAPI,
+    tracker: OrderTracker,
+    orderConstructor: OrderConstructor,
+    sign: (order: Order) => Promise<TraderSignature>,
+    params: AlgoParams,
+    indexer: IndexerAPI,
+    klineDuration: string = "1h",
+    lookbackKlines: number = 7 * 24,
+    logger?: (arg: string) => void,
+  ) {
+    super(httpClient, tracker, orderConstructor, sign, params, logger);
+    this.indexer = indexer;
+    this.klineDuration = klineDuration;
+    this.lookbackKlines = lookbackKlines;
+  }
+
+  protected async getWeights(startMillis: number): Promise<Result<number[]>> {
+    const { pair, isEcosystemBook } = this.params.spec.ticker;
+    const klines: DbKline[] = [];
+    let cursor: string | null = null;
+    do {
+      const res = await this.indexer.getKlineByTicker({
+        pair: { ...pair, is_ecosystem_book: isEcosystemBook },
+        duration: this.klineDuration,
+        cursor,
+        num: String(Math.min(this.lookbackKlines - klines.length, 1000)),
+      });
+      if (res.result === undefined) return { ...res, result: undefined };
+      klines.push(...res.result.data);
+      cursor = res.result.data.length > 0 ? res.result.cursor : null;
+    } while (cursor !== null && klines.length < this.lookbackKlines);
+    return {
+      result: getVolumeProfile(
+        klines,
+        startMillis,
+        this.params.durationMillis,
+        this.params.slices,
+      ),
+    };
+  }
+}
@@ -0,0 +1,800 @@
+import { IndexerAPI } from "../api/indexer/Indexer";
+import { DbTrade } from "../api/indexer/types";
+import { collect, PaginationOptions } from "../api/indexer/pagination";
+import { ErrorReason } from "../api/errors";
+import { ILayerAkiraWSSAPI } from "../api/websocket/LayerAkiraWSSAPI";
+import {
+  ExchangeTicker,
+  ReconnectedEvent,
+  SocketEvent,
+} from "../api/websocket/types";
+import { getPairKey } from "../api/websocket/utils";
+import { NULL_ADDRESS } from "../constants";
+import {
+  ERC20Token,
+  ERCToDecimalsMap,
+  GasFee,
+  OrderStatus,
+} from "../request_types";
+import {
+  BBO,
+  CancelAllReport,
+  ExecutionReport,
+  FillTransactionInfo,
+  MatchingEngineResult,
+  Result,
+  Table,
+  TableLevel,
+  TableUpdate,
+  Trade,
+} from "../response_types";
+import { Address } from "../types";
+import { calcFixedSwapFee, calcSingleTradeGasFee } from "../utils/swap";
+import { TickerFeeMap } from "../utils/TickerFeeMap";
+import { dbTradeToTrade } from "./utils";
+
+/**
+ * Represents order placed by strategy during backtest
+ */
+export interface BacktestOrder {
+  ticker: ExchangeTicker;
+  isSellSide: boolean;
+  baseQty: bigint; // raw amount of base token
+  price?: bigint; // limit price per base asset in quote token, market order if omitted
+  postOnly?: boolean; // order is rejected instead of taking liquidity
+}
+
+/**
+ * Represents simulated fill of the order
+ */
+export interface BacktestFill {
+  time: number; // in milliseconds, time of the replayed event
+  hash: string; // hash of the filled order
+  ticker: ExchangeTicker;
+  isSellSide: boolean;
+  isMaker: boolean;
+  price: bigint;
+  baseQty: bigint;
+  quoteQty: bigint;
+  fee: bigint; // exchange fee in received token
+  feeToken: ERC20Token;
+  gas: bigint; // 0 if gas fee is not configured
+  gasToken?: ERC20Token;
+}
+
+/**
+ * Represents point of the equity curve
+ */
+export interface EquityPoint {
+  time: number; // in milliseconds
+  equity: bigint; // value of balances in valuation token
+}
+
+/**
+ * Represents summary of the backtest
+ */
+export interface BacktestStats {
+  fills: number;
+  makerFills: number;
+  takerFills: number;
+  volume: bigint; // traded volume in valuation token
+  fees: Partial<Record<ERC20Token, bigint>>; // exchange fees paid per token
+  gas: Partial<Record<ERC20Token, bigint>>; // gas paid per token
+  startEquity: bigint;
+  endEquity: bigint;
+  pnl: bigint; // end equity minus start equity
+  returnBips: number; // pnl in basis points of start equity, 0 if start equity is 0
+  maxDrawdownBips: number; // largest drop of equity from its peak in basis points of the peak
+}
+
+/**
+ * Represents outcome of the backtest
+ */
+export interface BacktestResult {
+  fills: BacktestFill[];
+  equity: EquityPoint[];
+  stats: BacktestStats;
+  balances: Partial<Record<ERC20Token, bigint>>; // balances after the backtest
+}
+
+/**
+ * Represents optional parameters of the Backtester
+ */
+export interface BacktesterOptions {
+  valuationToken?: ERC20Token; // token equity is measured in, quote token of the earliest replayed ticker by default
+  equityIntervalMillis?: number; // how often equity curve is sampled in replayed time, 60000 by default
+  gasFee?: GasFee; // gas charged for every fill, gas is not charged if omitted
+  gasPrice?: bigint; // actual gas price, max_gas_price of gasFee by default
+  client?: Address; // reported as client in execution reports, zero address by default
+}
+
+interface ReplayEvent {
+  ticker: ExchangeTicker;
+  time: number;
+  trade?: Trade;
+  update?: TableUpdate<bigint>;
+}
+
+interface SimOrder {
+  hash: string;
+  ticker: ExchangeTicker;
+  isSellSide: boolean;
+  baseQty: bigint;
+  price?: bigint;
+  filledBase: bigint;
+  filledQuote: bigint;
+  queueAhead: bigint; // volume of the book resting before the order at its price
+  seq: number;
+}
+
+interface SimBook {
+  bids: Map<bigint, TableLevel>;
+  asks: Map<bigint, TableLevel>;
+}
+
+type MarketDataListener = (
+  evt: TableUpdate<bigint | string> | BBO | Trade | SocketEvent.DISCONNECT,
+) => Promise<void>;
+
+type ExecReportListener = (
+  evt:
+    | FillTransactionInfo
+    | CancelAllReport
+    | ExecutionReport
+    | SocketEvent.DISCONNECT,
+) => Promise<void>;
+
+/**
+ * The Backtester class replays historical trades and recorded book updates through the same callback interfaces
+ * as LayerAkiraWSSAPI, so strategy code subscribes to it instead of the exchange and places orders via placeOrder.
+ * Resting orders are filled by replayed trades once the volume queued before them at their price is traded,
+ * orders crossing the book take its liquidity. Maker and taker fees are charged in received token,
+ * gas is charged for every fill. Result contains fills log, equity curve and stats.
+ * Notes:
+ *    Replayed events are not affected by simulated orders, i.e. there is no market impact
+ *    Tokens are valued by last price of the ticker quoted in valuation token, tokens without such ticker are not valued
+ *    Balances are not locked by resting orders, only order itself is checked against balance
+ * @category Testing
+ */
+export class Backtester implements ILayerAkiraWSSAPI {
+  private indexer?: IndexerAPI;
+  private readonly erc20ToDecimals: ERCToDecimalsMap;
+  private readonly fees: TickerFeeMap;
+  private balances: Map<ERC20Token, bigint>;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: BacktesterOptions;
+
+  private events: ReplayEvent[] = [];
+  private books: Map<string, SimBook> = new Map();
+  private orders: Map<string, SimOrder> = new Map();
+  private marketListeners: Map<string, MarketDataListener[]> = new Map();
+  private execListeners: ExecReportListener[] = [];
+  private prices: Map<ERC20Token, bigint> = new Map();
+  private fills: BacktestFill[] = [];
+  private equity: EquityPoint[] = [];
+  private valuationToken?: ERC20Token;
+  private volume = 0n;
+  private feesPaid: Partial<Record<ERC20Token, bigint>> = {};
+  private gasPaid: Partial<Record<ERC20Token, bigint>> = {};
+  private seq = 0;
+  private finished = false;
+  private now = 0;
+
+  /**
+   * Creates an instance of Backtester.
+   * @param indexer - indexer to load historical trades from, optional if events are added manually
+   * @param erc20ToDecimals - decimals of the tokens
+   * @param fees - maker and taker fees of tickers in percentage basis points
+   * @param balances - balances at the start of the backtest
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    indexer: IndexerAPI | undefined,
+    erc20ToDecimals: ERCToDecimalsMap,
+    fees: TickerFeeMap,
+    balances: Partial<Record<ERC20Token, bigint>>,
+    logger?: (arg: string) => void,
+    options: BacktesterOptions = {},
+  ) {
+    this.indexer = indexer;
+    this.erc20ToDecimals = erc20ToDecimals;
+    this.fees = fees;
+    this.balances = new Map(
+      Object.entries(balances).map(([token, v]) => [token, v ?? 0n]),
+    );
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+  }
+
+  /**
+   * Replayed time in milliseconds
+   */
+  public get time(): number {
+    return this.now;
+  }
+
+  /**
+   * Adds trades of the ticker to replay
+   * @param ticker - ticker of the trades
+   * @param trades - trades in the format of the websocket stream
+   */
+  public addTrades(ticker: ExchangeTicker, trades: Trade[]) {
+    trades.forEach((trade) =>
+      this.events.push({ ticker, time: trade.time, trade }),
+    );
+  }
+
+  /**
+   * Adds recorded book updates of the ticker to replay, volumes of levels replace previous ones
+   * @param ticker - ticker of the updates
+   * @param updates - updates in the format of the websocket stream
+   */
+  public addBookUpdates(
+    ticker: ExchangeTicker,
+    updates: TableUpdate<bigint>[],
+  ) {
+    updates.forEach((update) =>
+      this.events.push({ ticker, time: update.time, update }),
+    );
+  }
+
+  /**
+   * Loads historical trades of the ticker from the indexer, failed trades are skipped
+   * @param ticker - ticker of the trades
+   * @param timeOf - time of the trade in milliseconds, indexer reports only block of the trade
+   * @param options - page size, stop predicate and retry policy of the iteration
+   * @returns number of loaded trades
+   */
+  public async loadTrades(
+    ticker: ExchangeTicker,
+    timeOf: (trade: DbTrade) => number,
+    options: PaginationOptions<DbTrade> = {},
+  ): Promise<Result<number>> {
+    if (this.indexer === undefined)
+      return { error: "Indexer is not set", reason: ErrorReason.VALIDATION };
+    const { pair, isEcosystemBook } = ticker;
+    const res = await collect(
+      this.indexer.iterateTradesByTicker(
+        {
+          pair: {
+            base: pair.base,
+            quote: pair.quote,
+            is_ecosystem_book: isEcosystemBook,
+          },
+        },
+        options,
+      ),
+    );
+    if (res.result === undefined) return { ...res, result: undefined };
+    const decimals = this.erc20ToDecimals[pair.base];
+    const trades = res.result
+      .filter((t) => !t.is_failed)
+      .map((t) => dbTradeToTrade(t, decimals, timeOf(t)));
+    this.addTrades(ticker, trades);
+    return { result: trades.length };
+  }
+
+  /**
+   * Replays added events in time order, book updates go before trades of the same time.
+   * Backtester can be run only once
+   * @returns fills log, equity curve and stats
+   */
+  public async run(): Promise<Result<BacktestResult>> {
+    if (this.finished)
+      return {
+        error: "Backtest already finished",
+        reason: ErrorReason.VALIDATION,
+      };
+    this.finished = true;
+    const events = [...this.events].sort(
+      (a, b) =>
+        a.time - b.time ||
+        Number(b.update !== undefined) - Number(a.update !== undefined),
+    );
+    this.events = [];
+    if (events.length === 0)
+      return { error: "Nothing to replay", reason: ErrorReason.VALIDATION };
+    this.valuationToken =
+      this.options.valuationToken ?? events[0].ticker.pair.quote;
+    const interval = this.options.equityIntervalMillis ?? 60_000;
+    let nextSample = 0;
+    for (const evt of events) {
+      this.now = evt.time;
+      if (evt.update !== undefined)
+        await this.replayUpdate(evt.ticker, evt.update);
+      if (evt.trade !== undefined)
+        await this.replayTrade(evt.ticker, evt.trade);
+      if (this.now >= nextSample) {
+        this.equity.push({ time: this.now, equity: this.getEquity() });
+        nextSample = (Math.floor(this.now / interval) + 1) * interval;
+      }
+    }
+    if (this.equity[this.equity.length - 1].time !== this.now)
+      this.equity.push({ time: this.now, equity: this.getEquity() });
+    return {
+      result: {
+        fills: this.fills,
+        equity: this.equity,
+        stats: this.getStats(),
+        balances: this.getBalances(),
+      },
+    };
+  }
+
+  /**
+   * Places order at the current replayed time, part crossing the book is filled immediately as taker,
+   * remaining part of the limit order rests behind the volume of the book at its price
+   * @param order - order to place
+   * @returns hash of the order
+   */
+  public async placeOrder(order: BacktestOrder): Promise<Result<string>> {
+    const { ticker, isSellSide, baseQty, price } = order;
+    const baseDecimals = this.erc20ToDecimals[ticker.pair.base];
+    if (baseDecimals === undefined)
+      return {
+        error: `Unknown decimals of ${ticker.pair.base}`,
+        reason: ErrorReason.VALIDATION,
+      };
+    if (baseQty <= 0n)
+      return {
+        error: "Order quantity is zero",
+        reason: ErrorReason.VALIDATION,
+      };
+    const book = this.getSimBook(ticker);
+    const levels = [...(isSellSide ? book.bids : book.asks).values()]
+      .filter(
+        (l) =>
+          price === undefined ||
+          (isSellSide ? l.price >= price : l.price <= price),
+      )
+      .sort((a, b) =>
+        (isSellSide ? a.price < b.price : a.price > b.price) ? 1 : -1,
+      );
+    if (order.postOnly && levels.length > 0)
+      return {
+        error: "Post only order would take liquidity",
+        reason: ErrorReason.VALIDATION,
+      };
+    const spent = isSellSide ? ticker.pair.base : ticker.pair.quote;
+    const unit = 10n ** BigInt(baseDecimals);
+    let required = isSellSide ? baseQty : 0n;
+    if (!isSellSide && price !== undefined) required = (price * baseQty) / unit;
+    else if (!isSellSide) {
+      // market buy spends as much as walking the book costs
+      let left = baseQty;
+      for (const level of levels) {
+        const qty = min(level.volume, left);
+        required += (level.price * qty) / unit;
+        left -= qty;
+      }
+    }
+    if ((this.balances.get(spent) ?? 0n) < required)
+      return {
+        error: `Insufficient balance of ${spent}`,
+        reason: ErrorReason.VALIDATION,
+      };
+
+    this.seq += 1;
+    const sim: SimOrder = {
+      hash: `0x${this.seq.toString(16)}`,
+      ticker,
+      isSellSide,
+      baseQty,
+      price,
+      filledBase: 0n,
+      filledQuote: 0n,
+      queueAhead: 0n,
+      seq: this.seq,
+    };
+    for (const level of levels) {
+      const qty = min(level.volume, baseQty - sim.filledBase);
+      if (qty === 0n) break;
+      level.volume -= qty;
+      if (level.volume === 0n)
+        (isSellSide ? book.bids : book.asks).delete(level.price);
+      await this.fill(sim, qty, level.price, false);
+    }
+    if (sim.filledBase === baseQty) return { result: sim.hash };
+    if (price === undefined) {
+      await this.report(
+        sim,
+        OrderStatus.CLOSED,
+        MatchingEngineResult.NOT_ENOUGH_LIQUIDITY,
+      );
+      return { result: sim.hash };
+    }
+    sim.queueAhead =
+      (isSellSide ? book.asks : book.bids).get(price)?.volume ?? 0n;
+    this.orders.set(sim.hash, sim);
+    if (sim.filledBase === 0n) await this.report(sim, OrderStatus.OPEN);
+    return { result: sim.hash };
+  }
+
+  /**
+   * Cancels resting order
+   * @param hash - hash of the order
+   * @returns hash of the cancelled order
+   */
+  public async cancelOrder(hash: string): Promise<Result<string>> {
+    const order = this.orders.get(hash);
+    if (order === undefined)
+      return {
+        error: `Order ${hash} is not open`,
+        reason: ErrorReason.NOT_FOUND,
+      };
+    this.orders.delete(hash);
+    await this.report(order, OrderStatus.CANCELLED);
+    return { result: hash };
+  }
+
+  /**
+   * Returns resting orders
+   * @param ticker - returns only orders of the ticker if specified
+   */
+  public getOpenOrders(ticker?: ExchangeTicker): BacktestOrder[] {
+    return [...this.orders.values()]
+      .filter(
+        (o) => ticker === undefined || this.isSameTicker(o.ticker, ticker),
+      )
+      .map((o) => ({
+        ticker: o.ticker,
+        isSellSide: o.isSellSide,
+        baseQty: o.baseQty - o.filledBase,
+        price: o.price,
+      }));
+  }
+
+  /**
+   * Returns current balances
+   */
+  public getBalances(): Partial<Record<ERC20Token, bigint>> {
+    return Object.fromEntries(this.balances);
+  }
+
+  /**
+   * Returns replayed book of the ticker, simulated taker orders consume its liquidity until next update of the level
+   * @param ticker - ticker of the book
+   */
+  public getBook(ticker: ExchangeTicker): Table<bigint> {
+    const book = this.getSimBook(ticker);
+    const toTable = (levels: Map<bigint, TableLevel>, desc: boolean) =>
+      [...levels.values()]
+        .sort((a, b) =>
+          (desc ? a.price < b.price : a.price > b.price) ? 1 : -1,
+        )
+        .map((l): [bigint, bigint, number] => [l.price, l.volume, l.orders]);
+    return { bids: toTable(book.bids, true), asks: toTable(book.asks, false) };
+  }
+
+  public async connect(): Promise<void> {}
+
+  public close() {}
+
+  public async subscribeOnMarketData(
+    clientCb: MarketDataListener,
+    eventType: SocketEvent.BBO | SocketEvent.BOOK_DELTA | SocketEvent.TRADE,
+    ticker: ExchangeTicker,
+  ): Promise<Result<string>> {
+    const key = this.getListenerKey(eventType, ticker);
+    this.marketListeners.set(key, [
+      ...(this.marketListeners.get(key) ?? []),
+      clientCb,
+    ]);
+    return { result: "OK" };
+  }
+
+  public async unSubscribeFromMarketData(
+    eventType: SocketEvent.BBO | SocketEvent.BOOK_DELTA | SocketEvent.TRADE,
+    ticker: ExchangeTicker,
+  ): Promise<Result<string>> {
+    this.marketListeners.delete(this.getListenerKey(eventType, ticker));
+    return { result: "OK" };
+  }
+
+  /**
+   * Subscribes to replayed book updates of the ticker, same as LayerAkiraWSSAPI.subscribeOnDepthUpdate
+   */
+  public async subscribeOnDepthUpdate(
+    ticker: ExchangeTicker,
+    clientCb: (
+      evt: TableUpdate<bigint> | SocketEvent.DISCONNECT | ReconnectedEvent,
+    ) => Promise<void>,
+  ): Promise<boolean> {
+    await this.subscribeOnMarketData(
+      (evt) => clientCb(evt as TableUpdate<bigint>),
+      SocketEvent.BOOK_DELTA,
+      ticker,
+    );
+    return true;
+  }
+
+  public async subscribeOnExecReport(
+    clientCb: ExecReportListener,
+  ): Promise<Result<string>> {
+    this.execListeners.push(clientCb);
+    return { result: "OK" };
+  }
+
+  public async unSubscribeFromExecReport(): Promise<Result<string>> {
+    this.execListeners = [];
+    return { result: "OK" };
+  }
+
+  private async replayUpdate(
+    ticker: ExchangeTicker,
+    update: TableUpdate<bigint>,
+  ) {
+    const book = this.getSimBook(ticker);
+    const apply = (
+      levels: Map<bigint, TableLevel>,
+      changes: Table<bigint>["bids"],
+    ) =>
+      changes.forEach(([price, volume, orders]) => {
+        if (volume === 0n) levels.delete(price);
+        else levels.set(price, { price, volume, orders });
+      });
+    apply(book.bids, update.bids);
+    apply(book.asks, update.asks);
+    // orders before ours can only leave the queue, so it shrinks with the level
+    for (const order of this.orders.values()) {
+      if (!this.isSameTicker(order.ticker, ticker)) continue;
+      const level = (order.isSellSide ? book.asks : book.bids).get(
+        order.price!,
+      );
+      order.queueAhead = min(order.queueAhead, level?.volume ?? 0n);
+    }
+    const bbo = this.getBBO(ticker, book, update.time);
+    if (bbo.bid && bbo.ask)
+      this.setPrice(ticker, (bbo.bid.price + bbo.ask.price) / 2n);
+    await this.publish(SocketEvent.BOOK_DELTA, ticker, update);
+    await this.publish(SocketEvent.BBO, ticker, bbo);
+  }
+
+  private async replayTrade(ticker: ExchangeTicker, trade: Trade) {
+    this.setPrice(ticker, trade.price);
+    // taker sell hits resting buy orders and vice versa
+    const candidates = [...this.orders.values()]
+      .filter(
+        (o) =>
+          this.isSameTicker(o.ticker, ticker) &&
+          o.isSellSide !== trade.is_sell_side &&
+          (o.isSellSide ? o.price! <= trade.price : o.price! >= trade.price),
+      )
+      .sort((a, b) =>
+        a.price === b.price
+          ? a.seq - b.seq
+          : (a.isSellSide ? a.price! > b.price! : a.price! < b.price!)
+            ? 1
+            : -1,
+      );
+    // volume of the trade is shared by all our orders, the queue ahead at trade price is consumed first
+    let left = trade.base_qty;
+    let queueConsumed = 0n;
+    for (const order of candidates) {
+      if (order.price === trade.price) {
+        const ahead = order.queueAhead - queueConsumed;
+        const queued = ahead > 0n ? min(ahead, left) : 0n;
+        queueConsumed += queued;
+        left -= queued;
+        order.queueAhead -= min(order.queueAhead, queueConsumed);
+      }
+      const qty = min(left, order.baseQty - order.filledBase);
+      if (qty === 0n) continue;
+      left -= qty;
+      await this.fill(order, qty, order.price!, true);
+    }
+    await this.publish(SocketEvent.TRADE, ticker, trade);
+  }
+
+  private async fill(
+    order: SimOrder,
+    baseQty: bigint,
+    price: bigint,
+    isMaker: boolean,
+  ) {
+    const { pair } = order.ticker;
+    const quoteQty =
+      (price * baseQty) / 10n ** BigInt(this.erc20ToDecimals[pair.base]);
+    const [makerPbips, takerPbips] = this.fees.get(order.ticker);
+    const received = order.isSellSide ? quoteQty : baseQty;
+    const feeToken = order.isSellSide ? pair.quote : pair.base;
+    const fee = calcFixedSwapFee(
+      {
+        recipient: NULL_ADDRESS,
+        maker_pbips: makerPbips,
+        taker_pbips: takerPbips,
+      },
+      received,
+      !isMaker,
+    );
+    let gas = 0n;
+    let gasToken: ERC20Token | undefined;
+    if (this.options.gasFee !== undefined) {
+      [gasToken, gas] = calcSingleTradeGasFee(
+        this.options.gasFee,
+        this.options.gasPrice,
+      );
+      this.addBalance(gasToken, -gas);
+      this.gasPaid[gasToken] = (this.gasPaid[gasToken] ?? 0n) + gas;
+    }
+    this.addBalance(pair.base, order.isSellSide ? -baseQty : baseQty - fee);
+    this.addBalance(pair.quote, order.isSellSide ? quoteQty - fee : -quoteQty);
+    this.feesPaid[feeToken] = (this.feesPaid[feeToken] ?? 0n) + fee;
+    this.volume += this.valueOf(pair.quote, quoteQty) ?? 0n;
+
+    order.filledBase += baseQty;
+    order.filledQuote += quoteQty;
+    this.fills.push({
+      time: this.now,
+      hash: order.hash,
+      ticker: order.ticker,
+      isSellSide: order.isSellSide,
+      isMaker,
+      price,
+      baseQty,
+      quoteQty,
+      fee,
+      feeToken,
+      gas,
+      gasToken,
+    });
+    const filled = order.filledBase === order.baseQty;
+    if (filled) this.orders.delete(order.hash);
+    await this.report(
+      order,
+      filled ? OrderStatus.FILLED : OrderStatus.PARTIALLY_FILLED,
+      MatchingEngineResult.OK,
+      [price, baseQty, quoteQty],
+    );
+  }
+
+  private async report(
+    order: SimOrder,
+    status: OrderStatus,
+    matcherResult: MatchingEngineResult = MatchingEngineResult.OK,
+    [price, baseQty, quoteQty]: [bigint, bigint, bigint] = [
+      order.price ?? 0n,
+      0n,
+      0n,
+    ],
+  ) {
+    const report: ExecutionReport = {
+      client: this.options.client ?? NULL_ADDRESS,
+      pair: order.ticker.pair,
+      fill_price: price,
+      fill_base_qty: baseQty,
+      fill_quote_qty: quoteQty,
+      acc_base_qty: order.filledBase,
+      acc_quote_qty: order.filledQuote,
+      hash: order.hash,
+      is_sell_side: order.isSellSide,
+      status,
+      matcher_result: matcherResult,
+    };
+    for (const listener of this.execListeners) {
+      try {
+        await listener(report);
+      } catch (e) {
+        this.logger(`Error in execution report listener: ${e}`);
+      }
+    }
+  }
+
+  private async publish(
+    event: SocketEvent.BBO | SocketEvent.BOOK_DELTA | SocketEvent.TRADE,
+    ticker: ExchangeTicker,
+    evt: TableUpdate<bigint> | BBO | Trade,
+  ) {
+    for (const listener of this.marketListeners.get(
+      this.getListenerKey(event, ticker),
+    ) ?? []) {
+      try {
+        await listener(evt);
+      } catch (e) {
+        this.logger(`Error in ${event} listener: ${e}`);
+      }
+    }
+  }
+
+  private getBBO(ticker: ExchangeTicker, book: SimBook, ts: number): BBO {
+    const best = (levels: Map<bigint, TableLevel>, desc: boolean) =>
+      [...levels.values()].reduce<TableLevel | null>(
+        (acc, l) =>
+          acc === null || (desc ? l.price > acc.price : l.price < acc.price)
+            ? { ...l }
+            : acc,
+        null,
+      );
+    return {
+      bid: best(book.bids, true),
+      ask: best(book.asks, false),
+      ts,
+      pair: ticker.pair,
+    };
+  }
+
+  private getStats(): BacktestStats {
+    const startEquity = this.equity[0].equity;
+    const endEquity = this.equity[this.equity.length - 1].equity;
+    let peak = startEquity;
+    let maxDrawdownBips = 0;
+    for (const { equity } of this.equity) {
+      if (equity > peak) peak = equity;
+      if (peak > 0n) {
+        const drawdown = Number(((peak - equity) * 10_000n) / peak);
+        if (drawdown > maxDrawdownBips) maxDrawdownBips = drawdown;
+      }
+    }
+    const makerFills = this.fills.filter((f) => f.isMaker).length;
+    return {
+      fills: this.fills.length,
+      makerFills,
+      takerFills: this.fills.length - makerFills,
+      volume: this.volume,
+      fees: { ...this.feesPaid },
+      gas: { ...this.gasPaid },
+      startEquity,
+      endEquity,
+      pnl: endEquity - startEquity,
+      returnBips:
+        startEquity > 0n
+          ? Number(((endEquity - startEquity) * 10_000n) / startEquity)
+          : 0,
+      maxDrawdownBips,
+    };
+  }
+
+  private getEquity(): bigint {
+    let equity = 0n;
+    this.balances.forEach(
+      (balance, token) => (equity += this.valueOf(token, balance) ?? 0n),
+    );
+    return equity;
+  }
+
+  private valueOf(token: ERC20Token, amount: bigint): bigint | undefined {
+    if (token === this.valuationToken) return amount;
+    const price = this.prices.get(token);
+    if (price === undefined) return undefined;
+    return (price * amount) / 10n ** BigInt(this.erc20ToDecimals[token]);
+  }
+
+  private setPrice(ticker: ExchangeTicker, price: bigint) {
+    if (ticker.pair.quote === this.valuationToken)
+      this.prices.set(ticker.pair.base, price);
+  }
+
+  private addBalance(token: ERC20Token, amount: bigint) {
+    this.balances.set(token, (this.balances.get(token) ?? 0n) + amount);
+  }
+
+  private getSimBook(ticker: ExchangeTicker): SimBook {
+    const key = this.getTickerKey(ticker);
+    let book = this.books.get(key);
+    if (book === undefined) {
+      book = { bids: new Map(), asks: new Map() };
+      this.books.set(key, book);
+    }
+    return book;
+  }
+
+  private isSameTicker(a: ExchangeTicker, b: ExchangeTicker): boolean {
+    return this.getTickerKey(a) === this.getTickerKey(b);
+  }
+
+  private getListenerKey(event: SocketEvent, ticker: ExchangeTicker): string {
+    return `${event}/${this.getTickerKey(ticker)}`;
+  }
+
+  private getTickerKey(ticker: ExchangeTicker): string {
+    return `${getPairKey(ticker.pair)}/${ticker.isEcosystemBook}`;
+  }
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
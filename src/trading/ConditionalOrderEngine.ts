@@ -0,0 +1,558 @@
+import { LayerAkiraHttpAPI } from "../api/http/LayerAkiraHttpAPI";
+import { LayerAkiraWSSAPI } from "../api/websocket/LayerAkiraWSSAPI";
+import { ExchangeTicker, SocketEvent } from "../api/websocket/types";
+import { getPairKey, sleep } from "../api/websocket/utils";
+import { ErrorReason, internalErrorResult } from "../api/errors";
+import { Order, OrderSide, Quantity, TraderSignature } from "../request_types";
+import { BBO, Result, Trade } from "../response_types";
+import { OrderConstructor } from "../utils/OrderConstructor";
+import { generateRandomSalt } from "../utils/utils";
+import { signAndPlaceOrder } from "./utils";
+
+const BIPS = 10_000n;
+
+/**
+ * Represents condition on which conditional order is triggered
+ */
+export enum TriggerType {
+  STOP_LOSS = "stop_loss", // sell when price falls to trigger price, buy when it rises to it
+  TAKE_PROFIT = "take_profit", // sell when price rises to trigger price, buy when it falls to it
+  TRAILING_STOP = "trailing_stop", // stop loss which trigger price follows the best price seen by trailing distance
+}
+
+/**
+ * Represents market data stream which price is watched
+ */
+export enum TriggerSource {
+  TRADE = "trade", // price of the last trade
+  BBO = "bbo", // best bid for sell orders and best ask for buy orders
+}
+
+/**
+ * Represents lifecycle of the conditional order
+ */
+export enum ConditionalOrderStatus {
+  PENDING = "pending", // waiting for trigger
+  TRIGGERED = "triggered", // trigger fired, order is being reviewed and submitted
+  PLACED = "placed", // order accepted by exchange
+  REJECTED = "rejected", // order declined by review hook
+  FAILED = "failed", // order could not be built, signed or placed
+  CANCELLED = "cancelled", // cancelled by user or because other order of OCO pair triggered
+}
+
+/**
+ * Represents request to create conditional order
+ */
+export interface ConditionalOrderRequest {
+  ticker: ExchangeTicker;
+  side: OrderSide; // side of the order placed once triggered
+  qty: Quantity;
+  type: TriggerType;
+  triggerPrice?: bigint; // required for stop loss and take profit
+  trailingBips?: number; // required for trailing stop, distance from the best price seen
+  limitPrice?: bigint; // price of the limit order placed once triggered, market order is placed if not specified
+  slippageBips?: number; // protection price of market order relative to trigger price, 100 by default
+  source?: TriggerSource; // TRADE by default
+}
+
+/**
+ * Represents state of the conditional order
+ */
+export interface ConditionalOrder extends ConditionalOrderRequest {
+  id: string;
+  status: ConditionalOrderStatus;
+  createdAt: number;
+  ocoId?: string; // id of the other order of OCO pair, cancelled once this one triggers
+  extremePrice?: bigint; // best price seen so far by trailing stop
+  triggeredAt?: number;
+  triggeredPrice?: bigint; // price that fired the trigger
+  orderHash?: string; // hash of the placed order
+  error?: string; // reason of failure
+}
+
+/**
+ * Represents storage where state of conditional orders is persisted, so they survive restarts
+ */
+export interface ConditionalOrderStorage {
+  load(): Promise<ConditionalOrder[]>;
+  save(orders: ConditionalOrder[]): Promise<void>;
+}
+
+/**
+ * Storage that keeps conditional orders in memory
+ */
+export class InMemoryConditionalOrderStorage
+  implements ConditionalOrderStorage
+{
+  private orders: ConditionalOrder[] = [];
+
+  public async load(): Promise<ConditionalOrder[]> {
+    return this.orders.map((o) => ({ ...o }));
+  }
+
+  public async save(orders: ConditionalOrder[]): Promise<void> {
+    this.orders = orders.map((o) => ({ ...o }));
+  }
+}
+
+/**
+ * Represents optional parameters of the ConditionalOrderEngine
+ */
+export interface ConditionalOrderEngineOptions {
+  storage?: ConditionalOrderStorage; // in memory storage by default
+  review?: (
+    order: ConditionalOrder,
+    built: Order,
+  ) => boolean | Promise<boolean>; // return false to decline submission
+  durationValid?: number; // validity of placed orders in seconds
+  numberOfSwapsAllowed?: number; // max number of trades of placed orders, 10 by default
+  repeatCoolDownMillis?: number; // sleep between attempts to resubscribe after disconnection, 1000 by default
+}
+
+/**
+ * The ConditionalOrderEngine class emulates stop loss, take profit, trailing stop and OCO orders on the client side.
+ * It watches trades or bbo of the tickers via websockets and once trigger fires it builds the order via OrderConstructor,
+ * signs it via signer callback and places it via http client.
+ * Subscriptions on market data of the tickers are made by the engine, so they should not be made on the same
+ * websocket client by other consumers. In case of disconnection the engine resubscribes once websocket is back,
+ * or relies on websocket client if it restores subscriptions.
+ * Note that orders are emulated, i.e. they are triggered only while the engine is running
+ * @category Main Classes
+ */
+export class ConditionalOrderEngine {
+  /**
+   * Http client connection.
+   */
+  private httpClient: LayerAkiraHttpAPI;
+  /**
+   * WebSocket client connection.
+   */
+  private wsClient: LayerAkiraWSSAPI;
+  private orderConstructor: OrderConstructor;
+  private sign: (order: Order) => Promise<TraderSignature>;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: ConditionalOrderEngineOptions;
+  private readonly storage: ConditionalOrderStorage;
+  /**
+   * Id of conditional order to its state
+   */
+  private orders: Map<string, ConditionalOrder> = new Map();
+  /**
+   * Active market data subscriptions to their tickers
+   */
+  private subscriptions: Map<
+    string,
+    [ExchangeTicker, SocketEvent.TRADE | SocketEvent.BBO]
+  > = new Map();
+  /**
+   * Listeners that are notified on every update of any conditional order
+   */
+  private listeners: Array<(order: ConditionalOrder) => void> = [];
+  private saving: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  /**
+   * Creates an instance of ConditionalOrderEngine.
+   * @param httpClient - Http client instance with credentials set
+   * @param wsClient - WebSocket client instance
+   * @param orderConstructor - constructor of orders of the trading account
+   * @param sign - signs order on behalf of trading account, should throw on failure
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    httpClient: LayerAkiraHttpAPI,
+    wsClient: LayerAkiraWSSAPI,
+    orderConstructor: OrderConstructor,
+    sign: (order: Order) => Promise<TraderSignature>,
+    logger?: (arg: string) => void,
+    options: ConditionalOrderEngineOptions = {},
+  ) {
+    this.httpClient = httpClient;
+    this.wsClient = wsClient;
+    this.orderConstructor = orderConstructor;
+    this.sign = sign;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+    this.storage = options.storage ?? new InMemoryConditionalOrderStorage();
+  }
+
+  /**
+   * Restores conditional orders from storage and subscribes to market data of pending ones.
+   * Orders that were triggered but not submitted before restart are marked as failed since their outcome is unknown
+   * @param timeout - Optional timeout value in milliseconds for the subscription requests
+   * @returns result of the subscriptions
+   */
+  public async run(timeout?: number): Promise<Result<"OK">> {
+    this.stopped = false;
+    try {
+      for (const order of await this.storage.load()) {
+        if (order.status === ConditionalOrderStatus.TRIGGERED) {
+          order.status = ConditionalOrderStatus.FAILED;
+          order.error = "Interrupted before submission";
+        }
+        this.orders.set(order.id, order);
+      }
+    } catch (e: any) {
+      this.logger(`Failed to load conditional orders: ${e}`);
+      return internalErrorResult(e);
+    }
+    for (const order of this.orders.values()) {
+      if (order.status !== ConditionalOrderStatus.PENDING) continue;
+      const res = await this.subscribe(order, timeout);
+      if (res.error !== undefined) return res;
+    }
+    await this.persist();
+    return { result: "OK" };
+  }
+
+  /**
+   * Unsubscribes from market data, pending orders are kept in storage and resumed on next run
+   * @param timeout - Optional timeout value in milliseconds for the unsubscription requests
+   */
+  public async stop(timeout?: number): Promise<void> {
+    this.stopped = true;
+    const subscriptions = [...this.subscriptions.values()];
+    this.subscriptions.clear();
+    for (const [ticker, event] of subscriptions)
+      await this.wsClient.unSubscribeFromMarketData(event, ticker, timeout);
+    await this.saving;
+  }
+
+  /**
+   * Registers listener that is notified on every update of any conditional order
+   * @param listener - callback to invoke
+   */
+  public onUpdate(listener: (order: ConditionalOrder) => void) {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Returns state of the conditional order
+   * @param id - id of the conditional order
+   */
+  public getOrder(id: string): ConditionalOrder | undefined {
+    const order = this.orders.get(id);
+    return order === undefined ? undefined : { ...order };
+  }
+
+  /**
+   * @returns state of all conditional orders
+   */
+  public getOrders(): ConditionalOrder[] {
+    return [...this.orders.values()].map((o) => ({ ...o }));
+  }
+
+  /**
+   * Creates conditional order
+   * @param request - conditional order to create
+   * @param timeout - Optional timeout value in milliseconds for the subscription request
+   * @returns state of the created order
+   */
+  public async add(
+    request: ConditionalOrderRequest,
+    timeout?: number,
+  ): Promise<Result<ConditionalOrder>> {
+    const res = await this.create([request], timeout);
+    if (res.result === undefined) return { ...res, result: undefined };
+    return { result: res.result[0] };
+  }
+
+  /**
+   * Creates pair of conditional orders where trigger of one cancels another, e.g. stop loss and take profit
+   * @param first - first conditional order
+   * @param second - second conditional order
+   * @param timeout - Optional timeout value in milliseconds for the subscription requests
+   * @returns state of the created orders
+   */
+  public async addOco(
+    first: ConditionalOrderRequest,
+    second: ConditionalOrderRequest,
+    timeout?: number,
+  ): Promise<Result<[ConditionalOrder, ConditionalOrder]>> {
+    const res = await this.create([first, second], timeout);
+    if (res.result === undefined) return { ...res, result: undefined };
+    return { result: [res.result[0], res.result[1]] };
+  }
+
+  /**
+   * Cancels pending conditional order, other order of OCO pair is cancelled as well
+   * @param id - id of the conditional order
+   * @returns state of the cancelled order
+   */
+  public async cancel(id: string): Promise<Result<ConditionalOrder>> {
+    const order = this.orders.get(id);
+    if (order === undefined)
+      return {
+        error: `Conditional order ${id} not found`,
+        reason: ErrorReason.NOT_FOUND,
+      };
+    if (order.status !== ConditionalOrderStatus.PENDING)
+      return {
+        error: `Conditional order ${id} is ${order.status}`,
+        reason: ErrorReason.VALIDATION,
+      };
+    this.update(order, { status: ConditionalOrderStatus.CANCELLED });
+    this.cancelSibling(order);
+    await this.persist();
+    return { result: { ...order } };
+  }
+
+  private async create(
+    requests: ConditionalOrderRequest[],
+    timeout?: number,
+  ): Promise<Result<ConditionalOrder[]>> {
+    for (const request of requests) {
+      const error = this.validate(request);
+      if (error !== undefined) return { error, reason: ErrorReason.VALIDATION };
+    }
+    const orders: ConditionalOrder[] = requests.map((request) => ({
+      ...request,
+      source: request.source ?? TriggerSource.TRADE,
+      id: generateRandomSalt().toString(16),
+      status: ConditionalOrderStatus.PENDING,
+      createdAt: Date.now(),
+    }));
+    if (orders.length == 2) {
+      orders[0].ocoId = orders[1].id;
+      orders[1].ocoId = orders[0].id;
+    }
+    for (const order of orders) {
+      const res = await this.subscribe(order, timeout);
+      if (res.error !== undefined) return { ...res, result: undefined };
+    }
+    orders.forEach((order) => this.orders.set(order.id, order));
+    await this.persist();
+    orders.forEach((order) => this.notify(order));
+    return { result: orders.map((o) => ({ ...o })) };
+  }
+
+  private validate(request: ConditionalOrderRequest): string | undefined {
+    if (request.qty.base_qty <= 0n && request.qty.quote_qty <= 0n)
+      return "Quantity must be positive";
+    if (request.type === TriggerType.TRAILING_STOP) {
+      const bips = request.trailingBips ?? 0;
+      if (bips <= 0 || bips >= 10_000)
+        return "Trailing stop requires trailingBips in (0, 10000)";
+    } else if (request.triggerPrice === undefined || request.triggerPrice <= 0n)
+      return `${request.type} requires positive triggerPrice`;
+    if (request.limitPrice !== undefined && request.limitPrice <= 0n)
+      return "Limit price must be positive";
+    return undefined;
+  }
+
+  private async subscribe(
+    order: ConditionalOrder,
+    timeout?: number,
+  ): Promise<Result<"OK">> {
+    const [key, event] = this.getStream(order);
+    const ticker = order.ticker;
+    if (this.subscriptions.has(key)) return { result: "OK" };
+    const res = await this.wsClient.subscribeOnMarketData(
+      async (evt) => {
+        if (evt === SocketEvent.DISCONNECT) return this.restore(key);
+        if (typeof evt !== "object" || !("price" in evt || "ts" in evt)) return;
+        await this.handle(ticker, evt as Trade | BBO);
+      },
+      event,
+      ticker,
+      timeout,
+    );
+    if (res.error !== undefined) {
+      this.logger(`Failed to subscribe to ${key}: ${res.error}`);
+      return res;
+    }
+    this.subscriptions.set(key, [ticker, event]);
+    return { result: "OK" };
+  }
+
+  private getStream(
+    order: ConditionalOrder,
+  ): [string, SocketEvent.TRADE | SocketEvent.BBO] {
+    const event =
+      order.source === TriggerSource.BBO ? SocketEvent.BBO : SocketEvent.TRADE;
+    const { pair, isEcosystemBook } = order.ticker;
+    return [`${getPairKey(pair)}/${isEcosystemBook}/${event}`, event];
+  }
+
+  private async restore(key: string) {
+    this.logger(`Market data stream ${key} disconnected`);
+    if (this.wsClient.restoreSubscriptions) return;
+    this.subscriptions.delete(key);
+    const cooldown = this.options.repeatCoolDownMillis ?? 1000;
+    while (
+      !this.stopped &&
+      !this.wsClient.isClosed &&
+      !this.subscriptions.has(key)
+    ) {
+      await sleep(cooldown);
+      const pending = [...this.orders.values()].find(
+        (o) =>
+          o.status === ConditionalOrderStatus.PENDING &&
+          this.getStream(o)[0] === key,
+      );
+      if (pending === undefined) return;
+      await this.subscribe(pending, cooldown);
+    }
+  }
+
+  private async handle(ticker: ExchangeTicker, evt: Trade | BBO) {
+    const triggered: [ConditionalOrder, bigint][] = [];
+    for (const order of this.orders.values()) {
+      if (
+        order.status !== ConditionalOrderStatus.PENDING ||
+        order.ticker.isEcosystemBook !== ticker.isEcosystemBook ||
+        getPairKey(order.ticker.pair) !== getPairKey(ticker.pair)
+      )
+        continue;
+      const price = this.getReferencePrice(order, evt);
+      if (price === undefined) continue;
+      if (order.type === TriggerType.TRAILING_STOP) this.trail(order, price);
+      if (this.isTriggered(order, price)) triggered.push([order, price]);
+    }
+    // orders are marked as triggered synchronously, so subsequent events do not fire them twice,
+    // the order that is cancelled as OCO sibling of already fired one is skipped
+    const fired = triggered.filter(([order, price]) => {
+      if (order.status !== ConditionalOrderStatus.PENDING) return false;
+      this.update(order, {
+        status: ConditionalOrderStatus.TRIGGERED,
+        triggeredAt: Date.now(),
+        triggeredPrice: price,
+      });
+      this.cancelSibling(order);
+      return true;
+    });
+    if (fired.length == 0) return;
+    await this.persist();
+    await Promise.all(fired.map(([order, price]) => this.submit(order, price)));
+  }
+
+  private getReferencePrice(
+    order: ConditionalOrder,
+    evt: Trade | BBO,
+  ): bigint | undefined {
+    if ("price" in evt)
+      return order.source === TriggerSource.TRADE ? evt.price : undefined;
+    if (order.source !== TriggerSource.BBO) return undefined;
+    const level = order.side === OrderSide.SELL ? evt.bid : evt.ask;
+    return level?.price ?? undefined;
+  }
+
+  private trail(order: ConditionalOrder, price: bigint) {
+    const isSell = order.side === OrderSide.SELL;
+    const extreme = order.extremePrice;
+    if (extreme !== undefined && (isSell ? price <= extreme : price >= extreme))
+      return;
+    const distance = BigInt(order.trailingBips!);
+    this.update(order, {
+      extremePrice: price,
+      triggerPrice: isSell
+        ? (price * (BIPS - distance)) / BIPS
+        : (price * (BIPS + distance)) / BIPS,
+    });
+  }
+
+  private isTriggered(order: ConditionalOrder, price: bigint): boolean {
+    const trigger = order.triggerPrice!;
+    const fallsTo =
+      (order.side === OrderSide.SELL) !==
+      (order.type === TriggerType.TAKE_PROFIT);
+    return fallsTo ? price <= trigger : price >= trigger;
+  }
+
+  private async submit(order: ConditionalOrder, price: bigint) {
+    const gas = await this.httpClient.queryGasPrice();
+    if (gas.result === undefined) return this.fail(order, gas.error);
+    let built: Order;
+    try {
+      built = this.build(order, price, gas.result);
+    } catch (e: any) {
+      return this.fail(order, `Failed to build order: ${e}`);
+    }
+    try {
+      if (
+        this.options.review !== undefined &&
+        !(await this.options.review({ ...order }, built))
+      ) {
+        this.update(order, { status: ConditionalOrderStatus.REJECTED });
+        return await this.persist();
+      }
+    } catch (e: any) {
+      return this.fail(order, `Review failed: ${e}`);
+    }
+
+    const res = await signAndPlaceOrder(this.httpClient, built, this.sign);
+    if (res.result === undefined) return this.fail(order, res.error);
+    this.update(order, {
+      status: ConditionalOrderStatus.PLACED,
+      orderHash: res.result,
+    });
+    await this.persist();
+  }
+
+  private build(order: ConditionalOrder, price: bigint, gasPrice: bigint) {
+    const isMarket = order.limitPrice === undefined;
+    const slippage = BigInt(order.slippageBips ?? 100);
+    const protectionPrice =
+      order.side === OrderSide.BUY
+        ? (price * (BIPS + slippage)) / BIPS
+        : (price * (BIPS - slippage)) / BIPS;
+    return this.orderConstructor.buildOrder(
+      order.ticker,
+      isMarket ? protectionPrice : order.limitPrice!,
+      order.qty,
+      this.options.numberOfSwapsAllowed ?? 10,
+      order.side,
+      gasPrice,
+      false,
+      isMarket,
+      true,
+      false,
+      false,
+      false,
+      0n,
+      this.options.durationValid,
+    );
+  }
+
+  private async fail(order: ConditionalOrder, error?: string) {
+    this.logger(`Conditional order ${order.id} failed: ${error}`);
+    this.update(order, { status: ConditionalOrderStatus.FAILED, error });
+    await this.persist();
+  }
+
+  private cancelSibling(order: ConditionalOrder) {
+    const sibling =
+      order.ocoId === undefined ? undefined : this.orders.get(order.ocoId);
+    if (sibling?.status === ConditionalOrderStatus.PENDING)
+      this.update(sibling, { status: ConditionalOrderStatus.CANCELLED });
+  }
+
+  private update(order: ConditionalOrder, patch: Partial<ConditionalOrder>) {
+    Object.assign(order, patch);
+    this.notify(order);
+  }
+
+  private notify(order: ConditionalOrder) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener({ ...order });
+      } catch (e) {
+        this.logger(
+          `Error in conditional order listener for ${order.id}: ${e}`,
+        );
+      }
+    });
+  }
+
+  private persist(): Promise<void> {
+    const orders = this.getOrders();
+    this.saving = this.saving
+      .then(() => this.storage.save(orders))
+      .catch((e) => this.logger(`Failed to save conditional orders: ${e}`));
+    return this.saving;
+  }
+}
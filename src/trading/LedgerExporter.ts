@@ -0,0 +1,594 @@
+import { IndexerAPI } from "../api/indexer/Indexer";
+import { collect } from "../api/indexer/pagination";
+import {
+  DbDeposit,
+  DbOrder,
+  DbTrade,
+  DbWithdrawal,
+} from "../api/indexer/types";
+import { bigIntReplacer } from "../api/http/utils";
+import { bigIntToFormattedDecimal } from "../api/utils";
+import { internalErrorResult } from "../api/errors";
+import { ERC20Token, ERCToDecimalsMap } from "../request_types";
+import { Result } from "../response_types";
+import { Address } from "../types";
+import { fetchOrderTrades } from "./utils";
+
+/**
+ * Represents kind of the ledger entry
+ */
+export enum LedgerEntryKind {
+  TRADE = "trade", // one leg of the trade
+  FEE = "fee", // exchange or router fee
+  GAS = "gas",
+  DEPOSIT = "deposit",
+  WITHDRAWAL = "withdrawal",
+}
+
+/**
+ * Represents accounts of the double-entry ledger of the trading account
+ */
+export enum LedgerAccount {
+  EXCHANGE = "exchange", // balance of the trading account on exchange
+  EXTERNAL = "external", // funds outside of exchange, e.g. wallet
+  COUNTERPARTY = "counterparty", // other side of the trades
+  FEES = "fees", // fees paid to exchange and routers
+  GAS = "gas", // gas paid for onchain settlement
+}
+
+/**
+ * Represents single movement of the token from credit to debit account
+ */
+export interface LedgerEntry {
+  id: string; // deterministic identifier: {kind}:{tx_hash}:{reference}:{leg}
+  time: number; // in seconds
+  kind: LedgerEntryKind;
+  txHash: string;
+  reference: string; // order hash for trades and fees, event index for deposits and withdrawals
+  token: ERC20Token;
+  rawAmount: bigint;
+  amount: string; // amount normalized with decimals of the token
+  debit: LedgerAccount;
+  credit: LedgerAccount;
+  usdValue?: string; // as reported by indexer, only trade legs have it
+  memo?: string;
+}
+
+/**
+ * Represents exported part of the order that can still be filled
+ */
+export interface LedgerOpenOrder {
+  hash: string;
+  txHash: string; // rollup of the last exported fills
+  fees: string[]; // exported exchange fee, router fee and gas, raw amounts
+}
+
+/**
+ * Represents position of the export in every walked indexer stream, used to resume export
+ */
+export interface LedgerCursor {
+  orders: string | null; // hash of the last exported order
+  deposits: string | null; // {tx_hash}_{event_idx} of the last exported deposit
+  withdrawals: string | null; // {tx_hash}_{event_idx} of the last exported withdrawal
+  openOrders?: LedgerOpenOrder[]; // partially filled orders before the cursor, their later fills and fees are exported on resume
+}
+
+/**
+ * Represents parameters of the export
+ */
+export interface LedgerExportParams {
+  from?: number; // in seconds, inclusive
+  to?: number; // in seconds, inclusive
+  cursor?: LedgerCursor; // resume after previous export
+}
+
+/**
+ * Represents result of the export
+ */
+export interface LedgerExport {
+  trader: Address;
+  entries: LedgerEntry[];
+  cursor: LedgerCursor; // pass to next export to get only newer entries
+}
+
+/**
+ * Represents optional parameters of the LedgerExporter
+ */
+export interface LedgerExporterOptions {
+  pageSize?: number; // entries queried from indexer per request, 50 by default
+  tokenAddresses?: Record<Address, ERC20Token>; // address to token, deposits and withdrawals reference tokens by address
+}
+
+const KIND_ORDER = [
+  LedgerEntryKind.DEPOSIT,
+  LedgerEntryKind.TRADE,
+  LedgerEntryKind.FEE,
+  LedgerEntryKind.WITHDRAWAL,
+  LedgerEntryKind.GAS,
+];
+
+/**
+ * The LedgerExporter class walks all orders, deposits and withdrawals of the trader in the indexer
+ * and emits deterministic double-entry ledger: every trade produces two legs against counterparty,
+ * fees and gas are debited from exchange balance, deposits and withdrawals move funds between exchange and external account.
+ * Entries are sorted by time, so exports of the same range are identical.
+ * Orders are exported once their trades are rolled up, export stops before the first traded order that is not rolled up yet,
+ * so it and later orders are picked up on resume. Orders without trades are skipped.
+ * Partially filled orders that are neither expired nor filled are tracked by the cursor,
+ * fills and fees rolled up for them later are exported on resume
+ * @category Main Classes
+ */
+export class LedgerExporter {
+  private indexer: IndexerAPI;
+  private readonly trader: Address;
+  private readonly erc20ToDecimals: ERCToDecimalsMap;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: LedgerExporterOptions;
+
+  /**
+   * Creates an instance of LedgerExporter.
+   * @param indexer - indexer instance
+   * @param trader - trading account
+   * @param erc20ToDecimals - decimals of the tokens
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    indexer: IndexerAPI,
+    trader: Address,
+    erc20ToDecimals: ERCToDecimalsMap,
+    logger?: (arg: string) => void,
+    options: LedgerExporterOptions = {},
+  ) {
+    this.indexer = indexer;
+    this.trader = trader;
+    this.erc20ToDecimals = erc20ToDecimals;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+  }
+
+  /**
+   * Exports ledger entries of the trader
+   * @param params - date range and cursor of the previous export
+   * @returns entries sorted by time and cursor to resume from
+   */
+  public async export(
+    params: LedgerExportParams = {},
+  ): Promise<Result<LedgerExport>> {
+    const inRange = (time: number | null) =>
+      time === null ||
+      ((params.from === undefined || time >= params.from) &&
+        (params.to === undefined || time <= params.to));
+    const eventKey = (e: DbDeposit | DbWithdrawal) =>
+      `${e.tx_hash}_${e.event_idx}`;
+
+    const pageSize = this.options.pageSize ?? 50;
+    // entries that are not settled yet have no time or tx hash and are exported once they are
+    const unsettledOrAfter = (time: number | null) =>
+      time === null || (params.to !== undefined && time > params.to);
+    const stream = { trader: this.trader, reverse: true };
+
+    const orders = await this.walk(
+      params.cursor?.orders ?? null,
+      (o: DbOrder) => o.order_hash,
+      (cursor) =>
+        this.indexer.iterateTraderOrders(
+          { ...stream, skip_dependant_orders: false },
+          {
+            pageSize,
+            cursor,
+            stopWhen: (o) => unsettledOrAfter(o.created_at),
+          },
+        ),
+    );
+    if (orders.result === undefined) return { ...orders, result: undefined };
+    const deposits = await this.walk(
+      params.cursor?.deposits ?? null,
+      eventKey,
+      (cursor) =>
+        this.indexer.iterateTraderDeposits(stream, {
+          pageSize,
+          cursor,
+          stopWhen: (d) => unsettledOrAfter(d.event_time),
+        }),
+    );
+    if (deposits.result === undefined)
+      return { ...deposits, result: undefined };
+    const withdrawals = await this.walk(
+      params.cursor?.withdrawals ?? null,
+      eventKey,
+      (cursor) =>
+        this.indexer.iterateTraderWithdrawals(stream, {
+          pageSize,
+          cursor,
+          stopWhen: (w) => unsettledOrAfter(w.event_time),
+        }),
+    );
+    if (withdrawals.result === undefined)
+      return { ...withdrawals, result: undefined };
+
+    const trades = await fetchOrderTrades(this.indexer, orders.result.items);
+    if (trades.result === undefined) return { ...trades, result: undefined };
+    // traded order that is not rolled up or which trades are not visible yet is exported on resume with final fees
+    const traded = new Set(
+      trades.result.flatMap((t) => [t.maker_hash, t.taker_hash]),
+    );
+    const pending = orders.result.items.findIndex(
+      (o) => tradesOf(o) > 0 && (!o.tx_hash || !traded.has(o.order_hash)),
+    );
+    const settled =
+      pending < 0 ? orders.result.items : orders.result.items.slice(0, pending);
+    const ordersCursor =
+      settled.length > 0
+        ? settled[settled.length - 1].order_hash
+        : params.cursor?.orders ?? null;
+    const exported = settled.filter(
+      (o) => tradesOf(o) > 0 && inRange(o.created_at),
+    );
+    const resumed = await this.resumeOpenOrders(
+      params.cursor?.openOrders ?? [],
+    );
+    if (resumed.result === undefined) return { ...resumed, result: undefined };
+    const now = Math.floor(Date.now() / 1000);
+    const openOrders = [
+      ...resumed.result.open,
+      ...exported
+        .filter((o) => !isOrderDone(o, now))
+        .map((o) => this.openOrder(o)),
+    ];
+
+    try {
+      const entries: LedgerEntry[] = [];
+      const byHash = new Map(
+        [...exported, ...resumed.result.orders.map(([o]) => o)].map((o) => [
+          o.order_hash,
+          o,
+        ]),
+      );
+      const seen = new Set<string>();
+      const allTrades = [...trades.result, ...resumed.result.trades].filter(
+        (t) => {
+          const key = `${t.tx_hash}_${t.event_idx}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        },
+      );
+      for (const trade of allTrades)
+        for (const hash of [trade.maker_hash, trade.taker_hash]) {
+          const order = byHash.get(hash);
+          if (order === undefined) continue;
+          const [base, quote] = trade.ticker;
+          const [received, spent] = order.is_sell_side
+            ? [quote, base]
+            : [base, quote];
+          const amounts: Record<ERC20Token, bigint> = {
+            [base]: BigInt(trade.amount_base),
+            [quote]: BigInt(trade.amount_quote),
+          };
+          const common = {
+            time: order.created_at,
+            kind: LedgerEntryKind.TRADE,
+            txHash: trade.tx_hash,
+            reference: hash,
+            usdValue: trade.usd_volume || undefined,
+            memo: `${order.is_sell_side ? "sell" : "buy"} ${base}/${quote}`,
+          };
+          entries.push(
+            this.entry(
+              { ...common, leg: `${trade.event_idx}:in` },
+              received,
+              amounts[received],
+              LedgerAccount.EXCHANGE,
+              LedgerAccount.COUNTERPARTY,
+            ),
+            this.entry(
+              { ...common, leg: `${trade.event_idx}:out` },
+              spent,
+              amounts[spent],
+              LedgerAccount.COUNTERPARTY,
+              LedgerAccount.EXCHANGE,
+            ),
+          );
+        }
+      exported.forEach((o) => entries.push(...this.orderFees(o)));
+      resumed.result.orders.forEach(([o, fees]) =>
+        entries.push(...this.orderFees(o, fees)),
+      );
+      deposits.result.items
+        .filter((d) => inRange(d.event_time))
+        .forEach((d) =>
+          entries.push(
+            this.entry(
+              {
+                time: d.event_time ?? 0,
+                kind: LedgerEntryKind.DEPOSIT,
+                txHash: d.tx_hash,
+                reference: String(d.event_idx),
+                memo: `from ${d.funder}`,
+              },
+              this.getToken(d.token_address),
+              BigInt(d.amount),
+              LedgerAccount.EXCHANGE,
+              LedgerAccount.EXTERNAL,
+            ),
+          ),
+        );
+      withdrawals.result.items
+        .filter((w) => inRange(w.event_time))
+        .forEach((w) => {
+          const common = {
+            time: w.event_time ?? 0,
+            txHash: w.tx_hash,
+            reference: String(w.event_idx),
+          };
+          entries.push(
+            this.entry(
+              {
+                ...common,
+                kind: LedgerEntryKind.WITHDRAWAL,
+                memo: `to ${w.receiver}`,
+              },
+              this.getToken(w.token_address),
+              BigInt(w.amount),
+              LedgerAccount.EXTERNAL,
+              LedgerAccount.EXCHANGE,
+            ),
+          );
+          if (BigInt(w.spent_gas || 0) > 0n)
+            entries.push(
+              this.entry(
+                { ...common, kind: LedgerEntryKind.GAS, memo: "withdrawal" },
+                w.gas_token,
+                BigInt(w.spent_gas),
+                LedgerAccount.GAS,
+                LedgerAccount.EXCHANGE,
+              ),
+            );
+        });
+      return {
+        result: {
+          trader: this.trader,
+          entries: entries.sort(compareEntries),
+          cursor: {
+            orders: ordersCursor,
+            deposits: deposits.result.cursor,
+            withdrawals: withdrawals.result.cursor,
+            openOrders,
+          },
+        },
+      };
+    } catch (e: any) {
+      return internalErrorResult(e);
+    }
+  }
+
+  /**
+   * Walks the stream from oldest to latest starting after cursor
+   * @returns walked items and cursor of the last of them
+   */
+  private async walk<T>(
+    cursor: string | null,
+    key: (item: T) => string,
+    iterate: (cursor: string | null) => AsyncIterable<T>,
+  ): Promise<Result<{ items: T[]; cursor: string | null }>> {
+    const res = await collect(iterate(cursor));
+    if (res.result === undefined) return { ...res, result: undefined };
+    const items = res.result;
+    return {
+      result: {
+        items,
+        cursor: items.length > 0 ? key(items[items.length - 1]) : cursor,
+      },
+    };
+  }
+
+  /**
+   * Re-fetches orders that could be filled after previous export
+   * @returns orders rolled up since then with fees exported before, their visible trades and orders to keep tracking
+   */
+  private async resumeOpenOrders(open: LedgerOpenOrder[]): Promise<
+    Result<{
+      orders: [DbOrder, string[]][];
+      trades: DbTrade[];
+      open: LedgerOpenOrder[];
+    }>
+  > {
+    const now = Math.floor(Date.now() / 1000);
+    const rolledUp: [DbOrder, LedgerOpenOrder][] = [];
+    const keep: LedgerOpenOrder[] = [];
+    for (const state of open) {
+      const res = await this.indexer.getTraderOrder(this.trader, state.hash);
+      if (res.result === undefined) return { ...res, result: undefined };
+      const order = res.result;
+      if (order.tx_hash && order.tx_hash !== state.txHash)
+        rolledUp.push([order, state]);
+      else if (!isOrderDone(order, now)) keep.push(state);
+    }
+    const trades = await fetchOrderTrades(
+      this.indexer,
+      rolledUp.map(([o]) => o),
+    );
+    if (trades.result === undefined) return { ...trades, result: undefined };
+    const traded = new Set(
+      trades.result.flatMap((t) => [t.maker_hash, t.taker_hash]),
+    );
+    const orders: [DbOrder, string[]][] = [];
+    for (const [order, state] of rolledUp) {
+      // new fills are not visible yet, they are exported on next resume
+      if (!traded.has(order.order_hash)) keep.push(state);
+      else {
+        orders.push([order, state.fees]);
+        if (!isOrderDone(order, now)) keep.push(this.openOrder(order));
+      }
+    }
+    const hashes = new Set(orders.map(([o]) => o.order_hash));
+    return {
+      result: {
+        orders,
+        trades: trades.result.filter(
+          (t) => hashes.has(t.maker_hash) || hashes.has(t.taker_hash),
+        ),
+        open: keep,
+      },
+    };
+  }
+
+  private openOrder(order: DbOrder): LedgerOpenOrder {
+    return {
+      hash: order.order_hash,
+      txHash: order.tx_hash,
+      fees: feeLegs(order).map(([, , , amount]) => amount.toString()),
+    };
+  }
+
+  /**
+   * @param order - order to export fees of
+   * @param exported - raw amounts of fees exported before, only the rest is exported
+   */
+  private orderFees(order: DbOrder, exported: string[] = []): LedgerEntry[] {
+    const entries: LedgerEntry[] = [];
+    const common = {
+      time: order.created_at,
+      txHash: order.tx_hash,
+      reference: order.order_hash,
+    };
+    feeLegs(order).forEach(([leg, kind, token, total], i) => {
+      const amount = total - BigInt(exported[i] ?? 0);
+      if (amount <= 0n) return;
+      entries.push(
+        this.entry(
+          { ...common, kind, leg, memo: leg },
+          token,
+          amount,
+          kind === LedgerEntryKind.GAS ? LedgerAccount.GAS : LedgerAccount.FEES,
+          LedgerAccount.EXCHANGE,
+        ),
+      );
+    });
+    return entries;
+  }
+
+  private entry(
+    info: {
+      time: number;
+      kind: LedgerEntryKind;
+      txHash: string;
+      reference: string;
+      leg?: string;
+      usdValue?: string;
+      memo?: string;
+    },
+    token: ERC20Token,
+    rawAmount: bigint,
+    debit: LedgerAccount,
+    credit: LedgerAccount,
+  ): LedgerEntry {
+    const decimals = this.erc20ToDecimals[token];
+    if (decimals === undefined)
+      throw new Error(`Unknown decimals of token ${token}`);
+    const { leg, ...rest } = info;
+    return {
+      ...rest,
+      id: [info.kind, info.txHash, info.reference, leg ?? "0"].join(":"),
+      token,
+      rawAmount,
+      amount: bigIntToFormattedDecimal(rawAmount, decimals),
+      debit,
+      credit,
+    };
+  }
+
+  private getToken(address: Address): ERC20Token {
+    return this.options.tokenAddresses?.[address] ?? address;
+  }
+}
+
+function tradesOf(order: DbOrder): number {
+  return (order.trades_as_taker ?? 0) + (order.trades_as_maker ?? 0);
+}
+
+function feeLegs(
+  order: DbOrder,
+): [string, LedgerEntryKind, ERC20Token, bigint][] {
+  const sum = (amounts: string[]) =>
+    amounts.reduce((acc, a) => acc + BigInt(a || 0), 0n);
+  return [
+    [
+      "exchange",
+      LedgerEntryKind.FEE,
+      order.fixed_fee_token,
+      sum([order.paid_as_maker_exchange, order.paid_as_taker_exchange]),
+    ],
+    [
+      "router",
+      LedgerEntryKind.FEE,
+      order.fixed_fee_token,
+      sum([order.paid_as_maker_router, order.paid_as_taker_router]),
+    ],
+    ["gas", LedgerEntryKind.GAS, order.gas_token, sum([order.paid_gas])],
+  ];
+}
+
+/**
+ * Whether order can not be filled anymore: it is market order, expired or fully filled.
+ * Indexer does not report cancellation, so cancelled partially filled order is tracked until it expires
+ */
+function isOrderDone(order: DbOrder, now: number): boolean {
+  if (order.is_market_order || order.created_at + order.duration_valid < now)
+    return true;
+  // fees are charged in received token
+  const [exchange, router] = feeLegs(order).map(([, , , amount]) => amount);
+  const received = BigInt(order.received || 0) + exchange + router;
+  const spent = BigInt(order.spent || 0);
+  const [base, quote] = order.is_sell_side
+    ? [spent, received]
+    : [received, spent];
+  return BigInt(order.qty_base || 0) !== 0n
+    ? base >= BigInt(order.qty_base)
+    : quote >= BigInt(order.qty_quote || 0);
+}
+
+function compareEntries(a: LedgerEntry, b: LedgerEntry): number {
+  if (a.time !== b.time) return a.time - b.time;
+  const kind = KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind);
+  if (kind !== 0) return kind;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+const CSV_COLUMNS: (keyof LedgerEntry)[] = [
+  "id",
+  "time",
+  "kind",
+  "txHash",
+  "reference",
+  "token",
+  "rawAmount",
+  "amount",
+  "debit",
+  "credit",
+  "usdValue",
+  "memo",
+];
+
+/**
+ * Formats ledger entries as CSV
+ * @param entries - entries returned by LedgerExporter.export
+ */
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+  const rows = entries.map((e) =>
+    CSV_COLUMNS.map((c) => (e[c] === undefined ? "" : String(e[c]))).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+/**
+ * Formats ledger entries as JSON, raw amounts are stringified
+ * @param entries - entries returned by LedgerExporter.export
+ */
+export function ledgerToJson(entries: LedgerEntry[]): string {
+  return JSON.stringify(entries, bigIntReplacer);
+}
@@ -0,0 +1,433 @@
+import { IndexerAPI } from "../api/indexer/Indexer";
+import { collect } from "../api/indexer/pagination";
+import { DbOrder } from "../api/indexer/types";
+import { OrderTracker, TrackedOrder } from "../api/websocket/OrderTracker";
+import { ExchangeTicker } from "../api/websocket/types";
+import { getPairKey } from "../api/websocket/utils";
+import { internalErrorResult } from "../api/errors";
+import { ERC20Token, TradedPair } from "../request_types";
+import { Result } from "../response_types";
+import { Address } from "../types";
+import { fetchOrderTrades } from "./utils";
+
+/**
+ * Represents how closing fills are matched against open lots of the position
+ */
+export enum CostBasisMethod {
+  FIFO = "fifo", // oldest lots are closed first
+  LIFO = "lifo", // newest lots are closed first
+  AVERAGE = "average", // position is kept as single lot with average price
+}
+
+/**
+ * Represents fill of the order of the trader
+ */
+export interface PnLFill {
+  orderHash: string;
+  pair: TradedPair;
+  isSellSide: boolean;
+  baseQty: bigint;
+  quoteQty: bigint;
+}
+
+/**
+ * Represents accounting of the traded pair, all quote amounts are in quote token of the pair
+ */
+export interface PairPnL {
+  pair: TradedPair;
+  position: bigint; // signed base quantity, negative for short position
+  costBasis: bigint; // quote amount of open lots
+  avgPrice?: bigint; // average price of open position per base asset, undefined if flat
+  realized: bigint; // realized PnL
+  markPrice?: bigint; // last price set by setMarkPrice
+  unrealized?: bigint; // PnL of open position at mark price, undefined if mark price is not set
+  boughtBase: bigint;
+  boughtQuote: bigint;
+  soldBase: bigint;
+  soldQuote: bigint;
+  fills: number;
+}
+
+/**
+ * Represents fees and gas paid by the trader per token
+ */
+export interface FeeBreakdown {
+  exchange: Record<ERC20Token, bigint>; // exchange fees as maker and taker
+  router: Record<ERC20Token, bigint>; // router fees as maker and taker
+  gas: Record<ERC20Token, bigint>;
+}
+
+/**
+ * Represents snapshot of accounting of the trader
+ */
+export interface PnLReport {
+  trader: Address;
+  method: CostBasisMethod;
+  pairs: PairPnL[];
+  fees: FeeBreakdown;
+  generatedAt: number; // in milliseconds
+}
+
+/**
+ * Represents optional parameters of the PnLEngine
+ */
+export interface PnLEngineOptions {
+  method?: CostBasisMethod; // FIFO by default
+  baseAsset?: bigint; // raw amount of the base asset representing 1 unit if order does not specify it, 10^18 by default
+  pageSize?: number; // orders queried from indexer per request, 50 by default
+}
+
+interface Lot {
+  baseQty: bigint;
+  quoteQty: bigint;
+}
+
+interface PairState {
+  pnl: PairPnL;
+  lots: Lot[];
+  baseAsset: bigint;
+}
+
+/**
+ * The PnLEngine class turns fills of the trader into per pair positions, cost basis, realized and unrealized PnL,
+ * using FIFO, LIFO or average cost method.
+ * History is loaded from the indexer: orders of the trader and trades of their rollup transactions,
+ * live fills are taken from execution reports of attached OrderTracker.
+ * Fills are deduplicated by accumulated quantities of the order, so both sources can be combined
+ * @category Main Classes
+ */
+export class PnLEngine {
+  private indexer?: IndexerAPI;
+  private readonly trader: Address;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: PnLEngineOptions;
+  /**
+   * Pair key to its accounting
+   */
+  private pairs: Map<string, PairState> = new Map();
+  /**
+   * Order hash to its base and quote quantities already accounted
+   */
+  private applied: Map<string, Lot> = new Map();
+  private fees: FeeBreakdown = { exchange: {}, router: {}, gas: {} };
+  private feesApplied: Set<string> = new Set();
+
+  /**
+   * Creates an instance of PnLEngine.
+   * @param indexer - indexer to load history from, optional if only live fills are accounted
+   * @param trader - trading account
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    indexer: IndexerAPI | undefined,
+    trader: Address,
+    logger?: (arg: string) => void,
+    options: PnLEngineOptions = {},
+  ) {
+    this.indexer = indexer;
+    this.trader = trader;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+  }
+
+  /**
+   * Pages through all orders of the trader in the indexer and accounts their trades and fees, oldest first
+   * @param ticker - optional to load history of the particular ticker
+   * @returns number of accounted fills
+   */
+  public async load(ticker?: ExchangeTicker): Promise<Result<number>> {
+    if (this.indexer === undefined) return { result: 0 };
+    const res = await collect(
+      this.indexer.iterateTraderOrders(
+        {
+          trader: this.trader,
+          pair:
+            ticker === undefined
+              ? null
+              : {
+                  base: ticker.pair.base,
+                  quote: ticker.pair.quote,
+                  is_ecosystem_book: ticker.isEcosystemBook,
+                },
+          skip_dependant_orders: false,
+        },
+        { pageSize: this.options.pageSize },
+      ),
+    );
+    if (res.result === undefined) return { ...res, result: undefined };
+    const orders = res.result;
+    const byHash = new Map(orders.map((o) => [o.order_hash, o]));
+    const tradesRes = await fetchOrderTrades(this.indexer, orders);
+    if (tradesRes.result === undefined)
+      return { ...tradesRes, result: undefined };
+
+    try {
+      // base quantity of trades of the order seen during this load
+      const loaded: Map<string, bigint> = new Map();
+      let count = 0;
+      for (const trade of tradesRes.result)
+        for (const hash of [trade.maker_hash, trade.taker_hash]) {
+          const order = byHash.get(hash);
+          if (order === undefined) continue;
+          const fill = {
+            orderHash: hash,
+            pair: { base: trade.ticker[0], quote: trade.ticker[1] },
+            isSellSide: order.is_sell_side,
+            baseQty: BigInt(trade.amount_base),
+            quoteQty: BigInt(trade.amount_quote),
+          };
+          if (order.base_asset)
+            this.getState(fill.pair).baseAsset = BigInt(order.base_asset);
+          if (this.applyTrade(fill, loaded)) count += 1;
+        }
+      orders.forEach((o) => this.applyFees(o));
+      return { result: count };
+    } catch (e: any) {
+      return internalErrorResult(e);
+    }
+  }
+
+  /**
+   * Accounts fills of orders from execution reports received by the tracker
+   * @param tracker - tracker of orders of the trading account
+   */
+  public attach(tracker: OrderTracker) {
+    tracker.onUpdate((order) => this.applyOrder(order));
+  }
+
+  /**
+   * Accounts fill of the order, fills with accumulated quantities not exceeding already accounted ones are ignored
+   * @param order - state of the order
+   */
+  public applyOrder(order: TrackedOrder) {
+    if (order.pair === undefined || order.isSellSide === undefined) return;
+    const prev = this.applied.get(order.hash) ?? { baseQty: 0n, quoteQty: 0n };
+    if (order.accBaseQty <= prev.baseQty) return;
+    this.addFill({
+      orderHash: order.hash,
+      pair: order.pair,
+      isSellSide: order.isSellSide,
+      baseQty: order.accBaseQty - prev.baseQty,
+      quoteQty: order.accQuoteQty - prev.quoteQty,
+    });
+  }
+
+  /**
+   * Accounts fill of the order
+   * @param fill - fill to account
+   */
+  public addFill(fill: PnLFill) {
+    const prev = this.applied.get(fill.orderHash) ?? {
+      baseQty: 0n,
+      quoteQty: 0n,
+    };
+    this.applied.set(fill.orderHash, {
+      baseQty: prev.baseQty + fill.baseQty,
+      quoteQty: prev.quoteQty + fill.quoteQty,
+    });
+    this.account(fill);
+  }
+
+  /**
+   * Sets price used to calculate unrealized PnL of the pair
+   * @param pair - traded pair
+   * @param price - price per base asset in quote token
+   */
+  public setMarkPrice(pair: TradedPair, price: bigint) {
+    this.getState(pair).pnl.markPrice = price;
+  }
+
+  /**
+   * Returns accounting of the pair
+   * @param pair - traded pair
+   */
+  public getPairPnL(pair: TradedPair): PairPnL | undefined {
+    const state = this.pairs.get(getPairKey(pair));
+    return state === undefined ? undefined : this.toPnL(state);
+  }
+
+  /**
+   * @returns fees and gas paid per token
+   */
+  public getFees(): FeeBreakdown {
+    return {
+      exchange: { ...this.fees.exchange },
+      router: { ...this.fees.router },
+      gas: { ...this.fees.gas },
+    };
+  }
+
+  /**
+   * @returns snapshot of accounting of all pairs
+   */
+  public getReport(): PnLReport {
+    return {
+      trader: this.trader,
+      method: this.options.method ?? CostBasisMethod.FIFO,
+      pairs: [...this.pairs.values()].map((s) => this.toPnL(s)),
+      fees: this.getFees(),
+      generatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Accounts part of the trade that was not accounted yet, by earlier load or from execution reports
+   */
+  private applyTrade(fill: PnLFill, loaded: Map<string, bigint>): boolean {
+    const seen = loaded.get(fill.orderHash) ?? 0n;
+    loaded.set(fill.orderHash, seen + fill.baseQty);
+    const skip = (this.applied.get(fill.orderHash)?.baseQty ?? 0n) - seen;
+    if (skip >= fill.baseQty) return false;
+    if (skip <= 0n) {
+      this.addFill(fill);
+      return true;
+    }
+    const quoteSkip = (fill.quoteQty * skip) / fill.baseQty;
+    this.addFill({
+      ...fill,
+      baseQty: fill.baseQty - skip,
+      quoteQty: fill.quoteQty - quoteSkip,
+    });
+    return true;
+  }
+
+  private applyFees(order: DbOrder) {
+    if (this.feesApplied.has(order.order_hash)) return;
+    this.feesApplied.add(order.order_hash);
+    const add = (
+      bucket: Record<ERC20Token, bigint>,
+      token: ERC20Token,
+      amounts: string[],
+    ) => {
+      const sum = amounts.reduce((acc, a) => acc + BigInt(a || 0), 0n);
+      if (sum !== 0n) bucket[token] = (bucket[token] ?? 0n) + sum;
+    };
+    add(this.fees.exchange, order.fixed_fee_token, [
+      order.paid_as_maker_exchange,
+      order.paid_as_taker_exchange,
+    ]);
+    add(this.fees.router, order.fixed_fee_token, [
+      order.paid_as_maker_router,
+      order.paid_as_taker_router,
+    ]);
+    add(this.fees.gas, order.gas_token, [order.paid_gas]);
+  }
+
+  private account(fill: PnLFill) {
+    const state = this.getState(fill.pair);
+    const pnl = state.pnl;
+    pnl.fills += 1;
+    if (fill.isSellSide) {
+      pnl.soldBase += fill.baseQty;
+      pnl.soldQuote += fill.quoteQty;
+    } else {
+      pnl.boughtBase += fill.baseQty;
+      pnl.boughtQuote += fill.quoteQty;
+    }
+    const isLong = pnl.position > 0n;
+    const closes = pnl.position !== 0n && isLong === fill.isSellSide;
+    let base = fill.baseQty;
+    let quote = fill.quoteQty;
+    if (closes) {
+      const method = this.options.method ?? CostBasisMethod.FIFO;
+      while (base > 0n && state.lots.length > 0) {
+        const idx = method === CostBasisMethod.LIFO ? state.lots.length - 1 : 0;
+        const lot = state.lots[idx];
+        const take = base < lot.baseQty ? base : lot.baseQty;
+        const lotCost =
+          take === lot.baseQty
+            ? lot.quoteQty
+            : (lot.quoteQty * take) / lot.baseQty;
+        const fillQuote = take === base ? quote : (quote * take) / base;
+        pnl.realized += isLong ? fillQuote - lotCost : lotCost - fillQuote;
+        lot.baseQty -= take;
+        lot.quoteQty -= lotCost;
+        if (lot.baseQty === 0n) state.lots.splice(idx, 1);
+        base -= take;
+        quote -= fillQuote;
+      }
+    }
+    // rest of the fill opens or extends position in its direction
+    if (base > 0n) {
+      if (this.options.method === CostBasisMethod.AVERAGE && state.lots.length)
+        state.lots[0] = {
+          baseQty: state.lots[0].baseQty + base,
+          quoteQty: state.lots[0].quoteQty + quote,
+        };
+      else state.lots.push({ baseQty: base, quoteQty: quote });
+    }
+    pnl.position += fill.isSellSide ? -fill.baseQty : fill.baseQty;
+  }
+
+  private toPnL(state: PairState): PairPnL {
+    const pnl = { ...state.pnl };
+    const size = pnl.position < 0n ? -pnl.position : pnl.position;
+    pnl.costBasis = state.lots.reduce((acc, l) => acc + l.quoteQty, 0n);
+    pnl.avgPrice =
+      size === 0n ? undefined : (pnl.costBasis * state.baseAsset) / size;
+    if (pnl.markPrice !== undefined) {
+      const markValue = (size * pnl.markPrice) / state.baseAsset;
+      pnl.unrealized =
+        pnl.position >= 0n
+          ? markValue - pnl.costBasis
+          : pnl.costBasis - markValue;
+    }
+    return pnl;
+  }
+
+  private getState(pair: TradedPair): PairState {
+    const key = getPairKey(pair);
+    let state = this.pairs.get(key);
+    if (state === undefined) {
+      state = {
+        pnl: {
+          pair,
+          position: 0n,
+          costBasis: 0n,
+          realized: 0n,
+          boughtBase: 0n,
+          boughtQuote: 0n,
+          soldBase: 0n,
+          soldQuote: 0n,
+          fills: 0,
+        },
+        lots: [],
+        baseAsset: this.options.baseAsset ?? 10n ** 18n,
+      };
+      this.pairs.set(key, state);
+    }
+    return state;
+  }
+}
+
+/**
+ * Formats accounting of the pairs of the report as CSV with raw amounts
+ * @param report - report returned by PnLEngine.getReport
+ */
+export function pnlReportToCsv(report: PnLReport): string {
+  const columns: (keyof PairPnL)[] = [
+    "position",
+    "costBasis",
+    "avgPrice",
+    "realized",
+    "markPrice",
+    "unrealized",
+    "boughtBase",
+    "boughtQuote",
+    "soldBase",
+    "soldQuote",
+    "fills",
+  ];
+  const rows = report.pairs.map((p) =>
+    [
+      p.pair.base,
+      p.pair.quote,
+      ...columns.map((c) => (p[c] === undefined ? "" : String(p[c]))),
+    ].join(","),
+  );
+  return [["base", "quote", ...columns].join(","), ...rows].join("\n");
+}
@@ -0,0 +1,297 @@
+import { LayerAkiraHttpAPI } from "../api/http/LayerAkiraHttpAPI";
+import { LayerAkiraUIQuoter } from "../api/http/UIQuoter";
+import { bigIntReplacer } from "../api/http/utils";
+import { IndexerAPI } from "../api/indexer/Indexer";
+import { LayerAkiraContract } from "../api/contract/LayerAkiraContract";
+import { ERC20Contract } from "../api/contract/ERC20Contract";
+import { OrderTracker } from "../api/websocket/OrderTracker";
+import { ErrorReason } from "../api/errors";
+import { ERC20Token, TokenAddressMap } from "../request_types";
+import { Result } from "../response_types";
+import { Address } from "../types";
+
+/**
+ * Represents balance of the token combined from all sources
+ */
+export interface TokenBalance {
+  token: ERC20Token;
+  exchange: bigint; // balance on exchange as seen by exchange, including locked
+  locked: bigint; // part of exchange balance locked by open orders
+  available: bigint; // part of exchange balance that is not locked
+  onchain?: bigint; // balance on exchange contract, undefined if contract is not specified
+  wallet?: bigint; // balance of the wallet, undefined if wallet contract of the token is not specified
+  total: bigint; // exchange plus wallet balance
+  inSync: boolean; // whether exchange and onchain balances match, true if onchain balance is unknown
+  price?: bigint; // price of 1 unit of the token as returned by quoter
+  value?: bigint; // value of the total balance with valueDecimals
+}
+
+/**
+ * Represents sources of balances besides exchange api
+ */
+export interface PortfolioSources {
+  contract?: LayerAkiraContract; // onchain balances on exchange
+  wallets?: Partial<Record<ERC20Token, ERC20Contract>>; // wallet balances
+  walletAddress?: Address; // owner of the wallet, trading account by default
+  quoter?: LayerAkiraUIQuoter; // prices to value holdings
+  indexer?: IndexerAPI; // polled for new deposits and withdrawals
+}
+
+/**
+ * Represents optional parameters of the Portfolio
+ */
+export interface PortfolioOptions {
+  valueDecimals?: number; // decimals of values of holdings, 6 by default
+  refreshDebounceMillis?: number; // refresh caused by execution reports is delayed to batch them, 250 by default
+  pollIntervalMillis?: number; // how often indexer is polled for deposits and withdrawals, 10000 by default
+}
+
+/**
+ * The Portfolio class merges balances of the trading account per token from exchange api, exchange contract and wallet,
+ * values them with quoter prices and flags tokens which exchange and onchain balances differ,
+ * e.g. because trades are not rolled up yet.
+ * Balances are refreshed on execution reports of attached OrderTracker and on new deposits and withdrawals
+ * found by polling the indexer, listeners are notified about every changed token
+ * @category Main Classes
+ */
+export class Portfolio {
+  /**
+   * Http client connection.
+   */
+  private httpClient: LayerAkiraHttpAPI;
+  private readonly tokenMapping: TokenAddressMap;
+  private readonly sources: PortfolioSources;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: PortfolioOptions;
+  /**
+   * Token to its combined balance
+   */
+  private balances: Map<ERC20Token, TokenBalance> = new Map();
+  /**
+   * Listeners that are notified on every change of balance of any token
+   */
+  private listeners: Array<
+    (balance: TokenBalance, prev: TokenBalance | undefined) => void
+  > = [];
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private lastTransfers: string | undefined;
+
+  /**
+   * Creates an instance of Portfolio.
+   * @param httpClient - Http client instance with credentials set
+   * @param tokenMapping - tokens to track and their addresses, e.g. tokenMapping of SDKConfiguration
+   * @param sources - optional sources of balances and prices
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    httpClient: LayerAkiraHttpAPI,
+    tokenMapping: TokenAddressMap,
+    sources: PortfolioSources = {},
+    logger?: (arg: string) => void,
+    options: PortfolioOptions = {},
+  ) {
+    this.httpClient = httpClient;
+    this.tokenMapping = tokenMapping;
+    this.sources = sources;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+  }
+
+  /**
+   * Loads balances and starts polling indexer for deposits and withdrawals if it is specified
+   * @returns combined balances
+   */
+  public async run(): Promise<Result<TokenBalance[]>> {
+    const res = await this.refresh();
+    if (this.sources.indexer !== undefined && this.pollTimer === undefined) {
+      await this.pollTransfers();
+      this.pollTimer = setInterval(
+        () => this.pollTransfers(),
+        this.options.pollIntervalMillis ?? 10_000,
+      );
+    }
+    return res;
+  }
+
+  /**
+   * Stops polling and pending refreshes
+   */
+  public stop() {
+    clearInterval(this.pollTimer);
+    clearTimeout(this.refreshTimer);
+    this.pollTimer = undefined;
+    this.refreshTimer = undefined;
+  }
+
+  /**
+   * Refreshes balances on every update of orders of the tracker
+   * @param tracker - tracker of orders of the trading account
+   */
+  public attach(tracker: OrderTracker) {
+    tracker.onUpdate(() => this.scheduleRefresh());
+  }
+
+  /**
+   * Registers listener that is notified on every change of balance of any token
+   * @param listener - callback to invoke with new and previous balances
+   */
+  public onChange(
+    listener: (balance: TokenBalance, prev: TokenBalance | undefined) => void,
+  ) {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Returns combined balance of the token
+   * @param token - token
+   */
+  public getBalance(token: ERC20Token): TokenBalance | undefined {
+    const balance = this.balances.get(token);
+    return balance === undefined ? undefined : { ...balance };
+  }
+
+  /**
+   * @returns combined balances of all tokens
+   */
+  public getBalances(): TokenBalance[] {
+    return [...this.balances.values()].map((b) => ({ ...b }));
+  }
+
+  /**
+   * @returns tokens which exchange and onchain balances differ
+   */
+  public getDiscrepancies(): TokenBalance[] {
+    return this.getBalances().filter((b) => !b.inSync);
+  }
+
+  /**
+   * @returns value of all holdings with valueDecimals, tokens without price are skipped
+   */
+  public getTotalValue(): bigint {
+    return this.getBalances().reduce((acc, b) => acc + (b.value ?? 0n), 0n);
+  }
+
+  /**
+   * Queries all sources and updates balances, failed optional sources keep their previous values
+   * @returns combined balances
+   */
+  public async refresh(): Promise<Result<TokenBalance[]>> {
+    const account = this.httpClient.getTradingAccount();
+    if (account === undefined)
+      return {
+        error: "Trading account is not set",
+        reason: ErrorReason.AUTH,
+      };
+    const tokens = Object.keys(this.tokenMapping);
+    const { contract, wallets, quoter } = this.sources;
+    const walletAddress = this.sources.walletAddress ?? account;
+    const [info, onchain, walletBalances, prices] = await Promise.all([
+      this.httpClient.getUserInfo(),
+      contract?.balancesOf(
+        account,
+        tokens.map((t) => this.tokenMapping[t]),
+      ),
+      Promise.all(tokens.map((t) => wallets?.[t]?.balanceOf(walletAddress))),
+      quoter?.getPrices(tokens),
+    ]);
+    if (info.result === undefined) return { ...info, result: undefined };
+    [onchain, prices, ...walletBalances].forEach((res) => {
+      if (res?.error !== undefined)
+        this.logger(`Failed to query balances source: ${res.error}`);
+    });
+
+    tokens.forEach((token, i) => {
+      const prev = this.balances.get(token);
+      const offchain = info.result!.balances.find((b) => b.token === token);
+      const exchange = offchain?.balance ?? 0n;
+      const locked = offchain?.locked ?? 0n;
+      const onchainBalance =
+        contract === undefined
+          ? undefined
+          : onchain?.result?.[i] ?? prev?.onchain;
+      const wallet =
+        wallets?.[token] === undefined
+          ? undefined
+          : walletBalances[i]?.result ?? prev?.wallet;
+      const price =
+        (prices?.result?.[token] as bigint | undefined) ?? prev?.price;
+      const total = exchange + (wallet ?? 0n);
+      this.set({
+        token,
+        exchange,
+        locked,
+        available: exchange - locked,
+        onchain: onchainBalance,
+        wallet,
+        total,
+        inSync: onchainBalance === undefined || onchainBalance === exchange,
+        price,
+        value:
+          price === undefined ? undefined : this.getValue(token, total, price),
+      });
+    });
+    return { result: this.getBalances() };
+  }
+
+  private getValue(token: ERC20Token, amount: bigint, price: bigint) {
+    const decimals = BigInt(this.sources.quoter?.erc20ToDecimals[token] ?? 18);
+    const valueDecimals = BigInt(this.options.valueDecimals ?? 6);
+    // both amount and price are scaled by decimals of the token
+    return (amount * price * 10n ** valueDecimals) / 10n ** (2n * decimals);
+  }
+
+  private set(balance: TokenBalance) {
+    const prev = this.balances.get(balance.token);
+    this.balances.set(balance.token, balance);
+    if (
+      prev !== undefined &&
+      JSON.stringify(prev, bigIntReplacer) ===
+        JSON.stringify(balance, bigIntReplacer)
+    )
+      return;
+    this.listeners.forEach((listener) => {
+      try {
+        listener({ ...balance }, prev === undefined ? undefined : { ...prev });
+      } catch (e) {
+        this.logger(`Error in balance listener for ${balance.token}: ${e}`);
+      }
+    });
+  }
+
+  private scheduleRefresh() {
+    if (this.refreshTimer !== undefined) return;
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = undefined;
+      const res = await this.refresh();
+      if (res.error !== undefined)
+        this.logger(`Failed to refresh balances: ${res.error}`);
+    }, this.options.refreshDebounceMillis ?? 250);
+  }
+
+  private async pollTransfers() {
+    const trader = this.httpClient.getTradingAccount();
+    if (this.sources.indexer === undefined || trader === undefined) return;
+    const [deposits, withdrawals] = await Promise.all([
+      this.sources.indexer.getTraderDeposits({ trader, num: 1 }),
+      this.sources.indexer.getTraderWithdrawals({ trader, num: 1 }),
+    ]);
+    if (deposits.result === undefined || withdrawals.result === undefined) {
+      this.logger(
+        `Failed to query transfers: ${deposits.error ?? withdrawals.error}`,
+      );
+      return;
+    }
+    const latest = [deposits.result.data[0], withdrawals.result.data[0]]
+      .map((t) => (t === undefined ? "" : `${t.tx_hash}_${t.event_idx}`))
+      .join();
+    const changed =
+      this.lastTransfers !== undefined && this.lastTransfers !== latest;
+    this.lastTransfers = latest;
+    if (changed) this.scheduleRefresh();
+  }
+}
@@ -0,0 +1,323 @@
+import { OrderTracker, isTerminalStatus } from "../api/websocket/OrderTracker";
+import { ExchangeTicker } from "../api/websocket/types";
+import { getPairKey } from "../api/websocket/utils";
+import { ErrorReason } from "../api/errors";
+import { OrderSide, STPMode } from "../request_types";
+import { Result } from "../response_types";
+import { Trader } from "./Trader";
+
+/**
+ * Represents single post-only order of the target ladder
+ */
+export interface QuoteLevel {
+  side: OrderSide;
+  price: bigint;
+  baseQty: bigint;
+}
+
+/**
+ * Represents post-only order placed by the QuoteManager
+ */
+export interface LiveQuote extends QuoteLevel {
+  hash: string;
+  ticker: ExchangeTicker;
+  remainingQty: bigint; // base quantity that is not filled yet
+}
+
+/**
+ * Represents action taken by the QuoteManager on stop or disconnection to pull its quotes
+ */
+export enum KillSwitchMode {
+  NONE = "none",
+  CANCEL_ALL = "cancel_all", // cancel all orders of every quoted ticker
+  INCREASE_NONCE = "increase_nonce", // invalidate all orders of the trading account onchain
+}
+
+/**
+ * Represents outcome of reconciliation of the ladder of the ticker
+ */
+export interface QuoteUpdate {
+  placed: string[]; // hashes of placed orders
+  cancelled: string[]; // hashes of cancelled orders
+  kept: string[]; // hashes of orders that already match target ladder
+  errors: string[]; // errors of failed places and cancels, they are retried on next reconciliation
+}
+
+/**
+ * Represents optional parameters of the QuoteManager
+ */
+export interface QuoteManagerOptions {
+  minUpdateIntervalMillis?: number; // updates of the ticker are coalesced and sent not more often than that, 500 by default
+  stp?: STPMode; // self-trade prevention mode of placed orders
+  qtyToleranceBips?: number; // partially filled order is kept while its remaining quantity is within tolerance, 0 by default
+  baseAsset?: bigint; // raw amount of the base asset representing 1 unit, 10^18 by default
+  killSwitch?: KillSwitchMode; // action on stop and disconnect, CANCEL_ALL by default
+  killOnDisconnect?: boolean; // run kill switch and halt quoting when execution reports stream disconnects, true by default
+}
+
+interface TickerState {
+  ticker: ExchangeTicker;
+  target: QuoteLevel[];
+  lastUpdate: number;
+  timer?: ReturnType<typeof setTimeout>;
+  running?: Promise<Result<QuoteUpdate>>;
+  dirty: boolean; // target changed while reconciliation was running
+}
+
+/**
+ * The QuoteManager class keeps target ladders of post-only orders per ticker on the exchange.
+ * On every change of the target it diffs ladder against live orders, which state comes from execution reports
+ * tracked by OrderTracker, and issues minimal set of cancels and places via Trader.
+ * Updates are throttled per ticker, intermediate targets are skipped.
+ * On stop, or disconnection of execution reports stream, kill switch is run and quoting is halted until resume
+ * @category Main Classes
+ */
+export class QuoteManager {
+  private trader: Trader;
+  private tracker: OrderTracker;
+  /**
+   * Logger function.
+   */
+  public logger: (arg: string) => void;
+  private readonly options: QuoteManagerOptions;
+  /**
+   * Ticker key to its target ladder
+   */
+  private tickers: Map<string, TickerState> = new Map();
+  /**
+   * Hash to order placed by the manager
+   */
+  private quotes: Map<string, LiveQuote> = new Map();
+  private halted = false;
+
+  /**
+   * Creates an instance of QuoteManager.
+   * @param trader - initialized trader that places and cancels orders
+   * @param tracker - running tracker of orders of the trading account
+   * @param logger - Logger function.
+   * @param options - optional parameters
+   */
+  constructor(
+    trader: Trader,
+    tracker: OrderTracker,
+    logger?: (arg: string) => void,
+    options: QuoteManagerOptions = {},
+  ) {
+    this.trader = trader;
+    this.tracker = tracker;
+    this.logger = logger ?? ((arg: string) => arg);
+    this.options = options;
+    if (options.killOnDisconnect ?? true)
+      tracker.onDisconnect(() => {
+        if (this.halted) return;
+        this.logger(`Execution reports disconnected, running kill switch`);
+        this.halt().catch((e) => this.logger(`Kill switch failed: ${e}`));
+      });
+  }
+
+  /**
+   * Sets target ladder of the ticker, orders are updated in background respecting throttling
+   * @param ticker - ticker to quote
+   * @param levels - target ladder, empty to pull all quotes of the ticker
+   */
+  public setQuotes(ticker: ExchangeTicker, levels: QuoteLevel[]) {
+    const state = this.getState(ticker);
+    state.target = levels;
+    state.dirty = true;
+    if (this.halted || state.timer !== undefined || state.running) return;
+    const wait =
+      state.lastUpdate +
+      (this.options.minUpdateIntervalMillis ?? 500) -
+      Date.now();
+    state.timer = setTimeout(
+      () => {
+        state.timer = undefined;
+        this.reconcile(ticker);
+      },
+      Math.max(wait, 0),
+    );
+  }
+
+  /**
+   * Diffs target ladder of the ticker against live orders immediately and sends cancels and places
+   * @param ticker - ticker to reconcile
+   * @returns outcome of reconciliation
+   */
+  public async reconcile(ticker: ExchangeTicker): Promise<Result<QuoteUpdate>> {
+    if (this.halted)
+      return {
+        error: "Quoting is halted",
+        reason: ErrorReason.VALIDATION,
+      };
+    const state = this.getState(ticker);
+    // concurrent callers take turns, so the ladder is never applied twice at once
+    while (state.running) await state.running;
+    clearTimeout(state.timer);
+    state.timer = undefined;
+    state.dirty = false;
+    state.running = this.apply(state);
+    const res = await state.running;
+    state.running = undefined;
+    state.lastUpdate = Date.now();
+    if (state.dirty) this.setQuotes(ticker, state.target);
+    return res;
+  }
+
+  /**
+   * Returns live orders placed by the manager
+   * @param ticker - ticker of the orders, all tickers if not specified
+   */
+  public getLiveQuotes(ticker?: ExchangeTicker): LiveQuote[] {
+    this.refresh();
+    return [...this.quotes.values()]
+      .filter(
+        (q) => ticker === undefined || this.isSameTicker(q.ticker, ticker),
+      )
+      .map((q) => ({ ...q }));
+  }
+
+  /**
+   * @returns whether quoting is halted by kill switch
+   */
+  public isHalted(): boolean {
+    return this.halted;
+  }
+
+  /**
+   * Resumes quoting after kill switch, target ladders are placed again
+   */
+  public resume() {
+    this.halted = false;
+    this.tickers.forEach((state) => this.setQuotes(state.ticker, state.target));
+  }
+
+  /**
+   * Stops quoting and runs kill switch
+   * @returns result of kill switch
+   */
+  public async stop(): Promise<Result<string[]>> {
+    return await this.halt();
+  }
+
+  private async halt(): Promise<Result<string[]>> {
+    this.halted = true;
+    this.tickers.forEach((state) => {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    });
+    await Promise.all([...this.tickers.values()].map((state) => state.running));
+    const mode = this.options.killSwitch ?? KillSwitchMode.CANCEL_ALL;
+    const results: Result<string>[] = [];
+    if (mode === KillSwitchMode.CANCEL_ALL)
+      for (const state of this.tickers.values())
+        results.push(await this.trader.cancelAll(state.ticker));
+    else if (mode === KillSwitchMode.INCREASE_NONCE)
+      results.push(await this.trader.increaseNonce());
+    const failed = results.find((r) => r.result === undefined);
+    if (failed !== undefined) {
+      this.logger(`Kill switch failed: ${failed.error}`);
+      return { ...failed, result: undefined };
+    }
+    if (mode !== KillSwitchMode.NONE) this.quotes.clear();
+    return { result: results.map((r) => r.result!) };
+  }
+
+  private async apply(state: TickerState): Promise<Result<QuoteUpdate>> {
+    this.refresh();
+    const update: QuoteUpdate = {
+      placed: [],
+      cancelled: [],
+      kept: [],
+      errors: [],
+    };
+    const live = [...this.quotes.values()].filter((q) =>
+      this.isSameTicker(q.ticker, state.ticker),
+    );
+    const toPlace: QuoteLevel[] = [];
+    for (const level of state.target) {
+      const idx = live.findIndex((q) => this.matches(q, level));
+      if (idx < 0) toPlace.push(level);
+      else update.kept.push(live.splice(idx, 1)[0].hash);
+    }
+    // cancels go first, so balance locked by stale quotes is released for new ones
+    for (const quote of live) {
+      const res = await this.trader.cancel(quote.hash);
+      if (res.result === undefined) {
+        update.errors.push(`Cancel ${quote.hash}: ${res.error}`);
+        continue;
+      }
+      this.quotes.delete(quote.hash);
+      update.cancelled.push(quote.hash);
+    }
+    for (const level of toPlace) {
+      const res = await this.trader.placeLimit(
+        state.ticker,
+        level.side,
+        level.price,
+        {
+          base_qty: level.baseQty,
+          quote_qty: 0n,
+          base_asset: this.options.baseAsset ?? 10n ** 18n,
+        },
+        true,
+        this.options.stp ?? STPMode.NONE,
+      );
+      if (res.result === undefined) {
+        update.errors.push(`Place ${level.side} ${level.price}: ${res.error}`);
+        continue;
+      }
+      this.quotes.set(res.result, {
+        ...level,
+        hash: res.result,
+        ticker: state.ticker,
+        remainingQty: level.baseQty,
+      });
+      update.placed.push(res.result);
+    }
+    if (update.errors.length > 0)
+      this.logger(
+        `Quotes of ${getPairKey(state.ticker.pair)} partially updated: ${update.errors}`,
+      );
+    return { result: update };
+  }
+
+  /**
+   * Updates remaining quantities of live orders from execution reports, finished orders are forgotten
+   */
+  private refresh() {
+    for (const quote of [...this.quotes.values()]) {
+      const order = this.tracker.getOrder(quote.hash);
+      if (order === undefined) continue;
+      if (isTerminalStatus(order.status)) {
+        this.quotes.delete(quote.hash);
+        continue;
+      }
+      quote.remainingQty = quote.baseQty - order.accBaseQty;
+    }
+  }
+
+  private matches(quote: LiveQuote, level: QuoteLevel): boolean {
+    if (quote.side !== level.side || quote.price !== level.price) return false;
+    if (quote.remainingQty > level.baseQty) return false;
+    const tolerance =
+      (level.baseQty * BigInt(this.options.qtyToleranceBips ?? 0)) / 10_000n;
+    return level.baseQty - quote.remainingQty <= tolerance;
+  }
+
+  private isSameTicker(a: ExchangeTicker, b: ExchangeTicker): boolean {
+    return (
+      a.isEcosystemBook === b.isEcosystemBook &&
+      getPairKey(a.pair) === getPairKey(b.pair)
+    );
+  }
+
+  private getState(ticker: ExchangeTicker): TickerState {
+    const key = `${getPairKey(ticker.pair)}/${ticker.isEcosystemBook}`;
+    let state = this.tickers.get(key);
+    if (state === undefined) {
+      state = { ticker, target: [], lastUpdate: 0, dirty: false };
+      this.tickers.set(key, state);
+    }
+    return state;
+  }
+}
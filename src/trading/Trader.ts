@@ -0,0 +1,551 @@
+import {
+  AccountInterface,
+  Signature,
+  SignerInterface,
+  TypedData,
+} from "starknet";
+import { LayerAkiraHttpAPI } from "../api/http/LayerAkiraHttpAPI";
+import { ExchangeTicker } from "../api/websocket/types";
+import { LayerAkiraWSSAPI } from "../api/websocket/LayerAkiraWSSAPI";
+import { castToApiSignature } from "../api/http/utils";
+import { ErrorReason, internalErrorResult } from "../api/errors";
+import { SessionManager } from "../api/http/SessionManager";
+import {
+  getCancelAllOnchainOrderSignData,
+  getCancelOrderSignData,
+  getDomain,
+  getOrderSignData,
+  getWithdrawSignData,
+  StarknetDomain,
+} from "../api/signing/snip12";
+import { NULL_ADDRESS } from "../constants";
+import {
+  CancelRequest,
+  ERC20Token,
+  ERCToDecimalsMap,
+  IncreaseNonce,
+  Order,
+  OrderSide,
+  Quantity,
+  SignScheme,
+  STPMode,
+  TradedPair,
+  TraderSignature,
+} from "../request_types";
+import {
+  Result,
+  RouterSpecification,
+  StepsConfiguration,
+  UserInfo,
+} from "../response_types";
+import { SDKConfiguration } from "../sdk";
+import { Address } from "../types";
+import { OrderConstructor } from "../utils/OrderConstructor";
+import { TickerFeeMap } from "../utils/TickerFeeMap";
+import { generateRandomSalt } from "../utils/utils";
+import { WithdrawConstructor } from "../utils/WithdrawConstructor";
+import { signAndPlaceOrder } from "./utils";
+import {
+  ConditionalOrderEngine,
+  ConditionalOrderEngineOptions,
+} from "./ConditionalOrderEngine";
+
+/**
+ * Represents optional parameters of the Trader
+ */
+export interface TraderOptions {
+  signScheme?: SignScheme; // defaults to ACCOUNT if Account passed, ECDSA otherwise
+  exchangeFeeRecipient?: Address; // recipient of exchange trade fees
+  source?: string; // source of orders
+  durationValid?: number; // default validity of orders in seconds
+}
+
+const NOT_INITIALIZED: Result<never> = {
+  error: "Trader is not initialized",
+  reason: ErrorReason.VALIDATION,
+};
+
+/**
+ * The Trader class is a facade that builds, signs and sends trading requests in one call.
+ * It hides typed data domains, sign schemes and router signatures.
+ * Requests are signed depending on sign scheme:
+ *  ECDSA and DIRECT - via Signer over typed data hash of the trading account
+ *  ACCOUNT - via Account, signature is validated by account contract
+ * Before usage trader must be initialized via init which authenticates if there is no jwt and
+ * loads nonce, fees, steps and router specification.
+ * If trader authenticated itself, jwt token is reissued on expiry or rejection via SessionManager
+ * @category Main Classes
+ */
+export class Trader {
+  public readonly httpClient: LayerAkiraHttpAPI;
+  public readonly tradingAccount: Address;
+  public readonly signScheme: SignScheme;
+
+  private readonly config: SDKConfiguration;
+  private readonly domain: StarknetDomain;
+  private readonly signer: SignerInterface | AccountInterface;
+  private readonly options: TraderOptions;
+  private orderConstructor: OrderConstructor | undefined;
+  private withdrawConstructor: WithdrawConstructor | undefined;
+  private steps: StepsConfiguration | undefined;
+  private router: RouterSpecification | undefined;
+  private needsAuth: boolean;
+  private session: SessionManager | undefined;
+  private nonce: number = 0;
+
+  /**
+   * Creates an instance of Trader.
+   * @param config - configuration of the sdk
+   * @param ercToDecimals - maps ERC20Token to its decimals
+   * @param chainId - chain id used in typed data domain
+   * @param signer - starknet Signer or Account that signs requests on behalf of trading account
+   * @param httpClient - optional http client, if not specified new one created from config
+   * @param options - optional parameters
+   */
+  constructor(
+    config: SDKConfiguration,
+    ercToDecimals: ERCToDecimalsMap,
+    chainId: string,
+    signer: SignerInterface | AccountInterface,
+    httpClient?: LayerAkiraHttpAPI,
+    options: TraderOptions = {},
+  ) {
+    this.config = config;
+    this.domain = getDomain(chainId);
+    this.signer = signer;
+    this.options = options;
+    this.httpClient =
+      httpClient ??
+      new LayerAkiraHttpAPI(
+        config,
+        ercToDecimals,
+        config.baseFeeToken,
+        config.logger,
+        config.timeoutMillis,
+        config,
+      );
+    this.needsAuth =
+      httpClient === undefined
+        ? config.jwt === undefined
+        : httpClient.getSigner() === undefined;
+    const account = "address" in signer ? signer.address : undefined;
+    this.tradingAccount = (config.tradingAccount ?? account)!;
+    this.signScheme =
+      options.signScheme ??
+      (account !== undefined ? SignScheme.ACCOUNT : SignScheme.ECDSA);
+  }
+
+  /**
+   * Authenticates if jwt not set yet and loads state required to build requests
+   * @returns user info of the trading account
+   */
+  public async init(): Promise<Result<UserInfo>> {
+    if (this.needsAuth) {
+      const auth = await this.authenticate();
+      if (auth.result === undefined) return { ...auth, result: undefined };
+      this.needsAuth = false;
+    }
+    const [userInfo, steps, router] = await Promise.all([
+      this.httpClient.getUserInfo(),
+      this.httpClient.queryStepsSpecification(),
+      this.httpClient.queryRouterSpecification(),
+    ]);
+    if (steps.result === undefined) return { ...steps, result: undefined };
+    if (router.result === undefined) return { ...router, result: undefined };
+    if (userInfo.result === undefined) return userInfo;
+
+    this.steps = steps.result;
+    this.router = router.result;
+    this.nonce = userInfo.result.nonce;
+    const fees = new TickerFeeMap(
+      [0, 0],
+      userInfo.result.fees.flatMap((f) => [
+        [
+          { pair: { base: f.base, quote: f.quote }, isEcosystemBook: true },
+          f.fee,
+        ],
+        [
+          { pair: { base: f.base, quote: f.quote }, isEcosystemBook: false },
+          f.fee,
+        ],
+      ]),
+    );
+    const exchangeFeeRecipient =
+      this.options.exchangeFeeRecipient ?? NULL_ADDRESS;
+    this.orderConstructor = new OrderConstructor(
+      this.tradingAccount,
+      this.nonce,
+      fees,
+      exchangeFeeRecipient,
+      this.steps.swapEcosystem,
+      this.steps.swapRouter,
+      this.config.baseFeeToken,
+      this.options.source,
+      new TickerFeeMap([
+        this.router.routerMakerPbips,
+        this.router.routerTakerPbips,
+      ]),
+      this.router.routerSigner,
+      this.router.routerFeeRecipient,
+      this.signScheme,
+    );
+    this.withdrawConstructor = new WithdrawConstructor(
+      this.tradingAccount,
+      exchangeFeeRecipient,
+      this.steps.withdraw,
+      this.config.baseFeeToken,
+    );
+    return userInfo;
+  }
+
+  /**
+   * Places limit order into the book
+   * @param ticker - ticker of the order
+   * @param side - side of the order
+   * @param price - limit price
+   * @param qty - quantity of the order
+   * @param postOnly - whether order should be rejected if it would be matched immediately
+   * @param stp - self-trade prevention mode
+   * @returns hash of the placed order
+   */
+  public async placeLimit(
+    ticker: ExchangeTicker,
+    side: OrderSide,
+    price: bigint,
+    qty: Quantity,
+    postOnly: boolean = true,
+    stp: STPMode = STPMode.NONE,
+  ): Promise<Result<string>> {
+    if (this.orderConstructor === undefined) return NOT_INITIALIZED;
+    const gas = await this.httpClient.queryGasPrice();
+    if (gas.result === undefined) return { ...gas, result: undefined };
+    const order = this.orderConstructor.buildOrder(
+      ticker,
+      price,
+      qty,
+      postOnly ? 0 : 10,
+      side,
+      gas.result,
+      false,
+      false,
+      true,
+      postOnly,
+      false,
+      false,
+      0n,
+      this.options.durationValid,
+      this.nonce,
+      undefined,
+      undefined,
+      stp,
+    );
+    return this.placeOrder(order);
+  }
+
+  /**
+   * Places market order that is matched against the book of exchange
+   * @param ticker - ticker of the order
+   * @param side - side of the order
+   * @param protectionPrice - worst price at which order can be filled
+   * @param qty - quantity of the order
+   * @param numberOfSwapsAllowed - max number of trades order can produce
+   * @param fullFillOnly - whether order should be filled entirely or not at all
+   * @returns hash of the placed order
+   */
+  public async placeMarket(
+    ticker: ExchangeTicker,
+    side: OrderSide,
+    protectionPrice: bigint,
+    qty: Quantity,
+    numberOfSwapsAllowed: number = 10,
+    fullFillOnly: boolean = false,
+  ): Promise<Result<string>> {
+    if (this.orderConstructor === undefined) return NOT_INITIALIZED;
+    const gas = await this.httpClient.queryGasPrice();
+    if (gas.result === undefined) return { ...gas, result: undefined };
+    const order = this.orderConstructor.buildOrder(
+      ticker,
+      protectionPrice,
+      qty,
+      numberOfSwapsAllowed,
+      side,
+      gas.result,
+      false,
+      true,
+      true,
+      false,
+      false,
+      fullFillOnly,
+      0n,
+      this.options.durationValid,
+      this.nonce,
+    );
+    return this.placeOrder(order);
+  }
+
+  /**
+   * Swaps via router book, router signature is obtained from exchange
+   * @param pair - traded pair
+   * @param side - side of the swap
+   * @param protectionPrice - worst price at which swap can be filled
+   * @param qty - quantity of the swap
+   * @param minReceiveAmount - minimal amount to receive, aka slippage
+   * @param numberOfSwapsAllowed - max number of trades order can produce
+   * @param externalFunds - whether funds are taken from trader wallet instead of exchange balance
+   * @returns hash of the placed order
+   */
+  public async swap(
+    pair: TradedPair,
+    side: OrderSide,
+    protectionPrice: bigint,
+    qty: Quantity,
+    minReceiveAmount: bigint,
+    numberOfSwapsAllowed: number = 10,
+    externalFunds: boolean = false,
+  ): Promise<Result<string>> {
+    if (this.orderConstructor === undefined) return NOT_INITIALIZED;
+    const gas = await this.httpClient.queryGasPrice();
+    if (gas.result === undefined) return { ...gas, result: undefined };
+    const order = this.orderConstructor.buildSimpleRouterSwap(
+      pair,
+      protectionPrice,
+      qty,
+      numberOfSwapsAllowed,
+      side,
+      gas.result,
+      externalFunds,
+      minReceiveAmount,
+      undefined,
+      undefined,
+      this.options.durationValid,
+      this.nonce,
+    );
+    return this.placeOrder(order);
+  }
+
+  /**
+   * Signs and places order, obtains router signature if order is routed via router
+   * @param order - order to place
+   * @returns hash of the placed order
+   */
+  public async placeOrder(order: Order): Promise<Result<string>> {
+    return await signAndPlaceOrder(this.httpClient, order, (o) =>
+      this.signOrder(o),
+    );
+  }
+
+  /**
+   * Cancels order
+   * @param orderHash - hash of the order
+   * @returns hash of the cancel request
+   */
+  public async cancel(orderHash: string): Promise<Result<string>> {
+    const req: CancelRequest = {
+      maker: this.tradingAccount,
+      order_hash: orderHash,
+      salt: generateRandomSalt(),
+      sign_scheme: this.signScheme,
+    };
+    const sign = await this.sign(
+      getCancelOrderSignData(req, this.domain),
+      req.sign_scheme,
+    );
+    if (sign.result === undefined) return { ...sign, result: undefined };
+    return this.httpClient.cancelOrder(req, sign.result as [string, string]);
+  }
+
+  /**
+   * Cancels all orders of the trader for the ticker
+   * @param ticker - ticker which orders should be cancelled
+   * @returns hash of the cancel request
+   */
+  public async cancelAll(ticker: ExchangeTicker): Promise<Result<string>> {
+    const req: CancelRequest = {
+      maker: this.tradingAccount,
+      order_hash: null,
+      salt: generateRandomSalt(),
+      ticker,
+      sign_scheme: this.signScheme,
+    };
+    const sign = await this.sign(
+      getCancelOrderSignData(req, this.domain, this.config.tokenMapping),
+      req.sign_scheme,
+    );
+    if (sign.result === undefined) return { ...sign, result: undefined };
+    return this.httpClient.cancelAll(req, sign.result);
+  }
+
+  /**
+   * Withdraws funds from exchange, gas is paid in base fee token
+   * @param token - token to withdraw
+   * @param amount - raw amount to withdraw
+   * @param receiver - receiver of funds, trading account by default
+   * @returns hash of the withdraw request
+   */
+  public async withdraw(
+    token: ERC20Token,
+    amount: bigint,
+    receiver?: Address,
+  ): Promise<Result<string>> {
+    if (this.withdrawConstructor === undefined) return NOT_INITIALIZED;
+    const gas = await this.httpClient.queryGasPrice();
+    if (gas.result === undefined) return { ...gas, result: undefined };
+    const req = this.withdrawConstructor.buildWithdraw(
+      token,
+      amount,
+      gas.result,
+      undefined,
+      undefined,
+      receiver,
+      this.signScheme,
+    );
+    const sign = await this.sign(
+      getWithdrawSignData(
+        req,
+        this.domain,
+        this.config.tokenMapping,
+        this.config.coreAddress,
+      ),
+      req.sign_scheme,
+    );
+    if (sign.result === undefined) return { ...sign, result: undefined };
+    return this.httpClient.withdraw(req, sign.result);
+  }
+
+  /**
+   * Increases nonce onchain invalidating all orders with nonce less than new one,
+   * subsequent orders are built with the new nonce
+   * @param newNonce - new nonce, current nonce plus one by default
+   * @returns hash of the request
+   */
+  public async increaseNonce(newNonce?: number): Promise<Result<string>> {
+    if (this.steps === undefined) return NOT_INITIALIZED;
+    const gas = await this.httpClient.queryGasPrice();
+    if (gas.result === undefined) return { ...gas, result: undefined };
+    const req: IncreaseNonce = {
+      maker: this.tradingAccount,
+      new_nonce: newNonce ?? this.nonce + 1,
+      gas_fee: {
+        gas_per_action: this.steps.nonce,
+        fee_token: this.config.baseFeeToken,
+        max_gas_price: gas.result,
+        conversion_rate: [1n, 1n],
+      },
+      salt: generateRandomSalt(),
+      sign_scheme: this.signScheme,
+    };
+    const sign = await this.sign(
+      getCancelAllOnchainOrderSignData(
+        req,
+        this.domain,
+        this.config.tokenMapping,
+      ),
+      req.sign_scheme,
+    );
+    if (sign.result === undefined) return { ...sign, result: undefined };
+    const res = await this.httpClient.increaseNonce(req, sign.result);
+    if (res.result !== undefined) {
+      this.nonce = req.new_nonce;
+      // engines built on top of the constructor sign orders with its default nonce
+      this.orderConstructor?.setTraderNonce(req.new_nonce);
+    }
+    return res;
+  }
+
+  /**
+   * Stops reissuing of jwt token if trader authenticated itself
+   */
+  public stop() {
+    this.session?.stop();
+  }
+
+  /**
+   * Returns order constructor configured for the trader, useful to build orders with custom parameters
+   */
+  public getOrderConstructor(): OrderConstructor {
+    if (this.orderConstructor === undefined)
+      throw new Error("Trader is not initialized");
+    return this.orderConstructor;
+  }
+
+  /**
+   * Creates engine of conditional orders that are built and signed on behalf of the trader
+   * @param wsClient - WebSocket client instance
+   * @param options - optional parameters of the engine
+   */
+  public createConditionalOrderEngine(
+    wsClient: LayerAkiraWSSAPI,
+    options?: ConditionalOrderEngineOptions,
+  ): ConditionalOrderEngine {
+    return new ConditionalOrderEngine(
+      this.httpClient,
+      wsClient,
+      this.getOrderConstructor(),
+      (order) => this.signOrder(order),
+      this.config.logger,
+      options,
+    );
+  }
+
+  private async signOrder(order: Order): Promise<TraderSignature> {
+    const sign = await this.sign(
+      getOrderSignData(
+        order,
+        this.domain,
+        this.config.tokenMapping,
+        this.config.executorAddress,
+      ),
+      order.sign_scheme,
+    );
+    if (sign.result === undefined) throw new Error(sign.error);
+    return sign.result;
+  }
+
+  private async authenticate(): Promise<Result<string>> {
+    const signerKey =
+      this.config.signer ??
+      (await ("address" in this.signer
+        ? this.signer.signer.getPubKey()
+        : this.signer.getPubKey()));
+    this.session?.stop();
+    this.session = new SessionManager(
+      this.httpClient,
+      this.tradingAccount,
+      signerKey,
+      this.domain,
+      async (data) => {
+        const sign = await this.sign(data, this.signScheme);
+        if (sign.result === undefined) throw new Error(sign.error);
+        return sign.result;
+      },
+      undefined,
+      this.config.logger,
+    );
+    return await this.session.start();
+  }
+
+  private async sign(
+    data: TypedData,
+    scheme: SignScheme,
+  ): Promise<Result<TraderSignature>> {
+    try {
+      let signature: Signature;
+      if (scheme === SignScheme.ACCOUNT) {
+        if (!("address" in this.signer))
+          return {
+            error: "Account required for ACCOUNT sign scheme",
+            reason: ErrorReason.VALIDATION,
+          };
+        signature = await this.signer.signMessage(data);
+      } else {
+        const signer =
+          "address" in this.signer ? this.signer.signer : this.signer;
+        signature = await signer.signMessage(data, this.tradingAccount);
+      }
+      return { result: castToApiSignature(signature) };
+    } catch (e: any) {
+      this.config.logger?.(`Failed to sign ${data.primaryType}: ${e}`);
+      return internalErrorResult(e);
+    }
+  }
+}
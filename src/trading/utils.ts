@@ -0,0 +1,91 @@
+import { LayerAkiraHttpAPI } from "../api/http/LayerAkiraHttpAPI";
+import { IndexerAPI } from "../api/indexer/Indexer";
+import { DbOrder, DbTrade } from "../api/indexer/types";
+import { internalErrorResult } from "../api/errors";
+import { NULL_ADDRESS } from "../constants";
+import { Order, TraderSignature } from "../request_types";
+import { Result, Trade } from "../response_types";
+
+/**
+ * Signs order via signer callback and places it, router signature is obtained from exchange
+ * if order is routed via router
+ * @param httpClient - Http client instance with credentials set
+ * @param order - order to place
+ * @param sign - signs order on behalf of trading account, should throw on failure
+ * @returns hash of the placed order
+ */
+export async function signAndPlaceOrder(
+  httpClient: LayerAkiraHttpAPI,
+  order: Order,
+  sign: (order: Order) => Promise<TraderSignature>,
+): Promise<Result<string>> {
+  let routerSign: [string, string] = ["0", "0"];
+  if (
+    !order.flags.to_ecosystem_book &&
+    order.constraints.router_signer !== NULL_ADDRESS
+  ) {
+    const res = await httpClient.signExternalOrder(order);
+    if (res.result === undefined) return { ...res, result: undefined };
+    routerSign = res.result;
+  }
+  let signature: TraderSignature;
+  try {
+    signature = await sign(order);
+  } catch (e: any) {
+    return internalErrorResult(e);
+  }
+  return await httpClient.placeOrder(order, signature, routerSign);
+}
+
+/**
+ * Queries trades of rollup transactions of the orders, failed trades are skipped
+ * @param indexer - indexer instance
+ * @param orders - orders of the trader
+ * @returns trades sorted from oldest to latest, including trades of counterparties from the same transactions
+ */
+export async function fetchOrderTrades(
+  indexer: IndexerAPI,
+  orders: DbOrder[],
+): Promise<Result<DbTrade[]>> {
+  const trades: DbTrade[] = [];
+  const txHashes = new Set(orders.map((o) => o.tx_hash).filter((h) => h));
+  for (const txHash of txHashes) {
+    const res = await indexer.getTradesByTxHash(txHash);
+    if (res.result === undefined) return { ...res, result: undefined };
+    trades.push(...res.result.filter((t) => !t.is_failed));
+  }
+  const block = (t: DbTrade) => t.event_block ?? Number.MAX_SAFE_INTEGER;
+  const txIndex = (t: DbTrade) => t.tx_index ?? Number.MAX_SAFE_INTEGER;
+  return {
+    result: trades.sort(
+      (a, b) =>
+        block(a) - block(b) ||
+        txIndex(a) - txIndex(b) ||
+        a.event_idx - b.event_idx,
+    ),
+  };
+}
+
+/**
+ * Converts trade of the indexer to the trade of the websocket stream
+ * @param trade - trade returned by indexer, amounts are raw
+ * @param baseDecimals - decimals of the base token
+ * @param time - time of the trade in milliseconds, indexer reports only block of the trade
+ * @returns trade with price per base asset in quote token
+ */
+export function dbTradeToTrade(
+  trade: DbTrade,
+  baseDecimals: number,
+  time: number,
+): Trade {
+  const baseQty = BigInt(trade.amount_base);
+  const quoteQty = BigInt(trade.amount_quote);
+  return {
+    price:
+      baseQty === 0n ? 0n : (quoteQty * 10n ** BigInt(baseDecimals)) / baseQty,
+    base_qty: baseQty,
+    quote_qty: quoteQty,
+    is_sell_side: trade.is_sell,
+    time,
+  };
+}
@@ -24,7 +24,7 @@ import { generateRandomSalt } from "./utils";
 export class OrderConstructor {
   public readonly trader: Address;
   public readonly routerSigner: Address;
-  public readonly traderNonce: number;
+  public traderNonce: number;
   public readonly exchangeFeeRecipient: Address;
   public readonly ecosystemGasSteps: number;
   public readonly routerGasSteps: number;
@@ -79,6 +79,14 @@ export class OrderConstructor {
     this.signScheme = sign_scheme;
   }
 
+  /**
+   * Updates nonce used when it is not specified, e.g. after nonce of the trader was increased
+   * @param traderNonce The new nonce of the trader.
+   */
+  public setTraderNonce(traderNonce: number) {
+    this.traderNonce = traderNonce;
+  }
+
   /**
    * Builds a simple router swap order.
    * @param pair The traded pair for the swap.
@@ -401,6 +409,33 @@ export class OrderConstructor {
       router_signer: this.routerSigner,
     };
   }
+  /**
+   * Builds fees of the SOR order, fixed fees are charged by rates of the ticker with the highest taker fee along the path
+   * @param leadTicker The ticker of the first hop.
+   * @param path The rest of hops.
+   * @param gasPriceInChainToken The gas price in the chain token.
+   * @param fixedFeesToReceiptAmount Take fixed fees from receive amount instead of spend amount.
+   * @param gasFeeToken can be specified non-native token
+   * @param conversionRate The conversion rate for the gas fee token if used non-native one.
+   * @returns The fees of the order.
+   */
+  public buildSorFees(
+    leadTicker: ExchangeTicker,
+    path: MinimalTakerOrderInfo[],
+    gasPriceInChainToken: bigint,
+    fixedFeesToReceiptAmount: boolean = true,
+    gasFeeToken?: ERC20Token,
+    conversionRate?: [bigint, bigint],
+  ): OrderFee {
+    return this.buildFees(
+      this.getSorTickerForCharge(leadTicker, path),
+      fixedFeesToReceiptAmount,
+      gasPriceInChainToken,
+      gasFeeToken,
+      conversionRate,
+    );
+  }
+
   private buildFees(
     ticker: ExchangeTicker,
     apply_to_receipt_amount: boolean,
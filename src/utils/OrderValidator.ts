@@ -0,0 +1,178 @@
+import { ERC20Token, Order } from "../request_types";
+import { TickerSpecification, UserInfo } from "../response_types";
+import { getEpochSeconds } from "../api/websocket/utils";
+import { getMatchableAmountInBase } from "./swap";
+
+/**
+ * Represents reasons why order would be rejected by the exchange
+ */
+export enum OrderValidationCode {
+  UNKNOWN_TICKER = "UNKNOWN_TICKER", // no ticker specification for the pair and book
+  ZERO_QTY = "ZERO_QTY", // both base and quote quantities are zero
+  PRICE_TICK = "PRICE_TICK", // price is not multiple of price increment
+  MIN_QTY = "MIN_QTY", // traded amount less than minimal one
+  QTY_INCREMENT = "QTY_INCREMENT", // base quantity is not multiple of quantity increment
+  FLAGS_CONFLICT = "FLAGS_CONFLICT", // order flags that can't be used together
+  EXPIRED = "EXPIRED", // order already expired
+  NONCE_TOO_LOW = "NONCE_TOO_LOW", // order nonce is less than nonce of the trader
+  INSUFFICIENT_BALANCE = "INSUFFICIENT_BALANCE", // not enough free balance on exchange
+}
+
+/**
+ * Represents single violation found by OrderValidator
+ */
+export interface OrderValidationError {
+  code: OrderValidationCode;
+  field: string; // path of the order field that violates the rule, e.g. qty.base_qty
+  message: string; // human-readable description
+}
+
+/**
+ * The OrderValidator class checks orders locally before signing against ticker specifications
+ * and state of the trader, so the order would not be rejected by the exchange with FAILED_VALIDATION
+ * @category Main Classes
+ */
+export class OrderValidator {
+  private readonly tickerSpecifications: TickerSpecification[];
+
+  /**
+   * @param tickerSpecifications - specifications obtained via queryTickerSpecification
+   */
+  constructor(tickerSpecifications: TickerSpecification[]) {
+    this.tickerSpecifications = tickerSpecifications;
+  }
+
+  /**
+   * Validates the order
+   * @param order - order to validate
+   * @param userInfo - optional state of the trader, if specified nonce and balances are validated,
+   * free balance is considered as balance minus locked amount
+   * @param nowSeconds - current epoch time in seconds
+   * @returns list of violations, empty if order is valid
+   */
+  public validate(
+    order: Order,
+    userInfo?: UserInfo,
+    nowSeconds: number = getEpochSeconds(),
+  ): OrderValidationError[] {
+    const errors: OrderValidationError[] = [];
+    const err = (code: OrderValidationCode, field: string, message: string) =>
+      errors.push({ code, field, message });
+
+    const { flags, constraints, qty, price } = order;
+    if (flags.post_only && flags.is_market_order)
+      err(
+        OrderValidationCode.FLAGS_CONFLICT,
+        "flags",
+        "Market order can't be post only",
+      );
+    if (flags.full_fill_only && flags.best_level_only)
+      err(
+        OrderValidationCode.FLAGS_CONFLICT,
+        "flags",
+        "Full fill only order can't be best level only",
+      );
+
+    if (
+      constraints.duration_valid <= 0 ||
+      constraints.created_at + constraints.duration_valid <= nowSeconds
+    )
+      err(
+        OrderValidationCode.EXPIRED,
+        "constraints.duration_valid",
+        `Order expired at ${constraints.created_at + constraints.duration_valid}, now ${nowSeconds}`,
+      );
+
+    if (userInfo !== undefined && constraints.nonce < userInfo.nonce)
+      err(
+        OrderValidationCode.NONCE_TOO_LOW,
+        "constraints.nonce",
+        `Order nonce ${constraints.nonce} is less than trader nonce ${userInfo.nonce}`,
+      );
+
+    if (qty.base_qty == 0n && qty.quote_qty == 0n) {
+      err(OrderValidationCode.ZERO_QTY, "qty", "Traded amount is zero");
+      return errors;
+    }
+
+    const spec = this.getSpecification(order);
+    if (spec === undefined) {
+      err(
+        OrderValidationCode.UNKNOWN_TICKER,
+        "ticker",
+        `No specification for ${order.ticker.base}/${order.ticker.quote} ecosystem book ${flags.to_ecosystem_book}`,
+      );
+    } else {
+      if (price % spec.rawPriceIncrement > 0n)
+        err(
+          OrderValidationCode.PRICE_TICK,
+          "price",
+          `Price ${price} have incorrect tick for tick ${spec.rawPriceIncrement}`,
+        );
+      if (qty.base_qty != 0n) {
+        if (qty.base_qty % spec.rawQuoteQtyIncrement > 0n)
+          err(
+            OrderValidationCode.QTY_INCREMENT,
+            "qty.base_qty",
+            `Base qty ${qty.base_qty} is not multiple of ${spec.rawQuoteQtyIncrement}`,
+          );
+        if (qty.base_qty < spec.rawMinQuoteQty)
+          err(
+            OrderValidationCode.MIN_QTY,
+            "qty.base_qty",
+            `Min quote amount is ${spec.rawMinQuoteQty}`,
+          );
+      } else if (
+        price > 0n &&
+        getMatchableAmountInBase(price, qty, spec.rawMinQuoteQty, false) == 0n
+      )
+        err(
+          OrderValidationCode.MIN_QTY,
+          "qty.quote_qty",
+          `Matchable amount less than min quote qty ${spec.rawMinQuoteQty}`,
+        );
+    }
+
+    if (userInfo !== undefined && !flags.external_funds) {
+      const [token, amount] = this.getSpendAmount(order);
+      const balance = userInfo.balances.find((b) => b.token == token);
+      const free =
+        balance === undefined ? 0n : balance.balance - balance.locked;
+      if (amount > free)
+        err(
+          OrderValidationCode.INSUFFICIENT_BALANCE,
+          flags.is_sell_side ? "qty.base_qty" : "qty.quote_qty",
+          `Order requires ${amount} of ${token}, free balance is ${free}`,
+        );
+    }
+    return errors;
+  }
+
+  private getSpecification(order: Order): TickerSpecification | undefined {
+    return this.tickerSpecifications.find(
+      (s) =>
+        s.ticker.pair.base == order.ticker.base &&
+        s.ticker.pair.quote == order.ticker.quote &&
+        s.ticker.isEcosystemBook == order.flags.to_ecosystem_book,
+    );
+  }
+
+  /**
+   * Amount that order might spend in the worst case at its price
+   */
+  private getSpendAmount(order: Order): [ERC20Token, bigint] {
+    const { qty, price } = order;
+    if (order.flags.is_sell_side) {
+      const base =
+        qty.base_qty != 0n || price == 0n
+          ? qty.base_qty
+          : (qty.quote_qty * qty.base_asset) / price;
+      return [order.ticker.base, base];
+    }
+    const quote =
+      qty.quote_qty != 0n
+        ? qty.quote_qty
+        : (qty.base_qty * price) / qty.base_asset;
+    return [order.ticker.quote, quote];
+  }
+}
@@ -0,0 +1,408 @@
+import {
+  StepsConfiguration,
+  Table,
+  TickerSpecification,
+} from "../response_types";
+import {
+  ERC20Token,
+  ERCToDecimalsMap,
+  MinimalTakerOrderInfo,
+  OrderFee,
+  OrderSide,
+  Quantity,
+  SorContext,
+  TradedPair,
+} from "../request_types";
+import { ExchangeTicker } from "../api/websocket/types";
+import { OrderConstructor } from "./OrderConstructor";
+import { calcFixedSwapFee } from "./swap";
+import { SwapSimulation, SwapSimulator } from "./SwapSimulator";
+
+const BIPS = 10_000n;
+
+/**
+ * Returns current book of the ticker, e.g. via DepthBook.getBook or getSnapshot
+ */
+export type BookProvider = (
+  ticker: ExchangeTicker,
+) => Table<bigint> | undefined;
+
+/**
+ * Represents single hop of the route
+ */
+export interface SorHop {
+  ticker: ExchangeTicker;
+  side: OrderSide; // side of the taker on this hop
+  spendToken: ERC20Token;
+  receiveToken: ERC20Token;
+  amountIn: bigint;
+  amountOut: bigint;
+  protectionPrice: bigint; // worst price of the hop adjusted for slippage
+  trades: number; // estimated number of trades
+  gasFee: [ERC20Token, bigint]; // gas of the trades on this hop
+  simulation: SwapSimulation;
+}
+
+/**
+ * Represents route found by SorPathFinder
+ */
+export interface SorRoute {
+  hops: SorHop[];
+  isEcosystemBook: boolean; // all hops of the route go through the same kind of books
+  exactOut: boolean; // whether amount specified is the amount to receive
+  amountIn: bigint; // amount spent to the books
+  amountOut: bigint; // amount received from the books
+  fee: [ERC20Token, bigint]; // exchange, router and integrator fees
+  gasFee: [ERC20Token, bigint]; // gas of all hops
+  trades: number; // use as number of swaps allowed
+  score: bigint; // in target token: net receive for exact in, total cost for exact out
+  // arguments for OrderConstructor.buildSORRouterSwap, if route is single hop context path is empty
+  leadPair: TradedPair;
+  leadSide: OrderSide;
+  leadPrice: bigint;
+  leadQty: Quantity;
+  context: SorContext;
+}
+
+/**
+ * Represents optional settings of the SorPathFinder
+ */
+export interface SorPathFinderOptions {
+  maxHops?: number; // default 3
+  gasFeeToken?: ERC20Token; // by default native gas token of OrderConstructor
+  conversionRate?: [bigint, bigint]; // rate [base gas, gasFeeToken] if non-native gas token used
+}
+
+/**
+ * The SorPathFinder class searches routes between two tokens across books of listed tickers.
+ * Every route is simulated hop by hop against current books and ranked with fees and gas,
+ * gas paid in other token is valued by mid price of the book between that token and the target one,
+ * or by the rate the route itself yields if there is no such book
+ * @category Main Classes
+ */
+export class SorPathFinder {
+  private readonly tickerSpecifications: TickerSpecification[];
+  private readonly books: BookProvider;
+  private readonly orderConstructor: OrderConstructor;
+  private readonly steps: StepsConfiguration;
+  private readonly gasPrice: bigint;
+  private readonly erc20ToDecimals: ERCToDecimalsMap;
+  private readonly options: SorPathFinderOptions;
+
+  /**
+   * Creates an instance of SorPathFinder.
+   * @param tickerSpecifications - listed tickers, both ecosystem and router books
+   * @param books - provider of the current books
+   * @param orderConstructor - used to build fees of the route the same way order would be built
+   * @param steps - gas steps per trade
+   * @param gasPrice - gas price in chain token
+   * @param erc20ToDecimals - maps ERC20Token to its decimals
+   * @param options - optional parameters
+   */
+  constructor(
+    tickerSpecifications: TickerSpecification[],
+    books: BookProvider,
+    orderConstructor: OrderConstructor,
+    steps: StepsConfiguration,
+    gasPrice: bigint,
+    erc20ToDecimals: ERCToDecimalsMap,
+    options: SorPathFinderOptions = {},
+  ) {
+    this.tickerSpecifications = tickerSpecifications;
+    this.books = books;
+    this.orderConstructor = orderConstructor;
+    this.steps = steps;
+    this.gasPrice = gasPrice;
+    this.erc20ToDecimals = erc20ToDecimals;
+    this.options = options;
+  }
+
+  /**
+   * Finds the best route
+   * @param from - token to spend
+   * @param to - token to receive
+   * @param amount - amount to spend, or to receive if exactOut
+   * @param exactOut - whether amount is the amount to receive
+   * @param slippageBips - tolerated slippage for protection prices, min receive and max spend
+   * @returns the best route or undefined if there is no route that fully fills the amount
+   */
+  public findBestRoute(
+    from: ERC20Token,
+    to: ERC20Token,
+    amount: bigint,
+    exactOut: boolean = false,
+    slippageBips: number = 0,
+  ): SorRoute | undefined {
+    return this.findRoutes(from, to, amount, exactOut, slippageBips)[0];
+  }
+
+  /**
+   * Finds all routes that fully fill the amount
+   * @param from - token to spend
+   * @param to - token to receive
+   * @param amount - amount to spend, or to receive if exactOut
+   * @param exactOut - whether amount is the amount to receive
+   * @param slippageBips - tolerated slippage for protection prices, min receive and max spend
+   * @returns routes sorted from the best one
+   */
+  public findRoutes(
+    from: ERC20Token,
+    to: ERC20Token,
+    amount: bigint,
+    exactOut: boolean = false,
+    slippageBips: number = 0,
+  ): SorRoute[] {
+    const routes: SorRoute[] = [];
+    if (from == to) return routes;
+    for (const isEcosystemBook of [true, false])
+      for (const path of this.searchPaths(from, to, isEcosystemBook)) {
+        const route = this.evaluate(path, amount, exactOut, slippageBips);
+        if (route !== undefined) routes.push(route);
+      }
+    const better = (a: SorRoute, b: SorRoute) =>
+      exactOut ? a.score < b.score : a.score > b.score;
+    return routes.sort((a, b) =>
+      better(a, b) ? -1 : better(b, a) ? 1 : a.hops.length - b.hops.length,
+    );
+  }
+
+  private searchPaths(
+    from: ERC20Token,
+    to: ERC20Token,
+    isEcosystemBook: boolean,
+  ): Leg[][] {
+    const tickers = this.tickerSpecifications
+      .map((s) => s.ticker)
+      .filter((t) => t.isEcosystemBook == isEcosystemBook);
+    const maxHops = this.options.maxHops ?? 3;
+    const paths: Leg[][] = [];
+    const visit = (token: ERC20Token, path: Leg[], seen: ERC20Token[]) => {
+      if (token == to) {
+        paths.push(path);
+        return;
+      }
+      if (path.length >= maxHops) return;
+      for (const ticker of tickers) {
+        const { base, quote } = ticker.pair;
+        const next = base == token ? quote : quote == token ? base : undefined;
+        if (next === undefined || seen.includes(next)) continue;
+        visit(
+          next,
+          [...path, { ticker, spendToken: token, receiveToken: next }],
+          [...seen, next],
+        );
+      }
+    };
+    visit(from, [], [from]);
+    return paths;
+  }
+
+  private evaluate(
+    legs: Leg[],
+    amount: bigint,
+    exactOut: boolean,
+    slippageBips: number,
+  ): SorRoute | undefined {
+    const lead = legs[0];
+    const sideOf = (leg: Leg) =>
+      leg.spendToken == leg.ticker.pair.quote ? OrderSide.BUY : OrderSide.SELL;
+    const fee = this.orderConstructor.buildSorFees(
+      lead.ticker,
+      legs.slice(1).map((leg) => this.toTakerInfo(leg, sideOf(leg), 0n)),
+      this.gasPrice,
+      !exactOut,
+      this.options.gasFeeToken,
+      this.options.conversionRate,
+    );
+    const gasOnlyFee: OrderFee = {
+      ...fee,
+      trade_fee: { ...fee.trade_fee, maker_pbips: 0, taker_pbips: 0 },
+      router_fee: { ...fee.router_fee, maker_pbips: 0, taker_pbips: 0 },
+      integrator_fee: { ...fee.integrator_fee, maker_pbips: 0, taker_pbips: 0 },
+    };
+
+    // exact in is simulated from the first hop, exact out from the last one
+    const hops: SorHop[] = [];
+    let remaining = amount;
+    for (const leg of exactOut ? [...legs].reverse() : legs) {
+      const book = this.books(leg.ticker);
+      if (book === undefined) return undefined;
+      const side = sideOf(leg);
+      const baseAsset = this.baseAssetOf(leg.ticker.pair);
+      const inBase = exactOut
+        ? leg.receiveToken == leg.ticker.pair.base
+        : leg.spendToken == leg.ticker.pair.base;
+      const sim = new SwapSimulator(
+        book,
+        leg.ticker,
+        gasOnlyFee,
+        this.steps,
+        this.gasPrice,
+        baseAsset,
+      ).simulate(
+        side,
+        {
+          base_qty: inBase ? remaining : 0n,
+          quote_qty: inBase ? 0n : remaining,
+          base_asset: baseAsset,
+        },
+        slippageBips,
+      );
+      if (sim.unfilled > 0n || sim.baseQty == 0n) return undefined;
+      hops.push({
+        ticker: leg.ticker,
+        side,
+        spendToken: leg.spendToken,
+        receiveToken: leg.receiveToken,
+        amountIn: sim.grossSpend,
+        amountOut: sim.grossReceive,
+        protectionPrice: sim.protectionPrice,
+        trades: sim.trades,
+        gasFee: sim.gasFee,
+        simulation: sim,
+      });
+      remaining = exactOut ? sim.grossSpend : sim.grossReceive;
+    }
+    if (exactOut) hops.reverse();
+
+    const first = hops[0];
+    const last = hops[hops.length - 1];
+    const isEcosystemBook = lead.ticker.isEcosystemBook;
+    const [feeToken, feeBase] = exactOut
+      ? [first.spendToken, first.amountIn]
+      : [last.receiveToken, last.amountOut];
+    const feeAmount =
+      calcFixedSwapFee(fee.trade_fee, feeBase, true) +
+      (isEcosystemBook ? 0n : calcFixedSwapFee(fee.router_fee, feeBase, true)) +
+      calcFixedSwapFee(fee.integrator_fee, feeBase, true);
+    const gasFee: [ERC20Token, bigint] = [
+      first.gasFee[0],
+      hops.reduce((acc, h) => acc + h.gasFee[1], 0n),
+    ];
+    const gasValue =
+      this.valueIn(feeToken, gasFee[0], gasFee[1]) ??
+      this.valueOnRoute(hops, feeToken, gasFee[0], gasFee[1]);
+    // gas paid in received token is deducted from the receipt
+    const receiptGas = gasFee[0] == last.receiveToken ? gasFee[1] : 0n;
+    const slippage = BigInt(slippageBips);
+    const leadBaseAsset = this.baseAssetOf(lead.ticker.pair);
+    const lastInBase = last.receiveToken == last.ticker.pair.base;
+    // for exact out lead hop may spend up to its simulated amount adjusted for slippage
+    const leadSpend = exactOut
+      ? (first.amountIn * (BIPS + slippage)) / BIPS
+      : first.amountIn;
+
+    return {
+      hops,
+      isEcosystemBook,
+      exactOut,
+      amountIn: first.amountIn,
+      amountOut: last.amountOut,
+      fee: [feeToken, feeAmount],
+      gasFee,
+      trades: hops.reduce((acc, h) => acc + h.trades, 0),
+      score: exactOut
+        ? first.amountIn + feeAmount + gasValue
+        : last.amountOut - feeAmount - gasValue,
+      leadPair: lead.ticker.pair,
+      leadSide: first.side,
+      leadPrice: first.protectionPrice,
+      leadQty: {
+        base_qty: first.side == OrderSide.SELL ? leadSpend : 0n,
+        quote_qty: first.side == OrderSide.BUY ? leadSpend : 0n,
+        base_asset: leadBaseAsset,
+      },
+      context: {
+        path: hops
+          .slice(1)
+          .map((h, i) =>
+            this.toTakerInfo(legs[i + 1], h.side, h.protectionPrice),
+          ),
+        order_fee: fee,
+        allow_non_atomic: false,
+        min_receive_amount: exactOut
+          ? undefined
+          : ((last.amountOut - feeAmount - receiptGas) * (BIPS - slippage)) /
+            BIPS,
+        max_spend_amount: exactOut
+          ? ((first.amountIn + feeAmount) * (BIPS + slippage)) / BIPS
+          : undefined,
+        last_base_qty: exactOut && lastInBase ? amount : 0n,
+        last_quote_qty: exactOut && !lastInBase ? amount : 0n,
+      },
+    };
+  }
+
+  private toTakerInfo(
+    leg: Leg,
+    side: OrderSide,
+    price: bigint,
+  ): MinimalTakerOrderInfo {
+    return {
+      price,
+      ticker: leg.ticker.pair,
+      is_sell_side: side == OrderSide.SELL,
+      base_asset: this.baseAssetOf(leg.ticker.pair),
+    };
+  }
+
+  private baseAssetOf(pair: TradedPair): bigint {
+    return 10n ** BigInt(this.erc20ToDecimals[pair.base] ?? 18);
+  }
+
+  /**
+   * Values amount of token in target token by mid price of the book between them, undefined if there is no such book
+   */
+  private valueIn(
+    target: ERC20Token,
+    token: ERC20Token,
+    amount: bigint,
+  ): bigint | undefined {
+    if (token == target || amount == 0n) return amount;
+    for (const { ticker } of this.tickerSpecifications) {
+      const { base, quote } = ticker.pair;
+      if (
+        !(base == token && quote == target) &&
+        !(base == target && quote == token)
+      )
+        continue;
+      const book = this.books(ticker);
+      const bid = book?.bids[0]?.[0];
+      const ask = book?.asks[0]?.[0];
+      const mid =
+        bid !== undefined && ask !== undefined ? (bid + ask) / 2n : bid ?? ask;
+      if (mid === undefined || mid == 0n) continue;
+      const baseAsset = this.baseAssetOf(ticker.pair);
+      return base == token
+        ? (amount * mid) / baseAsset
+        : (amount * baseAsset) / mid;
+    }
+    return undefined;
+  }
+
+  /**
+   * Values amount of token in target token by the rate of the route between them,
+   * 0 if token is not on the route
+   */
+  private valueOnRoute(
+    hops: SorHop[],
+    target: ERC20Token,
+    token: ERC20Token,
+    amount: bigint,
+  ): bigint {
+    const amounts = new Map<ERC20Token, bigint>([
+      [hops[0].spendToken, hops[0].amountIn],
+    ]);
+    for (const hop of hops) amounts.set(hop.receiveToken, hop.amountOut);
+    const tokenAmount = amounts.get(token);
+    const targetAmount = amounts.get(target);
+    if (!tokenAmount || targetAmount === undefined) return 0n;
+    return (amount * targetAmount) / tokenAmount;
+  }
+}
+
+interface Leg {
+  ticker: ExchangeTicker;
+  spendToken: ERC20Token;
+  receiveToken: ERC20Token;
+}
@@ -0,0 +1,224 @@
+import { StepsConfiguration, Table } from "../response_types";
+import {
+  ERC20Token,
+  FixedFee,
+  OrderFee,
+  OrderSide,
+  Quantity,
+} from "../request_types";
+import { ExchangeTicker } from "../api/websocket/types";
+import { calcFixedSwapFee, calcSingleTradeGasFee } from "./swap";
+
+const BIPS = 10_000n;
+
+/**
+ * Represents part of the swap filled against single price level
+ */
+export interface LevelFill {
+  price: bigint; // price of the level
+  baseQty: bigint; // filled amount in base asset
+  quoteQty: bigint; // filled amount in quote asset
+  trades: number; // estimated number of trades, assuming volume is evenly distributed across orders of the level
+}
+
+/**
+ * Represents the outcome of the swap against local copy of the book
+ */
+export interface SwapSimulation {
+  side: OrderSide;
+  fills: LevelFill[];
+  baseQty: bigint; // total filled amount in base asset
+  quoteQty: bigint; // total filled amount in quote asset
+  trades: number; // estimated number of trades, each of them charged with gas
+  unfilled: bigint; // part of the requested amount that book can't fill, in asset the amount requested in
+  bestPrice: bigint; // price of the top level, 0 if side of the book is empty
+  worstPrice: bigint; // price of the last touched level
+  averagePrice: bigint; // quote per unit of the base asset
+  priceImpactBips: number; // how much average price is worse than the best price
+
+  spendToken: ERC20Token;
+  receiveToken: ERC20Token;
+  grossSpend: bigint; // amount spent to the book
+  grossReceive: bigint; // amount received from the book
+  exchangeFee: [ERC20Token, bigint];
+  routerFee: [ERC20Token, bigint]; // zero for ecosystem book
+  integratorFee: [ERC20Token, bigint];
+  gasFee: [ERC20Token, bigint]; // gas for all trades in the fee token of the order
+  netSpend: bigint; // gross spend plus fees and gas charged in spend token
+  netReceive: bigint; // gross receive minus fees and gas charged in receive token
+
+  slippageBips: number;
+  protectionPrice: bigint; // worst price adjusted for slippage, use as price of the market order
+  minReceiveAmount: bigint; // net receive adjusted for slippage, use as min_receive_amount of the swap
+}
+
+/**
+ * The SwapSimulator class walks local copy of the book, e.g. obtained from DepthBook.getBook,
+ * and estimates fills, fees and gas of the taker swap without sending anything to the exchange
+ * @category Main Classes
+ */
+export class SwapSimulator {
+  private readonly book: Table<bigint>;
+  private readonly ticker: ExchangeTicker;
+  private readonly fee: OrderFee;
+  private readonly steps: StepsConfiguration;
+  private readonly gasPrice: bigint;
+  private readonly baseAsset: bigint;
+
+  /**
+   * Creates an instance of SwapSimulator.
+   * @param book - snapshot of the book with raw prices and base volumes
+   * @param ticker - ticker of the book, router fee is charged only for router book
+   * @param fee - fees of the order, taker rates are used
+   * @param steps - gas steps per trade
+   * @param gasPrice - gas price in chain token
+   * @param baseAsset - raw amount of the base asset representing 1 unit
+   */
+  constructor(
+    book: Table<bigint>,
+    ticker: ExchangeTicker,
+    fee: OrderFee,
+    steps: StepsConfiguration,
+    gasPrice: bigint,
+    baseAsset: bigint = 10n ** 18n,
+  ) {
+    this.book = book;
+    this.ticker = ticker;
+    this.fee = fee;
+    this.steps = steps;
+    this.gasPrice = gasPrice;
+    this.baseAsset = baseAsset;
+  }
+
+  /**
+   * Simulates the swap
+   * @param side - side of the taker, buy walks asks and sell walks bids
+   * @param qty - amount to swap, base_qty if specified otherwise quote_qty
+   * @param slippageBips - tolerated slippage for protection price and min receive recommendations
+   * @returns full breakdown of the swap
+   */
+  public simulate(
+    side: OrderSide,
+    qty: Quantity,
+    slippageBips: number = 0,
+  ): SwapSimulation {
+    const isBuy = side === OrderSide.BUY;
+    const levels = isBuy ? this.book.asks : this.book.bids;
+    const inBase = qty.base_qty != 0n;
+    let remaining = inBase ? qty.base_qty : qty.quote_qty;
+
+    const fills: LevelFill[] = [];
+    for (const [price, volume, orders] of levels) {
+      if (remaining <= 0n) break;
+      if (volume <= 0n || price <= 0n) continue;
+      const levelQuote = (price * volume) / this.baseAsset;
+      let baseQty: bigint;
+      if (inBase) baseQty = remaining < volume ? remaining : volume;
+      else
+        baseQty =
+          remaining < levelQuote
+            ? (remaining * this.baseAsset) / price
+            : volume;
+      if (baseQty == 0n) break;
+      const quoteQty = (baseQty * price) / this.baseAsset;
+      const trades = Number((baseQty * BigInt(orders) + volume - 1n) / volume);
+      fills.push({ price, baseQty, quoteQty, trades: Math.max(trades, 1) });
+      if (inBase) remaining -= baseQty;
+      else remaining = baseQty == volume ? remaining - levelQuote : 0n;
+    }
+    return this.summarize(side, fills, remaining, slippageBips);
+  }
+
+  private summarize(
+    side: OrderSide,
+    fills: LevelFill[],
+    unfilled: bigint,
+    slippageBips: number,
+  ): SwapSimulation {
+    const isBuy = side === OrderSide.BUY;
+    const { base, quote } = this.ticker.pair;
+    const baseQty = fills.reduce((acc, f) => acc + f.baseQty, 0n);
+    const quoteQty = fills.reduce((acc, f) => acc + f.quoteQty, 0n);
+    const trades = fills.reduce((acc, f) => acc + f.trades, 0);
+    const bestPrice = fills.length > 0 ? fills[0].price : 0n;
+    const worstPrice = fills.length > 0 ? fills[fills.length - 1].price : 0n;
+    const averagePrice =
+      baseQty > 0n ? (quoteQty * this.baseAsset) / baseQty : 0n;
+    const impact =
+      bestPrice > 0n
+        ? ((isBuy ? averagePrice - bestPrice : bestPrice - averagePrice) *
+            BIPS) /
+          bestPrice
+        : 0n;
+
+    const [spendToken, grossSpend] = isBuy
+      ? [quote, quoteQty]
+      : [base, baseQty];
+    const [receiveToken, grossReceive] = isBuy
+      ? [base, baseQty]
+      : [quote, quoteQty];
+    const [feeToken, feeBase] = this.fee.apply_to_receipt_amount
+      ? [receiveToken, grossReceive]
+      : [spendToken, grossSpend];
+    const charge = (fee: FixedFee): [ERC20Token, bigint] => [
+      feeToken,
+      calcFixedSwapFee(fee, feeBase, true),
+    ];
+    const exchangeFee = charge(this.fee.trade_fee);
+    const routerFee: [ERC20Token, bigint] = this.ticker.isEcosystemBook
+      ? [feeToken, 0n]
+      : charge(this.fee.router_fee);
+    const integratorFee = charge(this.fee.integrator_fee);
+    const [gasToken, gasPerTrade] = calcSingleTradeGasFee(
+      {
+        ...this.fee.gas_fee,
+        gas_per_action: this.ticker.isEcosystemBook
+          ? this.steps.swapEcosystem
+          : this.steps.swapRouter,
+      },
+      this.gasPrice,
+    );
+    const gasFee: [ERC20Token, bigint] = [
+      gasToken,
+      gasPerTrade * BigInt(trades),
+    ];
+
+    const charged = (token: ERC20Token) =>
+      [exchangeFee, routerFee, integratorFee, gasFee].reduce(
+        (acc, [t, amount]) => (t == token ? acc + amount : acc),
+        0n,
+      );
+    const netSpend = grossSpend + charged(spendToken);
+    const netReceive = grossReceive - charged(receiveToken);
+    const slippage = BigInt(slippageBips);
+
+    return {
+      side,
+      fills,
+      baseQty,
+      quoteQty,
+      trades,
+      unfilled: unfilled > 0n ? unfilled : 0n,
+      bestPrice,
+      worstPrice,
+      averagePrice,
+      priceImpactBips: Number(impact),
+      spendToken,
+      receiveToken,
+      grossSpend,
+      grossReceive,
+      exchangeFee,
+      routerFee,
+      integratorFee,
+      gasFee,
+      netSpend,
+      netReceive,
+      slippageBips,
+      protectionPrice: isBuy
+        ? (worstPrice * (BIPS + slippage)) / BIPS
+        : (worstPrice * (BIPS - slippage)) / BIPS,
+      minReceiveAmount:
+        netReceive > 0n ? (netReceive * (BIPS - slippage)) / BIPS : 0n,
+    };
+  }
+}
@@ -0,0 +1,214 @@
+import { Table } from "../response_types";
+import { BookIssue } from "../api/websocket/types";
+
+type Level = [bigint, bigint, number];
+
+/**
+ * Represents level of the book with cumulative volume from the top of the book
+ */
+export interface CumulativeLevel {
+  price: bigint;
+  volume: bigint; // volume of the level in base asset
+  orders: number;
+  cumulativeVolume: bigint; // volume of this and better levels in base asset
+  cumulativeQuote: bigint; // volume of this and better levels in quote asset
+}
+
+/**
+ * Represents liquidity of the book around mid price
+ */
+export interface Liquidity {
+  bidVolume: bigint; // base volume of bids with price not lower than mid minus range
+  askVolume: bigint; // base volume of asks with price not higher than mid plus range
+  bidQuote: bigint; // bid volume in quote asset
+  askQuote: bigint; // ask volume in quote asset
+}
+
+/**
+ * Converts exponent of the price step, as in FixedDepthSubRequest, to raw price step
+ * @param exponent - price step is 10^exponent of quote asset, e.g. -2 for cents
+ * @param quoteDecimals - decimals of the quote asset
+ * @returns raw price step
+ */
+export function priceStepFromExponent(
+  exponent: number,
+  quoteDecimals: number,
+): bigint {
+  const decimals = quoteDecimals + exponent;
+  if (decimals < 0) throw new Error(`Exponent ${exponent} is too small`);
+  return 10n ** BigInt(decimals);
+}
+
+/**
+ * Aggregates levels to the price step, bids are rounded down and asks are rounded up
+ * so aggregated level price is never better than prices of the orders it contains
+ * @param levels - bids or asks sorted from the best one
+ * @param step - raw price step
+ * @param isBid - whether levels are bids
+ * @returns aggregated levels sorted from the best one
+ */
+export function aggregateLevels(
+  levels: Level[],
+  step: bigint,
+  isBid: boolean,
+): Level[] {
+  const aggregated: Level[] = [];
+  for (const [price, volume, orders] of levels) {
+    const rem = price % step;
+    const bucket = rem == 0n || isBid ? price - rem : price - rem + step;
+    const last = aggregated[aggregated.length - 1];
+    if (last !== undefined && last[0] == bucket) {
+      last[1] += volume;
+      last[2] += orders;
+    } else aggregated.push([bucket, volume, orders]);
+  }
+  return aggregated;
+}
+
+/**
+ * Aggregates both sides of the book to the price step
+ * @param book - book to aggregate
+ * @param step - raw price step
+ * @returns aggregated book
+ */
+export function aggregateBook(
+  book: Table<bigint>,
+  step: bigint,
+): Table<bigint> {
+  return {
+    bids: aggregateLevels(book.bids, step, true),
+    asks: aggregateLevels(book.asks, step, false),
+    msg_id: book.msg_id,
+  };
+}
+
+/**
+ * Takes best levels of both sides of the book
+ * @param book - book
+ * @param depth - number of levels per side
+ * @returns book with at most depth levels per side
+ */
+export function topLevels(book: Table<bigint>, depth: number): Table<bigint> {
+  return {
+    bids: book.bids.slice(0, depth),
+    asks: book.asks.slice(0, depth),
+    msg_id: book.msg_id,
+  };
+}
+
+/**
+ * Accumulates volume of levels from the top of the book
+ * @param levels - bids or asks sorted from the best one
+ * @param baseAsset - raw amount of the base asset representing 1 unit
+ * @returns levels with cumulative volumes
+ */
+export function cumulativeDepth(
+  levels: Level[],
+  baseAsset: bigint = 10n ** 18n,
+): CumulativeLevel[] {
+  let cumulativeVolume = 0n;
+  let cumulativeQuote = 0n;
+  return levels.map(([price, volume, orders]) => {
+    cumulativeVolume += volume;
+    cumulativeQuote += (price * volume) / baseAsset;
+    return { price, volume, orders, cumulativeVolume, cumulativeQuote };
+  });
+}
+
+/**
+ * @returns mid price of the book or undefined if any side is empty
+ */
+export function getMidPrice(book: Table<bigint>): bigint | undefined {
+  if (book.bids.length == 0 || book.asks.length == 0) return undefined;
+  return (book.bids[0][0] + book.asks[0][0]) / 2n;
+}
+
+/**
+ * Calculates mid price weighted by volumes of the top levels,
+ * it leans towards the side with less volume since that side is more likely to be taken
+ * @returns microprice of the book or undefined if any side is empty
+ */
+export function getMicroPrice(book: Table<bigint>): bigint | undefined {
+  if (book.bids.length == 0 || book.asks.length == 0) return undefined;
+  const [bid, bidVolume] = book.bids[0];
+  const [ask, askVolume] = book.asks[0];
+  if (bidVolume + askVolume == 0n) return (bid + ask) / 2n;
+  return (bid * askVolume + ask * bidVolume) / (bidVolume + askVolume);
+}
+
+/**
+ * @returns spread between best ask and best bid in basis points of mid price, undefined if any side is empty
+ */
+export function getSpreadBips(book: Table<bigint>): number | undefined {
+  const mid = getMidPrice(book);
+  if (mid === undefined || mid == 0n) return undefined;
+  const spread = book.asks[0][0] - book.bids[0][0];
+  return (Number(spread) * 10_000) / Number(mid);
+}
+
+/**
+ * Calculates volume resting within the range around mid price
+ * @param book - book
+ * @param rangeBips - range in basis points of mid price, e.g. 100 for ±1%
+ * @param baseAsset - raw amount of the base asset representing 1 unit
+ * @returns liquidity within range or undefined if any side is empty
+ */
+export function getLiquidityWithin(
+  book: Table<bigint>,
+  rangeBips: number,
+  baseAsset: bigint = 10n ** 18n,
+): Liquidity | undefined {
+  const mid = getMidPrice(book);
+  if (mid === undefined) return undefined;
+  const range = (mid * BigInt(rangeBips)) / 10_000n;
+  const sum = (levels: Level[], inRange: (price: bigint) => boolean) =>
+    levels
+      .filter(([price]) => inRange(price))
+      .reduce(
+        ([volume, quote], [price, v]) => [
+          volume + v,
+          quote + (price * v) / baseAsset,
+        ],
+        [0n, 0n],
+      );
+  const [bidVolume, bidQuote] = sum(book.bids, (p) => p >= mid - range);
+  const [askVolume, askQuote] = sum(book.asks, (p) => p <= mid + range);
+  return { bidVolume, askVolume, bidQuote, askQuote };
+}
+
+/**
+ * Calculates imbalance of base volumes of the top levels
+ * @param book - book
+ * @param depth - number of levels per side to consider
+ * @returns value in [-1, 1], positive if bids outweigh asks, 0 for empty book
+ */
+export function getImbalance(book: Table<bigint>, depth: number = 1): number {
+  const volume = (levels: Level[]) =>
+    levels.slice(0, depth).reduce((acc, [, v]) => acc + v, 0n);
+  const bids = volume(book.bids);
+  const asks = volume(book.asks);
+  if (bids + asks == 0n) return 0;
+  return Number(((bids - asks) * 1_000_000n) / (bids + asks)) / 1_000_000;
+}
+
+/**
+ * Checks invariants of the book that hold for any consistent copy of the book
+ * @param book - book with levels sorted from the best one
+ * @returns violated invariants, empty if book is sane
+ */
+export function checkBookInvariants(book: Table<bigint>): BookIssue[] {
+  const issues: BookIssue[] = [];
+  if ([...book.bids, ...book.asks].some(([, volume]) => volume <= 0n))
+    issues.push(BookIssue.INVALID_VOLUME);
+  const hasDuplicates = (levels: Level[]) =>
+    new Set(levels.map(([price]) => price)).size != levels.length;
+  if (hasDuplicates(book.bids) || hasDuplicates(book.asks))
+    issues.push(BookIssue.DUPLICATE_LEVEL);
+  if (
+    book.bids.length > 0 &&
+    book.asks.length > 0 &&
+    book.bids[0][0] >= book.asks[0][0]
+  )
+    issues.push(BookIssue.CROSSED);
+  return issues;
+}
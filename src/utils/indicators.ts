@@ -0,0 +1,399 @@
+import { DbKline } from "../api/indexer/types";
+import { KlineBuilder } from "../api/websocket/KlineBuilder";
+import { ExchangeTicker } from "../api/websocket/types";
+import { getPairKey } from "../api/websocket/utils";
+import { ERCToDecimalsMap, TradedPair } from "../request_types";
+import { Kline, parseKline } from "./kline";
+
+/**
+ * Intermediate values of indicators are kept with this precision, so rounding errors do not accumulate
+ */
+const SCALE = 10n ** 18n;
+
+/**
+ * Represents price of the kline that indicator is calculated on
+ */
+export type PriceSource = "open" | "high" | "low" | "close" | "typical";
+
+/**
+ * Represents Bollinger bands, all values are raw amounts of quote token
+ */
+export interface Bands {
+  lower: bigint;
+  middle: bigint;
+  upper: bigint;
+}
+
+/**
+ * Returns price of the kline
+ * @param kline - kline
+ * @param source - price to take, typical is average of high, low and close
+ */
+export function getPrice(kline: Kline, source: PriceSource = "close"): bigint {
+  if (source === "typical") return (kline.high + kline.low + kline.close) / 3n;
+  return kline[source];
+}
+
+/**
+ * Converts klines of the indexer to raw amounts with decimals of tokens of the pair
+ * @param klines - klines returned by indexer
+ * @param pair - traded pair of the klines
+ * @param erc20ToDecimals - decimals of the tokens
+ */
+export function toKlines(
+  klines: DbKline[],
+  pair: TradedPair,
+  erc20ToDecimals: ERCToDecimalsMap,
+): Kline[] {
+  return klines.map((k) =>
+    parseKline(k, erc20ToDecimals[pair.base], erc20ToDecimals[pair.quote]),
+  );
+}
+
+/**
+ * Calculates integer square root
+ * @param value - non negative value
+ * @returns largest integer which square does not exceed value
+ */
+export function bigintSqrt(value: bigint): bigint {
+  if (value < 0n) throw new Error("Square root of negative value");
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+/**
+ * Base class of indicators. Indicator is fed with closed klines one by one via update,
+ * value for the forming kline can be calculated via peek without changing the state
+ * @category Indicators
+ */
+export abstract class Indicator<T, S> {
+  private state: S;
+  private current?: T;
+
+  protected constructor(initial: S) {
+    this.state = initial;
+  }
+
+  /**
+   * Value after the last closed kline, undefined until enough klines are received
+   */
+  public get value(): T | undefined {
+    return this.current;
+  }
+
+  /**
+   * Feeds closed kline to the indicator
+   * @param kline - next closed kline
+   * @returns value of the indicator after the kline
+   */
+  public update(kline: Kline): T | undefined {
+    const [state, value] = this.step(this.state, kline);
+    this.state = state;
+    this.current = value;
+    return value;
+  }
+
+  /**
+   * Calculates value of the indicator as if kline was closed, state of the indicator is not changed
+   * @param kline - forming kline
+   */
+  public peek(kline: Kline): T | undefined {
+    return this.step(this.state, kline)[1];
+  }
+
+  /**
+   * Feeds series of closed klines to the indicator
+   * @param klines - klines from the oldest to the latest
+   * @returns values of the indicator after every kline
+   */
+  public compute(klines: Kline[]): (T | undefined)[] {
+    return klines.map((k) => this.update(k));
+  }
+
+  /**
+   * Calculates next state and value, must not mutate passed state
+   */
+  protected abstract step(state: S, kline: Kline): [S, T | undefined];
+}
+
+interface WindowState {
+  window: bigint[];
+  sum: bigint;
+}
+
+function slide(state: WindowState, price: bigint, period: number): WindowState {
+  const window = [...state.window, price];
+  let sum = state.sum + price;
+  if (window.length > period) sum -= window.shift()!;
+  return { window, sum };
+}
+
+/**
+ * Simple moving average, in raw amount of quote token
+ * @category Indicators
+ */
+export class SMA extends Indicator<bigint, WindowState> {
+  constructor(
+    private readonly period: number,
+    private readonly source: PriceSource = "close",
+  ) {
+    super({ window: [], sum: 0n });
+  }
+
+  protected step(
+    state: WindowState,
+    kline: Kline,
+  ): [WindowState, bigint | undefined] {
+    const next = slide(state, getPrice(kline, this.source), this.period);
+    if (next.window.length < this.period) return [next, undefined];
+    return [next, next.sum / BigInt(this.period)];
+  }
+}
+
+interface EmaState {
+  seed: bigint[];
+  ema?: bigint; // scaled
+}
+
+/**
+ * Exponential moving average seeded with simple average of the first period, in raw amount of quote token
+ * @category Indicators
+ */
+export class EMA extends Indicator<bigint, EmaState> {
+  constructor(
+    private readonly period: number,
+    private readonly source: PriceSource = "close",
+  ) {
+    super({ seed: [] });
+  }
+
+  protected step(
+    state: EmaState,
+    kline: Kline,
+  ): [EmaState, bigint | undefined] {
+    const price = getPrice(kline, this.source) * SCALE;
+    const n = BigInt(this.period);
+    if (state.ema !== undefined) {
+      const ema = (price * 2n + state.ema * (n - 1n)) / (n + 1n);
+      return [{ seed: [], ema }, ema / SCALE];
+    }
+    const seed = [...state.seed, price];
+    if (seed.length < this.period) return [{ seed }, undefined];
+    const ema = seed.reduce((acc, p) => acc + p, 0n) / n;
+    return [{ seed: [], ema }, ema / SCALE];
+  }
+}
+
+interface WilderState {
+  prevClose?: bigint;
+  count: number;
+  gain: bigint; // scaled, sum during warm up then average
+  loss: bigint; // scaled, sum during warm up then average
+}
+
+/**
+ * Relative strength index with Wilder smoothing, in basis points from 0 to 10000
+ * @category Indicators
+ */
+export class RSI extends Indicator<bigint, WilderState> {
+  constructor(private readonly period: number) {
+    super({ count: 0, gain: 0n, loss: 0n });
+  }
+
+  protected step(
+    state: WilderState,
+    kline: Kline,
+  ): [WilderState, bigint | undefined] {
+    if (state.prevClose === undefined)
+      return [{ ...state, prevClose: kline.close }, undefined];
+    const change = (kline.close - state.prevClose) * SCALE;
+    const gain = change > 0n ? change : 0n;
+    const loss = change < 0n ? -change : 0n;
+    const n = BigInt(this.period);
+    const count = state.count + 1;
+    let next: WilderState;
+    if (count < this.period)
+      next = {
+        prevClose: kline.close,
+        count,
+        gain: state.gain + gain,
+        loss: state.loss + loss,
+      };
+    else if (count === this.period)
+      next = {
+        prevClose: kline.close,
+        count,
+        gain: (state.gain + gain) / n,
+        loss: (state.loss + loss) / n,
+      };
+    else
+      next = {
+        prevClose: kline.close,
+        count,
+        gain: (state.gain * (n - 1n) + gain) / n,
+        loss: (state.loss * (n - 1n) + loss) / n,
+      };
+    if (count < this.period) return [next, undefined];
+    if (next.gain + next.loss === 0n) return [next, 5000n];
+    return [next, (next.gain * 10_000n) / (next.gain + next.loss)];
+  }
+}
+
+interface AtrState {
+  prevClose?: bigint;
+  count: number;
+  atr: bigint; // scaled, sum during warm up then average
+}
+
+/**
+ * Average true range with Wilder smoothing, in raw amount of quote token
+ * @category Indicators
+ */
+export class ATR extends Indicator<bigint, AtrState> {
+  constructor(private readonly period: number) {
+    super({ count: 0, atr: 0n });
+  }
+
+  protected step(
+    state: AtrState,
+    kline: Kline,
+  ): [AtrState, bigint | undefined] {
+    const abs = (v: bigint) => (v < 0n ? -v : v);
+    let range = kline.high - kline.low;
+    if (state.prevClose !== undefined) {
+      const up = abs(kline.high - state.prevClose);
+      const down = abs(kline.low - state.prevClose);
+      if (up > range) range = up;
+      if (down > range) range = down;
+    }
+    const tr = range * SCALE;
+    const n = BigInt(this.period);
+    const count = state.count + 1;
+    let atr: bigint;
+    if (count < this.period) atr = state.atr + tr;
+    else if (count === this.period) atr = (state.atr + tr) / n;
+    else atr = (state.atr * (n - 1n) + tr) / n;
+    const next = { prevClose: kline.close, count, atr };
+    return [next, count < this.period ? undefined : atr / SCALE];
+  }
+}
+
+interface VwapState {
+  session?: number;
+  priceVolume: bigint;
+  volume: bigint;
+}
+
+/**
+ * Volume weighted average of typical prices, in raw amount of quote token.
+ * Accumulation restarts every session, e.g. every day
+ * @category Indicators
+ */
+export class VWAP extends Indicator<bigint, VwapState> {
+  constructor(private readonly sessionMillis?: number) {
+    super({ priceVolume: 0n, volume: 0n });
+  }
+
+  protected step(
+    state: VwapState,
+    kline: Kline,
+  ): [VwapState, bigint | undefined] {
+    const session =
+      this.sessionMillis === undefined
+        ? 0
+        : Math.floor(kline.start_time / this.sessionMillis);
+    const base =
+      state.session === session ? state : { priceVolume: 0n, volume: 0n };
+    const next = {
+      session,
+      priceVolume: base.priceVolume + getPrice(kline, "typical") * kline.volume,
+      volume: base.volume + kline.volume,
+    };
+    return [
+      next,
+      next.volume === 0n ? undefined : next.priceVolume / next.volume,
+    ];
+  }
+}
+
+/**
+ * Bollinger bands around simple moving average, in raw amount of quote token
+ * @category Indicators
+ */
+export class BollingerBands extends Indicator<Bands, WindowState> {
+  private readonly multiplier: bigint; // scaled by 100
+
+  constructor(
+    private readonly period: number,
+    deviations: number = 2,
+    private readonly source: PriceSource = "close",
+  ) {
+    super({ window: [], sum: 0n });
+    this.multiplier = BigInt(Math.round(deviations * 100));
+  }
+
+  protected step(
+    state: WindowState,
+    kline: Kline,
+  ): [WindowState, Bands | undefined] {
+    const next = slide(state, getPrice(kline, this.source), this.period);
+    if (next.window.length < this.period) return [next, undefined];
+    const n = BigInt(this.period);
+    const mean = (next.sum * SCALE) / n;
+    const variance =
+      next.window.reduce((acc, p) => acc + (p * SCALE - mean) ** 2n, 0n) / n;
+    const width = (bigintSqrt(variance) * this.multiplier) / 100n;
+    return [
+      next,
+      {
+        lower: (mean - width) / SCALE,
+        middle: mean / SCALE,
+        upper: (mean + width) / SCALE,
+      },
+    ];
+  }
+}
+
+/**
+ * Feeds klines of the builder to the indicator: closed klines update it, forming kline is peeked.
+ * Closed klines revised by late trades are not fed again
+ * @param builder - kline builder subscribed to the ticker
+ * @param ticker - ticker of the klines
+ * @param interval - interval of the klines
+ * @param indicator - indicator to feed, klines already built are fed immediately
+ * @param listener - called with value of the indicator, kline and whether kline is closed
+ */
+export function bindIndicator<T>(
+  builder: KlineBuilder,
+  ticker: ExchangeTicker,
+  interval: string,
+  indicator: Indicator<T, unknown>,
+  listener: (value: T | undefined, kline: Kline, closed: boolean) => void,
+) {
+  const key = `${getPairKey(ticker.pair)}/${ticker.isEcosystemBook}`;
+  const matches = (t: ExchangeTicker, i: string) =>
+    i === interval && `${getPairKey(t.pair)}/${t.isEcosystemBook}` === key;
+  const current = builder.getCurrent(ticker, interval);
+  let lastClosed = -1;
+  builder
+    .getKlines(ticker, interval)
+    .filter((k) => k.start_time !== current?.start_time)
+    .forEach((k) => {
+      indicator.update(k);
+      lastClosed = k.start_time;
+    });
+  builder.onClose((t, i, kline) => {
+    if (!matches(t, i) || kline.start_time <= lastClosed) return;
+    lastClosed = kline.start_time;
+    listener(indicator.update(kline), kline, true);
+  });
+  builder.onUpdate((t, i, kline) => {
+    if (matches(t, i)) listener(indicator.peek(kline), kline, false);
+  });
+}
@@ -0,0 +1,90 @@
+import { DbKline } from "../api/indexer/types";
+import { formattedDecimalToBigInt } from "../api/utils";
+
+/**
+ * Represents candle of the ticker with the same fields as DbKline,
+ * prices are raw amounts of quote token, volumes are raw amounts of base or quote token
+ */
+export interface Kline {
+  time: number; // in milliseconds; end of interval
+  open: bigint;
+  high: bigint;
+  low: bigint;
+  close: bigint;
+  volume: bigint; // total volume in base asset in interval
+  trades: number;
+  buy_volume: bigint; // total base volume for taker buyers in interval
+  buy_quote_volume: bigint; // total quote volume for taker buyers in interval
+  start_time: number; // in milliseconds; start of interval
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Converts duration in indexer format to milliseconds
+ * @param duration - <number>s, <number>m, <number>h or <number>d, e.g. 15m
+ * @returns duration in milliseconds
+ */
+export function parseDuration(duration: string): number {
+  const match = /^(\d+)([smhd])$/.exec(duration.trim());
+  if (match === null || Number(match[1]) === 0)
+    throw new Error(`Invalid duration ${duration}`);
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Converts kline of the indexer with stringified decimal values to raw amounts
+ * @param kline - kline returned by indexer
+ * @param baseDecimals - decimals of the base token
+ * @param quoteDecimals - decimals of the quote token
+ */
+export function parseKline(
+  kline: DbKline,
+  baseDecimals: number,
+  quoteDecimals: number,
+): Kline {
+  const quote = (v: string) => formattedDecimalToBigInt(v, quoteDecimals);
+  const base = (v: string) => formattedDecimalToBigInt(v, baseDecimals);
+  return {
+    time: kline.time,
+    open: quote(kline.open),
+    high: quote(kline.high),
+    low: quote(kline.low),
+    close: quote(kline.close),
+    volume: base(kline.volume),
+    trades: kline.trades,
+    buy_volume: base(kline.buy_volume),
+    buy_quote_volume: quote(kline.buy_quote_volume),
+    start_time: kline.start_time,
+  };
+}
+
+/**
+ * Creates kline of the interval without trades, all prices are equal to the previous close
+ * @param startTime - start of the interval in milliseconds
+ * @param intervalMillis - duration of the interval
+ * @param price - close price of the previous kline
+ */
+export function emptyKline(
+  startTime: number,
+  intervalMillis: number,
+  price: bigint,
+): Kline {
+  return {
+    time: startTime + intervalMillis,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume: 0n,
+    trades: 0,
+    buy_volume: 0n,
+    buy_quote_volume: 0n,
+    start_time: startTime,
+  };
+}
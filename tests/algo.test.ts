@@ -0,0 +1,218 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const SPEC = {
+  ticker: { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: true },
+  rawPriceIncrement: USDC,
+  rawMinQuoteQty: 10n ** 16n,
+  rawQuoteQtyIncrement: 10n ** 15n,
+};
+
+function setup(
+  fill: (
+    order: SDK.Order,
+    i: number,
+  ) => [bigint, SDK.MatchingEngineResult, SDK.OrderStatus?],
+) {
+  const placed: SDK.Order[] = [];
+  const listeners: ((order: any) => void)[] = [];
+  const http = {
+    queryGasPrice: async () => ({ result: 10n }),
+    placeOrder: async (order: SDK.Order) => {
+      placed.push(order);
+      return { result: `0x${placed.length}` };
+    },
+  };
+  const tracker = {
+    waitFor: async (hash: string) => {
+      const i = Number(hash) - 1;
+      const order = placed[i];
+      const [base, matcherResult, status] = fill(order, i);
+      return {
+        // order that is not in terminal status is reported on timeout
+        error: status === undefined ? undefined : "Timeout",
+        result: {
+          hash,
+          status: status ?? SDK.OrderStatus.CLOSED,
+          accBaseQty: base,
+          accQuoteQty: (base * (order.price - BigInt(i) * USDC)) / ETH,
+          matcherResult,
+        },
+      };
+    },
+    getOrder: () => undefined,
+    onUpdate: (listener: (order: any) => void) => listeners.push(listener),
+  };
+  const constructor = new SDK.OrderConstructor(
+    "0x1",
+    0,
+    new SDK.TickerFeeMap([0, 0]),
+    SDK.NULL_ADDRESS,
+    50,
+    100,
+    "STRK",
+  );
+  const args = [
+    http as unknown as SDK.LayerAkiraHttpAPI,
+    tracker as unknown as SDK.OrderTracker,
+    constructor,
+    async () => ["0x1", "0x2"] as [string, string],
+  ] as const;
+  const report = (order: any) => listeners.forEach((l) => l(order));
+  return { placed, args, report };
+}
+
+describe("algorithmic execution", () => {
+  it("should catch up shortfall of partially filled twap slices", async () => {
+    const { placed, args } = setup((order, i) =>
+      i == 1
+        ? [
+            order.qty.base_qty / 2n,
+            SDK.MatchingEngineResult.NOT_ENOUGH_LIQUIDITY,
+          ]
+        : [order.qty.base_qty, SDK.MatchingEngineResult.OK],
+    );
+    const twap = new SDK.TwapExecutor(...args, {
+      spec: SPEC,
+      side: SDK.OrderSide.BUY,
+      baseQty: ETH,
+      limitPrice: 2010_500_000n,
+      durationMillis: 40,
+      slices: 4,
+    });
+    const statuses: SDK.AlgoStatus[] = [];
+    twap.onProgress((p) => statuses.push(p.status));
+    expect((await twap.start()).result).toEqual("OK");
+    const progress = await twap.wait();
+
+    expect(placed.map((o) => o.qty.base_qty)).toEqual([
+      ETH / 4n,
+      ETH / 4n,
+      (ETH * 3n) / 8n,
+      ETH / 4n,
+    ]);
+    expect(placed.every((o) => o.flags.is_market_order)).toBe(true);
+    expect(placed[0].price).toEqual(2010n * USDC);
+    expect(progress.status).toEqual(SDK.AlgoStatus.COMPLETED);
+    expect(progress.filledBase).toEqual(ETH);
+    expect(progress.filledQuote).toEqual(2008_375_000n);
+    expect(progress.averagePrice).toEqual(2008_375_000n);
+    expect(progress.slices[1].matcherResult).toEqual(
+      SDK.MatchingEngineResult.NOT_ENOUGH_LIQUIDITY,
+    );
+    expect(statuses[0]).toEqual(SDK.AlgoStatus.RUNNING);
+  });
+
+  it("should fail after consecutive unfilled slices", async () => {
+    const { placed, args } = setup(() => [
+      0n,
+      SDK.MatchingEngineResult.SLIPPAGE,
+    ]);
+    const twap = new SDK.TwapExecutor(...args, {
+      spec: SPEC,
+      side: SDK.OrderSide.SELL,
+      baseQty: ETH,
+      limitPrice: 1990_500_000n,
+      durationMillis: 0,
+      slices: 5,
+      maxConsecutiveFailures: 2,
+    });
+    await twap.start();
+    const progress = await twap.wait();
+    expect(placed.length).toEqual(2);
+    expect(placed[1].qty.base_qty).toEqual((ETH * 2n) / 5n);
+    expect(placed[0].price).toEqual(1991n * USDC);
+    expect(progress.status).toEqual(SDK.AlgoStatus.FAILED);
+    expect(progress.remainingBase).toEqual(ETH);
+  });
+
+  it("should split vwap schedule by volume profile of klines", async () => {
+    const hour = 60 * 60 * 1000;
+    const start = Date.UTC(2024, 0, 2, 10);
+    const kline = (day: number, h: number, volume: string) => ({
+      start_time: Date.UTC(2024, 0, day, h),
+      time: Date.UTC(2024, 0, day, h) + hour,
+      volume,
+    });
+    const klines = [kline(1, 10, "1"), kline(1, 11, "3"), kline(0, 11, "5")];
+    expect(SDK.getVolumeProfile(klines as any, start, 2 * hour, 2)).toEqual([
+      1, 4,
+    ]);
+    expect(SDK.getCumulativeTargets(100n, [1, 0, 3])).toEqual([25n, 25n, 100n]);
+    expect(SDK.getCumulativeTargets(100n, [0, 0])).toEqual([50n, 100n]);
+
+    const { placed, args } = setup((order) => [
+      order.qty.base_qty,
+      SDK.MatchingEngineResult.OK,
+    ]);
+    const requests: any[] = [];
+    const indexer = {
+      getKlineByTicker: async (req: any) => {
+        requests.push(req);
+        return { result: { data: [], cursor: null } };
+      },
+    };
+    const vwap = new SDK.VwapExecutor(
+      ...args,
+      {
+        spec: SPEC,
+        side: SDK.OrderSide.BUY,
+        baseQty: ETH,
+        limitPrice: 2000n * USDC,
+        durationMillis: 0,
+        slices: 2,
+      },
+      indexer as unknown as SDK.IndexerAPI,
+      "15m",
+      96,
+    );
+    await vwap.start();
+    expect((await vwap.wait()).status).toEqual(SDK.AlgoStatus.COMPLETED);
+    expect(requests[0]).toEqual(
+      expect.objectContaining({ duration: "15m", num: "96" }),
+    );
+    expect(placed.map((o) => o.qty.base_qty)).toEqual([ETH / 2n, ETH / 2n]);
+  });
+
+  it("should count late fills of timed out slices before sizing next ones", async () => {
+    const { placed, args, report } = setup((order, i) => {
+      if (i > 0) return [order.qty.base_qty, SDK.MatchingEngineResult.OK];
+      setTimeout(
+        () =>
+          report({
+            hash: "0x1",
+            status: SDK.OrderStatus.FILLED,
+            accBaseQty: ETH / 2n,
+            accQuoteQty: 1005n * USDC,
+          }),
+        5,
+      );
+      return [
+        ETH / 4n,
+        SDK.MatchingEngineResult.OK,
+        SDK.OrderStatus.PARTIALLY_FILLED,
+      ];
+    });
+    const twap = new SDK.TwapExecutor(...args, {
+      spec: SPEC,
+      side: SDK.OrderSide.BUY,
+      baseQty: ETH,
+      limitPrice: 2010_500_000n,
+      durationMillis: 40,
+      slices: 2,
+    });
+    await twap.start();
+    const progress = await twap.wait();
+    expect(placed.map((o) => o.qty.base_qty)).toEqual([ETH / 2n, ETH / 2n]);
+    expect(progress.status).toEqual(SDK.AlgoStatus.COMPLETED);
+    expect(progress.filledBase).toEqual(ETH);
+    expect(progress.slices[0]).toEqual(
+      expect.objectContaining({
+        status: SDK.OrderStatus.FILLED,
+        filledBase: ETH / 2n,
+        filledQuote: 1005n * USDC,
+      }),
+    );
+  });
+});
@@ -0,0 +1,287 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const TICKER = { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: false };
+const DECIMALS = { ETH: 18, USDC: 6 };
+
+function update(
+  time: number,
+  bids: [bigint, bigint, number][],
+  asks: [bigint, bigint, number][],
+): SDK.TableUpdate<bigint> {
+  return {
+    bids,
+    asks,
+    time,
+    pair: TICKER.pair,
+    msg_id: BigInt(time),
+    msg_ids_start: BigInt(time),
+    msg_ids_end: BigInt(time),
+  };
+}
+
+function trade(
+  time: number,
+  price: bigint,
+  qty: bigint,
+  isSell: boolean,
+): SDK.Trade {
+  return {
+    price,
+    base_qty: qty,
+    quote_qty: (price * qty) / ETH,
+    is_sell_side: isSell,
+    time,
+  };
+}
+
+describe("backtester", () => {
+  it("should fill resting orders by queue position and take the book", async () => {
+    const backtester = new SDK.Backtester(
+      undefined,
+      DECIMALS,
+      new SDK.TickerFeeMap([100, 300]),
+      { USDC: 10_000n * USDC },
+    );
+    backtester.addBookUpdates(TICKER, [
+      update(0, [[99n * USDC, ETH, 1]], [[101n * USDC, 2n * ETH, 2]]),
+      update(2000, [[99n * USDC, ETH / 5n, 1]], []),
+    ]);
+    backtester.addTrades(TICKER, [
+      trade(1000, 99n * USDC, (ETH * 3n) / 2n, true),
+      trade(3000, 98n * USDC, ETH / 5n, true),
+      trade(60_000, 102n * USDC, ETH / 10n, false),
+    ]);
+
+    const statuses: SDK.OrderStatus[] = [];
+    await backtester.subscribeOnExecReport(async (evt) => {
+      if (typeof evt === "object" && "status" in evt) statuses.push(evt.status);
+    });
+    await backtester.subscribeOnMarketData(
+      async () => {
+        if (backtester.time === 0)
+          await backtester.placeOrder({
+            ticker: TICKER,
+            isSellSide: false,
+            baseQty: ETH,
+            price: 99n * USDC,
+          });
+      },
+      SDK.SocketEvent.BOOK_DELTA,
+      TICKER,
+    );
+    await backtester.subscribeOnMarketData(
+      async () => {
+        if (backtester.time === 3000)
+          await backtester.placeOrder({
+            ticker: TICKER,
+            isSellSide: false,
+            baseQty: ETH / 2n,
+          });
+      },
+      SDK.SocketEvent.TRADE,
+      TICKER,
+    );
+
+    const { result } = await backtester.run();
+    expect(
+      result!.fills.map((f) => [f.time, f.isMaker, f.price, f.baseQty, f.fee]),
+    ).toEqual([
+      [1000, true, 99n * USDC, ETH / 2n, 5n * 10n ** 13n],
+      [3000, true, 99n * USDC, ETH / 5n, 2n * 10n ** 13n],
+      [3000, false, 101n * USDC, ETH / 2n, 15n * 10n ** 13n],
+    ]);
+    expect(statuses).toEqual([
+      SDK.OrderStatus.OPEN,
+      SDK.OrderStatus.PARTIALLY_FILLED,
+      SDK.OrderStatus.PARTIALLY_FILLED,
+      SDK.OrderStatus.FILLED,
+    ]);
+    expect(result!.balances).toEqual({
+      USDC: 9880_200_000n,
+      ETH: 1_199_780_000_000_000_000n,
+    });
+    expect(result!.equity).toEqual([
+      { time: 0, equity: 10_000n * USDC },
+      { time: 60_000, equity: 10_002_577_560n },
+    ]);
+    expect(result!.stats).toEqual(
+      expect.objectContaining({
+        fills: 3,
+        makerFills: 2,
+        takerFills: 1,
+        volume: 119_800_000n,
+        fees: { ETH: 22n * 10n ** 13n },
+        pnl: 2_577_560n,
+        returnBips: 2,
+        maxDrawdownBips: 0,
+      }),
+    );
+    expect(backtester.getOpenOrders()).toEqual([
+      {
+        ticker: TICKER,
+        isSellSide: false,
+        baseQty: (ETH * 3n) / 10n,
+        price: 99n * USDC,
+      },
+    ]);
+  });
+
+  it("should share trade volume between resting orders and check balance of market buy", async () => {
+    const backtester = new SDK.Backtester(
+      undefined,
+      DECIMALS,
+      new SDK.TickerFeeMap([0, 0]),
+      { USDC: 200n * USDC },
+    );
+    backtester.addBookUpdates(TICKER, [
+      update(0, [[99n * USDC, ETH, 1]], [[101n * USDC, 2n * ETH, 2]]),
+    ]);
+    backtester.addTrades(TICKER, [
+      trade(1000, 99n * USDC, (ETH * 3n) / 2n, true),
+      trade(2000, 99n * USDC, ETH / 4n, true),
+    ]);
+    const buy = (price?: bigint, baseQty = ETH / 2n) =>
+      backtester.placeOrder({
+        ticker: TICKER,
+        isSellSide: false,
+        baseQty,
+        price,
+      });
+    const rejected: (SDK.ErrorReason | undefined)[] = [];
+    await backtester.subscribeOnMarketData(
+      async () => {
+        await buy(99n * USDC);
+        await buy(99n * USDC);
+      },
+      SDK.SocketEvent.BOOK_DELTA,
+      TICKER,
+    );
+    await backtester.subscribeOnMarketData(
+      async () => {
+        if (backtester.time === 1000)
+          rejected.push((await buy(undefined, 2n * ETH)).reason);
+      },
+      SDK.SocketEvent.TRADE,
+      TICKER,
+    );
+
+    const { result } = await backtester.run();
+    // queue ahead takes 1 ETH of the first trade, the rest fills only the earlier order
+    expect(result!.fills.map((f) => [f.time, f.hash, f.baseQty])).toEqual([
+      [1000, "0x1", ETH / 2n],
+      [2000, "0x2", ETH / 4n],
+    ]);
+    expect(rejected).toEqual([SDK.ErrorReason.VALIDATION]);
+    expect(result!.balances).toEqual({
+      USDC: 125_750_000n,
+      ETH: (ETH * 3n) / 4n,
+    });
+  });
+
+  it("should replay indexer trades, charge gas and reject invalid orders", async () => {
+    const dbTrade = (block: number, quote: string, isFailed = false) => ({
+      amount_base: ETH.toString(),
+      amount_quote: quote,
+      is_sell: false,
+      is_failed: isFailed,
+      event_block: block,
+    });
+    const indexer = Object.assign(Object.create(SDK.IndexerAPI.prototype), {
+      getTradesByTicker: async ({ cursor }: { cursor: string | null }) => ({
+        result: {
+          data:
+            cursor === null
+              ? [
+                  dbTrade(1, "2000000000"),
+                  dbTrade(2, "2010000000"),
+                  dbTrade(2, "1", true),
+                ]
+              : [],
+          cursor: "1",
+        },
+      }),
+    });
+    const logs: string[] = [];
+    const backtester = new SDK.Backtester(
+      indexer,
+      DECIMALS,
+      new SDK.TickerFeeMap([0, 0]),
+      { USDC: 1000n * USDC, ETH },
+      (arg) => logs.push(arg),
+      {
+        gasFee: {
+          gas_per_action: 10,
+          fee_token: "USDC",
+          max_gas_price: 1000n,
+          conversion_rate: [1n, 2n],
+        },
+      },
+    );
+    const loaded = await backtester.loadTrades(
+      TICKER,
+      (t) => t.event_block! * 1000,
+    );
+    expect(loaded.result).toEqual(2);
+    backtester.addBookUpdates(TICKER, [
+      update(500, [[1990n * USDC, ETH, 1]], [[2000n * USDC, ETH, 1]]),
+    ]);
+
+    const rejected: (SDK.ErrorReason | undefined)[] = [];
+    const bbos: SDK.BBO[] = [];
+    await backtester.subscribeOnMarketData(
+      async (evt) => {
+        bbos.push(evt as SDK.BBO);
+        const place = async (order: Partial<SDK.BacktestOrder>) =>
+          rejected.push(
+            (
+              await backtester.placeOrder({
+                ticker: TICKER,
+                isSellSide: false,
+                baseQty: ETH,
+                ...order,
+              })
+            ).reason,
+          );
+        await place({ price: 2000n * USDC, postOnly: true });
+        await place({ price: 1990n * USDC, baseQty: 10n * ETH });
+        await place({
+          price: 2000n * USDC,
+          isSellSide: true,
+          baseQty: ETH / 2n,
+        });
+        throw new Error("boom");
+      },
+      SDK.SocketEvent.BBO,
+      TICKER,
+    );
+
+    const { result } = await backtester.run();
+    expect(rejected).toEqual([
+      SDK.ErrorReason.VALIDATION,
+      SDK.ErrorReason.VALIDATION,
+      undefined,
+    ]);
+    expect(bbos[0]).toEqual(
+      expect.objectContaining({
+        bid: { price: 1990n * USDC, volume: ETH, orders: 1 },
+        ask: { price: 2000n * USDC, volume: ETH, orders: 1 },
+      }),
+    );
+    expect(logs).toEqual(["Error in bbo listener: Error: boom"]);
+    // first trade only takes the volume queued before the order
+    expect(result!.fills.map((f) => [f.time, f.price, f.gas])).toEqual([
+      [2000, 2000n * USDC, 20_000n],
+    ]);
+    expect(result!.balances).toEqual({
+      USDC: 1_999_980_000n,
+      ETH: ETH / 2n,
+    });
+    expect(result!.stats.gas).toEqual({ USDC: 20_000n });
+    expect((await backtester.cancelOrder("0x1")).reason).toEqual(
+      SDK.ErrorReason.NOT_FOUND,
+    );
+    expect(SDK.isValidationError(await backtester.run())).toBe(true);
+  });
+});
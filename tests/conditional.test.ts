@@ -0,0 +1,234 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const TICKER = { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: true };
+const QTY = { base_qty: ETH, quote_qty: 0n, base_asset: ETH };
+
+function setup(options: SDK.ConditionalOrderEngineOptions = {}) {
+  const streams: Map<string, (evt: any) => Promise<void>> = new Map();
+  const ws = {
+    notReady: 0, // subscriptions that fail as if websocket was not connected yet
+    subscribeOnMarketData: async (cb: any, event: string) => {
+      if (ws.notReady > 0) {
+        ws.notReady -= 1;
+        return { error: "Ws not ready" };
+      }
+      streams.set(event, cb);
+      return { result: "OK" };
+    },
+    unSubscribeFromMarketData: async (event: string) => {
+      streams.delete(event);
+      return { result: "OK" };
+    },
+  };
+  const placed: SDK.Order[] = [];
+  const http = {
+    queryGasPrice: async () => ({ result: 10n }),
+    placeOrder: async (order: SDK.Order) => {
+      placed.push(order);
+      return { result: `0x${placed.length}` };
+    },
+  };
+  const engine = new SDK.ConditionalOrderEngine(
+    http as unknown as SDK.LayerAkiraHttpAPI,
+    ws as unknown as SDK.LayerAkiraWSSAPI,
+    new SDK.OrderConstructor(
+      "0x1",
+      0,
+      new SDK.TickerFeeMap([0, 0]),
+      SDK.NULL_ADDRESS,
+      50,
+      100,
+      "STRK",
+    ),
+    async () => ["0x1", "0x2"],
+    undefined,
+    options,
+  );
+  const trade = (price: bigint) =>
+    streams.get(SDK.SocketEvent.TRADE)!({
+      price,
+      base_qty: ETH,
+      quote_qty: 0n,
+      is_sell_side: false,
+      time: 0,
+    });
+  const bbo = (bid: bigint, ask: bigint) =>
+    streams.get(SDK.SocketEvent.BBO)!({
+      bid: { price: bid, volume: ETH, orders: 1 },
+      ask: { price: ask, volume: ETH, orders: 1 },
+      ts: 0,
+      pair: TICKER.pair,
+    });
+  return { engine, placed, streams, ws, trade, bbo };
+}
+
+describe("conditional orders", () => {
+  it("should trigger take profit of oco pair and cancel stop loss", async () => {
+    const { engine, placed, trade } = setup();
+    expect((await engine.run()).result).toEqual("OK");
+    const [stop, takeProfit] = (
+      await engine.addOco(
+        {
+          ticker: TICKER,
+          side: SDK.OrderSide.SELL,
+          qty: QTY,
+          type: SDK.TriggerType.STOP_LOSS,
+          triggerPrice: 1900n * USDC,
+        },
+        {
+          ticker: TICKER,
+          side: SDK.OrderSide.SELL,
+          qty: QTY,
+          type: SDK.TriggerType.TAKE_PROFIT,
+          triggerPrice: 2100n * USDC,
+          limitPrice: 2090n * USDC,
+        },
+      )
+    ).result!;
+    await trade(2000n * USDC);
+    expect(placed).toEqual([]);
+    await trade(2100n * USDC);
+
+    expect(placed.length).toEqual(1);
+    expect(placed[0].price).toEqual(2090n * USDC);
+    expect(placed[0].flags.is_market_order).toBe(false);
+    expect(placed[0].flags.is_sell_side).toBe(true);
+    expect(engine.getOrder(takeProfit.id)).toEqual(
+      expect.objectContaining({
+        status: SDK.ConditionalOrderStatus.PLACED,
+        triggeredPrice: 2100n * USDC,
+        orderHash: "0x1",
+      }),
+    );
+    expect(engine.getOrder(stop.id)!.status).toEqual(
+      SDK.ConditionalOrderStatus.CANCELLED,
+    );
+    await trade(1800n * USDC);
+    expect(placed.length).toEqual(1);
+  });
+
+  it("should follow best bid with trailing stop and let review decline orders", async () => {
+    const reviewed: SDK.Order[] = [];
+    const { engine, placed, bbo } = setup({
+      review: (_, order) => {
+        reviewed.push(order);
+        return reviewed.length > 1;
+      },
+    });
+    await engine.run();
+    const request = {
+      ticker: TICKER,
+      side: SDK.OrderSide.SELL,
+      qty: QTY,
+      type: SDK.TriggerType.TRAILING_STOP,
+      trailingBips: 500,
+      source: SDK.TriggerSource.BBO,
+    };
+    const declined = (await engine.add(request)).result!;
+    await bbo(2000n * USDC, 2001n * USDC);
+    await bbo(2200n * USDC, 2201n * USDC);
+    expect(engine.getOrder(declined.id)!.triggerPrice).toEqual(2090n * USDC);
+    await bbo(2090n * USDC, 2091n * USDC);
+    expect(engine.getOrder(declined.id)!.status).toEqual(
+      SDK.ConditionalOrderStatus.REJECTED,
+    );
+
+    const accepted = (await engine.add(request)).result!;
+    await bbo(2000n * USDC, 2001n * USDC);
+    await bbo(1900n * USDC, 1901n * USDC);
+    expect(engine.getOrder(accepted.id)!.status).toEqual(
+      SDK.ConditionalOrderStatus.PLACED,
+    );
+    expect(placed.length).toEqual(1);
+    expect(placed[0].flags.is_market_order).toBe(true);
+    expect(placed[0].price).toEqual(1881n * USDC);
+  });
+
+  it("should validate requests and restore pending orders from storage", async () => {
+    const storage = new SDK.InMemoryConditionalOrderStorage();
+    const first = setup({ storage });
+    await first.engine.run();
+    const invalid = await first.engine.add({
+      ticker: TICKER,
+      side: SDK.OrderSide.BUY,
+      qty: QTY,
+      type: SDK.TriggerType.STOP_LOSS,
+    });
+    expect(SDK.isValidationError(invalid)).toBe(true);
+    const stop = (
+      await first.engine.add({
+        ticker: TICKER,
+        side: SDK.OrderSide.BUY,
+        qty: QTY,
+        type: SDK.TriggerType.STOP_LOSS,
+        triggerPrice: 2100n * USDC,
+      })
+    ).result!;
+    await first.engine.stop();
+    expect(first.streams.size).toEqual(0);
+
+    const second = setup({ storage });
+    await second.engine.run();
+    expect(second.engine.getOrders().map((o) => o.id)).toEqual([stop.id]);
+    await second.trade(2150n * USDC);
+    expect(second.engine.getOrder(stop.id)!.status).toEqual(
+      SDK.ConditionalOrderStatus.PLACED,
+    );
+    expect(second.placed[0].price).toEqual(2171_500_000n);
+    expect(SDK.isValidationError(await second.engine.cancel(stop.id))).toBe(
+      true,
+    );
+  });
+
+  it("should mark order as failed if it cannot be built", async () => {
+    const { engine, placed, trade } = setup();
+    await engine.run();
+    const stop = (
+      await engine.add({
+        ticker: TICKER,
+        side: SDK.OrderSide.SELL,
+        qty: QTY,
+        type: SDK.TriggerType.STOP_LOSS,
+        triggerPrice: 1900n * USDC,
+      })
+    ).result!;
+    const spy = jest
+      .spyOn(SDK.OrderConstructor.prototype, "buildOrder")
+      .mockImplementationOnce(() => {
+        throw new Error("boom");
+      });
+    await trade(1850n * USDC);
+    spy.mockRestore();
+    expect(engine.getOrder(stop.id)).toEqual(
+      expect.objectContaining({
+        status: SDK.ConditionalOrderStatus.FAILED,
+        error: "Failed to build order: Error: boom",
+      }),
+    );
+    expect(placed.length).toEqual(0);
+  });
+
+  it("should resubscribe after disconnection", async () => {
+    const { engine, placed, streams, ws, trade } = setup({
+      repeatCoolDownMillis: 1,
+    });
+    await engine.run();
+    await engine.add({
+      ticker: TICKER,
+      side: SDK.OrderSide.SELL,
+      qty: QTY,
+      type: SDK.TriggerType.STOP_LOSS,
+      triggerPrice: 1900n * USDC,
+    });
+    const stream = streams.get(SDK.SocketEvent.TRADE)!;
+    streams.delete(SDK.SocketEvent.TRADE);
+    ws.notReady = 1;
+    await stream(SDK.SocketEvent.DISCONNECT);
+
+    expect(streams.has(SDK.SocketEvent.TRADE)).toBe(true);
+    await trade(1850n * USDC);
+    expect(placed.length).toEqual(1);
+  });
+});
@@ -0,0 +1,185 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const book: SDK.Table<bigint> = {
+  bids: [
+    [1999_500_000n, ETH, 1],
+    [1999_100_000n, 2n * ETH, 2],
+    [1980n * USDC, 4n * ETH, 1],
+  ],
+  asks: [
+    [2000_500_000n, 3n * ETH, 1],
+    [2000_900_000n, ETH, 1],
+    [2100n * USDC, ETH, 1],
+  ],
+};
+
+describe("depth analytics", () => {
+  it("should aggregate, cut and accumulate levels", () => {
+    const step = SDK.priceStepFromExponent(0, 6);
+    expect(step).toEqual(USDC);
+    expect(SDK.aggregateBook(book, step)).toEqual({
+      bids: [
+        [1999n * USDC, 3n * ETH, 3],
+        [1980n * USDC, 4n * ETH, 1],
+      ],
+      asks: [
+        [2001n * USDC, 4n * ETH, 2],
+        [2100n * USDC, ETH, 1],
+      ],
+      msg_id: undefined,
+    });
+    expect(SDK.topLevels(book, 1).asks).toEqual([book.asks[0]]);
+    const cumulative = SDK.cumulativeDepth(book.bids);
+    expect(cumulative[1].cumulativeVolume).toEqual(3n * ETH);
+    expect(cumulative[1].cumulativeQuote).toEqual(5997_700_000n);
+  });
+
+  it("should compute prices, spread, liquidity and imbalance", () => {
+    expect(SDK.getMidPrice(book)).toEqual(2000n * USDC);
+    expect(SDK.getMicroPrice(book)).toEqual(1999_750_000n);
+    expect(SDK.getSpreadBips(book)).toEqual(5);
+    expect(SDK.getLiquidityWithin(book, 10)).toEqual({
+      bidVolume: 3n * ETH,
+      askVolume: 4n * ETH,
+      bidQuote: 5997_700_000n,
+      askQuote: 8002_400_000n,
+    });
+    expect(SDK.getImbalance(book)).toEqual(-0.5);
+    expect(SDK.getImbalance(book, 3)).toBeCloseTo(1 / 6, 5);
+    expect(SDK.getMidPrice({ bids: [], asks: book.asks })).toBeUndefined();
+  });
+});
+
+describe("depth book consistency", () => {
+  const TICKER = {
+    pair: { base: "ETH", quote: "USDC" },
+    isEcosystemBook: false,
+  };
+  const snapshot = (msg_id: bigint, bid: bigint, ask: bigint) => ({
+    result: {
+      levels: { bids: [[bid, ETH, 1]], asks: [[ask, ETH, 1]], msg_id },
+      pair: TICKER.pair,
+    },
+  });
+  const delta = (msg_id: bigint, bids: any[], asks: any[]) => ({
+    pair: TICKER.pair,
+    msg_id,
+    msg_ids_start: msg_id,
+    msg_ids_end: msg_id,
+    bids,
+    asks,
+  });
+  const setup = (
+    options?: SDK.DepthBookOptions,
+    snapshots: any[] = [
+      snapshot(1n, 1999n * USDC, 2001n * USDC),
+      snapshot(3n, 1998n * USDC, 2001n * USDC),
+      snapshot(3n, 1998n * USDC, 2001n * USDC),
+    ],
+  ) => {
+    const http = { getSnapshot: async () => snapshots.shift() };
+    let relay: (evt: any) => Promise<void> = async () => {};
+    const ws = {
+      subscribeOnDepthUpdate: async (_: any, cb: any) => {
+        relay = cb;
+        return { result: "OK" };
+      },
+    };
+    const depthBook = new SDK.DepthBook(
+      http as unknown as SDK.LayerAkiraHttpAPI,
+      ws as unknown as SDK.LayerAkiraWSSAPI,
+      [TICKER],
+      undefined,
+      options,
+    );
+    const statuses: [SDK.BookStatus, SDK.BookIssue[]][] = [];
+    depthBook.onHealthChange((h) => statuses.push([h.status, h.issues]));
+    return { depthBook, statuses, relay: (evt: any) => relay(evt) };
+  };
+  const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  it("should detect violated invariants", () => {
+    expect(SDK.checkBookInvariants(book)).toEqual([]);
+    expect(
+      SDK.checkBookInvariants({
+        bids: [
+          [2001n, ETH, 1],
+          [2001n, 0n, 1],
+        ],
+        asks: [[2000n, ETH, 1]],
+      }),
+    ).toEqual([
+      SDK.BookIssue.INVALID_VOLUME,
+      SDK.BookIssue.DUPLICATE_LEVEL,
+      SDK.BookIssue.CROSSED,
+    ]);
+  });
+
+  it("should resync crossed and out of sequence books", async () => {
+    const { depthBook, statuses, relay } = setup();
+    await depthBook.run();
+    await wait(10);
+    expect(depthBook.isHealthy(TICKER.pair)).toBe(true);
+
+    await relay(delta(2n, [[2002n * USDC, ETH, 1]], []));
+    expect(depthBook.getBook(TICKER.pair)!.bids[0][0]).toEqual(1998n * USDC);
+    await relay(delta(2n, [], [[2001n * USDC, 0n, 0]]));
+    await relay(delta(5n, [], []));
+    await relay(delta(4n, [], []));
+    expect(statuses).toEqual([
+      [SDK.BookStatus.HEALTHY, []],
+      [SDK.BookStatus.UNHEALTHY, [SDK.BookIssue.CROSSED]],
+      [SDK.BookStatus.HEALTHY, []],
+      [SDK.BookStatus.SYNCING, []],
+      [SDK.BookStatus.HEALTHY, []],
+    ]);
+    expect(depthBook.getHealth(TICKER.pair)).toEqual(
+      expect.objectContaining({ resyncs: 2, status: SDK.BookStatus.HEALTHY }),
+    );
+  });
+
+  it("should resync stale book", async () => {
+    const { depthBook, statuses } = setup({
+      staleAfterMillis: 30,
+      checkIntervalMillis: 10,
+    });
+    await depthBook.run();
+    await wait(50);
+    depthBook.stop();
+    expect(statuses.slice(0, 3)).toEqual([
+      [SDK.BookStatus.HEALTHY, []],
+      [SDK.BookStatus.UNHEALTHY, [SDK.BookIssue.STALE]],
+      [SDK.BookStatus.HEALTHY, []],
+    ]);
+    expect(depthBook.getHealthAll()[0].resyncs).toBeGreaterThan(0);
+  });
+
+  it("should retry failed resync with backoff", async () => {
+    const { depthBook, statuses, relay } = setup({ resyncRetryMillis: 10 }, [
+      snapshot(1n, 1999n * USDC, 2001n * USDC),
+      { error: "Service unavailable" },
+      { error: "Service unavailable" },
+      snapshot(3n, 1998n * USDC, 2001n * USDC),
+    ]);
+    await depthBook.run();
+    await wait(10);
+    await relay(delta(5n, [], []));
+    expect(depthBook.getHealth(TICKER.pair)!.status).toEqual(
+      SDK.BookStatus.SYNCING,
+    );
+    // retried after 10ms and 20ms
+    await wait(60);
+    depthBook.stop();
+    // every attempt is reported as a resync
+    expect(statuses).toEqual([
+      [SDK.BookStatus.HEALTHY, []],
+      [SDK.BookStatus.SYNCING, []],
+      [SDK.BookStatus.SYNCING, []],
+      [SDK.BookStatus.SYNCING, []],
+      [SDK.BookStatus.HEALTHY, []],
+    ]);
+    expect(depthBook.getHealth(TICKER.pair)!.resyncs).toEqual(3);
+  });
+});
@@ -0,0 +1,148 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const TICKER = { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: false };
+const MINUTE = 60_000;
+
+function kline(
+  index: number,
+  close: bigint,
+  spread: bigint = USDC,
+  volume: bigint = ETH,
+): SDK.Kline {
+  return {
+    ...SDK.emptyKline(index * MINUTE, MINUTE, close),
+    high: close + spread,
+    low: close - spread,
+    volume,
+    trades: 1,
+  };
+}
+
+describe("indicators", () => {
+  it("should compute moving averages, RSI and ATR over series", () => {
+    const klines = [10n, 11n, 12n, 16n, 14n].map((c, i) => kline(i, c * USDC));
+    expect(new SDK.SMA(3).compute(klines)).toEqual([
+      undefined,
+      undefined,
+      11n * USDC,
+      13n * USDC,
+      14n * USDC,
+    ]);
+    expect(new SDK.EMA(3).compute(klines)).toEqual([
+      undefined,
+      undefined,
+      11n * USDC,
+      13_500_000n,
+      13_750_000n,
+    ]);
+    expect(new SDK.RSI(2).compute(klines)).toEqual([
+      undefined,
+      undefined,
+      10_000n,
+      10_000n,
+      5555n,
+    ]);
+    expect(new SDK.ATR(2).compute(klines)).toEqual([
+      undefined,
+      2n * USDC,
+      2n * USDC,
+      3_500_000n,
+      3_250_000n,
+    ]);
+    const flat = [kline(0, USDC), kline(1, USDC), kline(2, USDC)];
+    expect(new SDK.RSI(2).compute(flat)[2]).toEqual(5000n);
+  });
+
+  it("should compute bands and session VWAP on scaled indexer klines", () => {
+    const dbKline = (index: number, close: string, volume: string) => ({
+      time: (index + 1) * MINUTE,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume,
+      trades: 1,
+      buy_volume: "0",
+      buy_quote_volume: "0",
+      start_time: index * MINUTE,
+    });
+    const klines = SDK.toKlines(
+      [dbKline(0, "10", "1"), dbKline(1, "11", "0.5"), dbKline(2, "12", "2.5")],
+      TICKER.pair,
+      { ETH: 18, USDC: 6 },
+    );
+    expect(klines[1]).toEqual(
+      expect.objectContaining({ close: 11n * USDC, volume: ETH / 2n }),
+    );
+    expect(new SDK.BollingerBands(3).compute(klines)[2]).toEqual({
+      lower: 9_367_006n,
+      middle: 11n * USDC,
+      upper: 12_632_993n,
+    });
+
+    const vwap = new SDK.VWAP(2 * MINUTE).compute([
+      kline(0, 10n * USDC, 2n * USDC, ETH),
+      kline(1, 20n * USDC, 2n * USDC, 3n * ETH),
+      kline(2, 30n * USDC, 2n * USDC, ETH),
+    ]);
+    expect(vwap).toEqual([10n * USDC, 17_500_000n, 30n * USDC]);
+    expect(SDK.bigintSqrt(10n ** 36n + 1n)).toEqual(10n ** 18n);
+  });
+
+  it("should update on closed klines and peek forming ones of the builder", async () => {
+    let onTrade: (evt: any) => Promise<void> = async () => {};
+    const ws = {
+      subscribeOnMarketData: async (cb: any) => {
+        onTrade = cb;
+        return { result: "OK" };
+      },
+      unSubscribeFromMarketData: async () => ({ result: "OK" }),
+    };
+    const builder = new SDK.KlineBuilder(
+      undefined,
+      ws as unknown as SDK.LayerAkiraWSSAPI,
+      {},
+      undefined,
+      {
+        fillGaps: false,
+        lateTradeToleranceMillis: Infinity,
+        checkIntervalMillis: 3_600_000,
+      },
+    );
+    const trade = (time: number, price: bigint) =>
+      onTrade({
+        price: price * USDC,
+        base_qty: ETH,
+        quote_qty: price * USDC,
+        is_sell_side: false,
+        time,
+      });
+    await builder.subscribe(TICKER, ["1m"]);
+    const values: [bigint | undefined, boolean][] = [];
+    SDK.bindIndicator(builder, TICKER, "1m", new SDK.SMA(2), (value, _, c) =>
+      values.push([value, c]),
+    );
+
+    await trade(MINUTE, 100n);
+    await trade(2 * MINUTE, 110n);
+    await trade(3 * MINUTE, 120n);
+    expect(values).toEqual([
+      [undefined, false],
+      [undefined, true],
+      [105n * USDC, false],
+      [105n * USDC, true],
+      [115n * USDC, false],
+    ]);
+
+    // revision of closed kline is not fed twice
+    await trade(2 * MINUTE + 1000, 200n);
+    expect(values.length).toEqual(5);
+
+    const late = new SDK.SMA(2);
+    SDK.bindIndicator(builder, TICKER, "1m", late, () => {});
+    expect(late.value).toEqual(150n * USDC);
+    await builder.stop();
+  });
+});
@@ -0,0 +1,236 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const TICKER = { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: false };
+const DECIMALS = { ETH: 18, USDC: 6 };
+const MINUTE = 60_000;
+
+function setup(
+  options: SDK.KlineBuilderOptions = {},
+  klines: SDK.DbKline[] = [],
+  pageSize = 50,
+) {
+  const subscriptions: Map<string, (evt: any) => Promise<void>> = new Map();
+  const ws = {
+    notReady: 0, // subscriptions that fail as if websocket was not connected yet
+    subscribeOnMarketData: async (cb: any, event: string) => {
+      if (ws.notReady > 0) {
+        ws.notReady -= 1;
+        return { error: "Ws not ready" };
+      }
+      subscriptions.set(event, cb);
+      return { result: "OK" };
+    },
+    unSubscribeFromMarketData: async (event: string) => {
+      subscriptions.delete(event);
+      return { result: "OK" };
+    },
+  };
+  const queried: (string | null)[] = [];
+  const indexer = Object.assign(Object.create(SDK.IndexerAPI.prototype), {
+    getKlineByTicker: async ({ cursor }: { cursor: string | null }) => {
+      queried.push(cursor);
+      const offset = Number(cursor ?? 0);
+      const next = offset + pageSize;
+      return {
+        result: {
+          data: klines.slice(offset, next),
+          cursor: next < klines.length ? String(next) : null,
+        },
+      };
+    },
+  });
+  const builder = new SDK.KlineBuilder(
+    indexer,
+    ws as unknown as SDK.LayerAkiraWSSAPI,
+    DECIMALS,
+    undefined,
+    { checkIntervalMillis: 3_600_000, ...options },
+  );
+  const trade = (time: number, price: bigint, qty: bigint, isSell = false) =>
+    subscriptions.get(SDK.SocketEvent.TRADE)!({
+      price: price * USDC,
+      base_qty: qty * ETH,
+      quote_qty: price * qty * USDC,
+      is_sell_side: isSell,
+      time,
+    });
+  return { builder, subscriptions, ws, trade, queried };
+}
+
+describe("klines", () => {
+  it("should fold trades into klines of several intervals and fill gaps", async () => {
+    const start =
+      Math.floor(Date.now() / (5 * MINUTE)) * 5 * MINUTE - 10 * MINUTE;
+    const { builder, subscriptions, trade } = setup();
+    const closed: [string, SDK.Kline][] = [];
+    builder.onClose((_, interval, kline) => closed.push([interval, kline]));
+    expect((await builder.subscribe(TICKER, ["1m", "5m"])).result).toEqual(
+      "OK",
+    );
+
+    await trade(start + 1000, 100n, 1n);
+    await trade(start + 30_000, 110n, 2n, true);
+    await trade(start + MINUTE + 1000, 90n, 1n, true);
+    await trade(start + 3 * MINUTE + 5000, 95n, 1n);
+
+    const minutes = builder.getKlines(TICKER, "1m");
+    expect(minutes.map((k) => [k.start_time - start, k.close / USDC])).toEqual([
+      [0, 110n],
+      [MINUTE, 90n],
+      [2 * MINUTE, 90n],
+      [3 * MINUTE, 95n],
+    ]);
+    expect(minutes[0]).toEqual({
+      time: start + MINUTE,
+      open: 100n * USDC,
+      high: 110n * USDC,
+      low: 100n * USDC,
+      close: 110n * USDC,
+      volume: 3n * ETH,
+      trades: 2,
+      buy_volume: ETH,
+      buy_quote_volume: 100n * USDC,
+      start_time: start,
+    });
+    expect(minutes[2].trades).toEqual(0);
+    expect(closed.map(([interval]) => interval)).toEqual(["1m", "1m", "1m"]);
+    expect(builder.getCurrent(TICKER, "5m")).toEqual(
+      expect.objectContaining({
+        open: 100n * USDC,
+        high: 110n * USDC,
+        low: 90n * USDC,
+        close: 95n * USDC,
+        trades: 4,
+      }),
+    );
+
+    builder.advance(start + 5 * MINUTE);
+    expect(closed.map(([interval]) => interval)).toEqual([
+      "1m",
+      "1m",
+      "1m",
+      "1m",
+      "1m",
+      "5m",
+    ]);
+    expect(builder.getCurrent(TICKER, "5m")!.start_time).toEqual(
+      start + 5 * MINUTE,
+    );
+    await builder.stop();
+    expect(subscriptions.size).toEqual(0);
+  });
+
+  it("should seed from indexer and revise closed kline with late trade", async () => {
+    const now = Date.now();
+    const start = Math.floor(now / MINUTE) * MINUTE;
+    const dbKline = (startTime: number, close: string) => ({
+      time: startTime + MINUTE,
+      open: "2000",
+      high: "2010.5",
+      low: "1990",
+      close,
+      volume: "1.5",
+      trades: 3,
+      buy_volume: "0.5",
+      buy_quote_volume: "1000.25",
+      start_time: startTime,
+    });
+    const { builder, trade } = setup({ lateTradeToleranceMillis: 2 * MINUTE }, [
+      dbKline(start - MINUTE, "2005"),
+      dbKline(start, "2001"),
+    ]);
+    const revised: SDK.Kline[] = [];
+    builder.onClose((_, __, kline) => revised.push(kline));
+    await builder.subscribe(TICKER, ["1m"]);
+    expect(builder.getKlines(TICKER, "1m")[0]).toEqual(
+      expect.objectContaining({
+        high: 2010_500_000n,
+        volume: 15n * 10n ** 17n,
+        buy_quote_volume: 1000_250_000n,
+      }),
+    );
+    expect(builder.getCurrent(TICKER, "1m")!.close).toEqual(2001n * USDC);
+
+    await trade(start - 1000, 2020n, 1n);
+    expect(revised.length).toEqual(1);
+    expect(revised[0]).toEqual(
+      expect.objectContaining({ high: 2020n * USDC, trades: 4 }),
+    );
+    await trade(start - 10 * MINUTE, 1000n, 1n);
+    expect(builder.getKlines(TICKER, "1m").length).toEqual(2);
+    await builder.stop();
+  });
+
+  it("should seed only tail of long history", async () => {
+    const start = Math.floor(Date.now() / MINUTE) * MINUTE;
+    const history = Array.from({ length: 30 }, (_, i) => ({
+      time: start - (28 - i) * MINUTE,
+      open: "2000",
+      high: "2000",
+      low: "2000",
+      close: String(2000 + i),
+      volume: "1",
+      trades: 1,
+      buy_volume: "0",
+      buy_quote_volume: "0",
+      start_time: start - (29 - i) * MINUTE,
+    }));
+    const { builder, queried } = setup({ seedKlines: 3 }, history, 5);
+
+    await builder.subscribe(TICKER, ["1m"]);
+    await builder.unsubscribe(TICKER);
+    await builder.subscribe(TICKER, ["1m"]);
+    expect(queried).toEqual([null, "5", "10", "15", "20", "25", "25"]);
+    expect(builder.getKlines(TICKER, "1m").map((k) => k.close / USDC)).toEqual([
+      2026n,
+      2027n,
+      2028n,
+      2029n,
+    ]);
+    expect(builder.getCurrent(TICKER, "1m")!.start_time).toEqual(start);
+    await builder.stop();
+  });
+
+  it("should reject invalid intervals and skip gaps when asked", async () => {
+    const { builder, trade } = setup({
+      fillGaps: false,
+      lateTradeToleranceMillis: Infinity,
+    });
+    expect(SDK.isValidationError(await builder.subscribe(TICKER, ["5w"]))).toBe(
+      true,
+    );
+    await builder.subscribe(TICKER, ["1m"]);
+    await trade(MINUTE, 100n, 1n);
+    await trade(5 * MINUTE, 101n, 1n);
+    builder.advance(7 * MINUTE);
+    expect(
+      builder.getKlines(TICKER, "1m").map((k) => k.start_time / MINUTE),
+    ).toEqual([1, 5]);
+    expect(builder.getCurrent(TICKER, "1m")).toBeUndefined();
+
+    await trade(5 * MINUTE + 1000, 102n, 1n);
+    expect(builder.getCurrent(TICKER, "1m")).toBeUndefined();
+    expect(builder.getKlines(TICKER, "1m")[1]).toEqual(
+      expect.objectContaining({ close: 102n * USDC, trades: 2 }),
+    );
+    await builder.stop();
+  });
+
+  it("should resubscribe to trades after disconnection", async () => {
+    const { builder, subscriptions, ws, trade } = setup({
+      repeatCoolDownMillis: 1,
+    });
+    await builder.subscribe(TICKER, ["1m"]);
+    const stream = subscriptions.get(SDK.SocketEvent.TRADE)!;
+    subscriptions.delete(SDK.SocketEvent.TRADE);
+    ws.notReady = 1;
+    await stream(SDK.SocketEvent.DISCONNECT);
+
+    expect(subscriptions.has(SDK.SocketEvent.TRADE)).toBe(true);
+    await trade(Date.now(), 100n, 1n);
+    expect(builder.getCurrent(TICKER, "1m")!.trades).toEqual(1);
+    await builder.stop();
+  });
+});
@@ -0,0 +1,327 @@
+import * as SDK from "../src";
+
+const DECIMALS = { ETH: 18, USDC: 6, STRK: 18 };
+
+function page<T>(items: T[], key: (item: T) => string) {
+  return async ({ cursor, num }: { cursor: string | null; num: any }) => {
+    const start =
+      cursor === null ? 0 : items.findIndex((i) => key(i) === cursor) + 1;
+    const data = items.slice(start, start + Number(num));
+    return {
+      result: { data, cursor: data.length ? key(data[data.length - 1]) : null },
+    };
+  };
+}
+
+function setup(
+  pendingOrders: any[] = [],
+  pendingTrades: Record<string, any[]> = {},
+) {
+  const orders = [
+    {
+      order_hash: "0xbuy",
+      is_sell_side: false,
+      created_at: 100,
+      tx_hash: "0xt1",
+      fixed_fee_token: "USDC",
+      paid_as_maker_exchange: "0",
+      paid_as_taker_exchange: "1000000",
+      paid_as_maker_router: "0",
+      paid_as_taker_router: "0",
+      gas_token: "STRK",
+      paid_gas: "1000000000000000",
+      trades_as_taker: 1,
+      trades_as_maker: 0,
+    },
+    {
+      order_hash: "0xsell",
+      is_sell_side: true,
+      created_at: 300,
+      tx_hash: "0xt2",
+      fixed_fee_token: "USDC",
+      paid_as_maker_exchange: "500000",
+      paid_as_maker_router: "0",
+      paid_as_taker_exchange: "0",
+      paid_as_taker_router: "0",
+      gas_token: "STRK",
+      paid_gas: "0",
+      trades_as_taker: 0,
+      trades_as_maker: 1,
+    },
+    ...pendingOrders,
+  ].sort((a, b) => a.created_at - b.created_at);
+  const trades: Record<string, any[]> = {
+    ...pendingTrades,
+    "0xt1": [
+      {
+        maker_hash: "0xother",
+        taker_hash: "0xbuy",
+        ticker: ["ETH", "USDC"],
+        amount_base: "1000000000000000000",
+        amount_quote: "2000000000",
+        usd_volume: "2000",
+        tx_hash: "0xt1",
+        event_idx: 3,
+        event_block: 1,
+        tx_index: 0,
+        is_failed: false,
+      },
+    ],
+    "0xt2": [
+      {
+        maker_hash: "0xsell",
+        taker_hash: "0xother",
+        ticker: ["ETH", "USDC"],
+        amount_base: "500000000000000000",
+        amount_quote: "1100000000",
+        usd_volume: "1100",
+        tx_hash: "0xt2",
+        event_idx: 1,
+        event_block: 2,
+        tx_index: 0,
+        is_failed: false,
+      },
+    ],
+  };
+  const deposits = [
+    {
+      tx_hash: "0xd1",
+      event_idx: 0,
+      token_address: "0xusdc",
+      funder: "0x1",
+      amount: "5000000000",
+      event_time: 50,
+    },
+  ];
+  const withdrawals = [
+    {
+      tx_hash: "0xw1",
+      event_idx: 2,
+      token_address: "0xusdc",
+      receiver: "0x1",
+      amount: "1000000000",
+      spent_gas: "2000000000000000",
+      gas_token: "STRK",
+      event_time: 400,
+    },
+  ];
+  const eventKey = (e: any) => `${e.tx_hash}_${e.event_idx}`;
+  const indexer = Object.assign(Object.create(SDK.IndexerAPI.prototype), {
+    getTraderOrders: page(orders, (o) => o.order_hash),
+    getTraderDeposits: page(deposits, eventKey),
+    getTraderWithdrawals: page(withdrawals, eventKey),
+    getTradesByTxHash: async (txHash: string) => ({ result: trades[txHash] }),
+    getTraderOrder: async (_: string, hash: string) => ({
+      result: orders.find((o) => o.order_hash === hash),
+    }),
+  });
+  return new SDK.LedgerExporter(indexer, "0x1", DECIMALS, undefined, {
+    pageSize: 1,
+    tokenAddresses: { "0xusdc": "USDC" },
+  });
+}
+
+describe("ledger", () => {
+  it("should emit balanced double-entry ledger of all activity", async () => {
+    const exporter = setup();
+    const res = (await exporter.export()).result!;
+    expect(
+      res.entries.map((e) => [e.kind, e.token, e.amount, e.debit, e.credit]),
+    ).toEqual([
+      ["deposit", "USDC", "5000", "exchange", "external"],
+      ["trade", "ETH", "1", "exchange", "counterparty"],
+      ["trade", "USDC", "2000", "counterparty", "exchange"],
+      ["fee", "USDC", "1", "fees", "exchange"],
+      ["gas", "STRK", "0.001", "gas", "exchange"],
+      ["trade", "USDC", "1100", "exchange", "counterparty"],
+      ["trade", "ETH", "0.5", "counterparty", "exchange"],
+      ["fee", "USDC", "0.5", "fees", "exchange"],
+      ["withdrawal", "USDC", "1000", "external", "exchange"],
+      ["gas", "STRK", "0.002", "gas", "exchange"],
+    ]);
+    expect(res.entries[1].usdValue).toEqual("2000");
+    expect(res.cursor).toEqual({
+      orders: "0xsell",
+      deposits: "0xd1_0",
+      withdrawals: "0xw1_2",
+      openOrders: [],
+    });
+    expect((await exporter.export()).result!.entries).toEqual(res.entries);
+
+    const exchange: Record<string, bigint> = {};
+    res.entries.forEach((e) => {
+      if (e.debit === SDK.LedgerAccount.EXCHANGE)
+        exchange[e.token] = (exchange[e.token] ?? 0n) + e.rawAmount;
+      if (e.credit === SDK.LedgerAccount.EXCHANGE)
+        exchange[e.token] = (exchange[e.token] ?? 0n) - e.rawAmount;
+    });
+    expect(exchange).toEqual({
+      ETH: 5n * 10n ** 17n,
+      USDC: 3098_500_000n,
+      STRK: -3n * 10n ** 15n,
+    });
+  });
+
+  it("should export date range and resume from cursor", async () => {
+    const exporter = setup();
+    const first = (await exporter.export({ from: 60, to: 200 })).result!;
+    expect(first.entries.map((e) => e.kind)).toEqual([
+      "trade",
+      "trade",
+      "fee",
+      "gas",
+    ]);
+    expect(first.cursor).toEqual({
+      orders: "0xbuy",
+      deposits: "0xd1_0",
+      withdrawals: null,
+      openOrders: [],
+    });
+    const second = (await exporter.export({ cursor: first.cursor })).result!;
+    expect(second.entries.map((e) => e.reference)).toEqual([
+      "0xsell",
+      "0xsell",
+      "0xsell",
+      "2",
+      "2",
+    ]);
+  });
+
+  it("should format ledger as csv and json", async () => {
+    const entries = (await setup().export({ to: 60 })).result!.entries;
+    expect(SDK.ledgerToCsv(entries).split("\n")).toEqual([
+      "id,time,kind,txHash,reference,token,rawAmount,amount,debit,credit,usdValue,memo",
+      "deposit:0xd1:0:0,50,deposit,0xd1,0,USDC,5000000000,5000,exchange,external,,from 0x1",
+    ]);
+    expect(JSON.parse(SDK.ledgerToJson(entries))[0].rawAmount).toEqual(
+      "5000000000",
+    );
+  });
+
+  it("should resume from the first order that is not rolled up yet", async () => {
+    const pending = {
+      order_hash: "0xpending",
+      is_sell_side: false,
+      created_at: 350,
+      tx_hash: "",
+      fixed_fee_token: "USDC",
+      paid_as_maker_exchange: "0",
+      paid_as_taker_exchange: "0",
+      paid_as_maker_router: "0",
+      paid_as_taker_router: "0",
+      gas_token: "STRK",
+      paid_gas: "0",
+      trades_as_taker: 1,
+      trades_as_maker: 0,
+    };
+    const rollup: any[] = [];
+    const exporter = setup([pending], { "0xt3": rollup });
+    const first = (await exporter.export()).result!;
+    expect(first.cursor.orders).toEqual("0xsell");
+
+    // rolled up, but trades are not indexed yet
+    pending.tx_hash = "0xt3";
+    pending.paid_as_taker_exchange = "2000000";
+    const second = (await exporter.export({ cursor: first.cursor })).result!;
+    expect(second.entries).toEqual([]);
+    expect(second.cursor.orders).toEqual("0xsell");
+
+    rollup.push({
+      maker_hash: "0xother",
+      taker_hash: "0xpending",
+      ticker: ["ETH", "USDC"],
+      amount_base: "1000000000000000000",
+      amount_quote: "2100000000",
+      usd_volume: "2100",
+      tx_hash: "0xt3",
+      event_idx: 0,
+      event_block: 3,
+      tx_index: 0,
+      is_failed: false,
+    });
+    const third = (await exporter.export({ cursor: second.cursor })).result!;
+    expect(third.entries.map((e) => [e.kind, e.reference, e.amount])).toEqual([
+      ["trade", "0xpending", "1"],
+      ["trade", "0xpending", "2100"],
+      ["fee", "0xpending", "2"],
+    ]);
+    expect(third.cursor.orders).toEqual("0xpending");
+  });
+
+  it("should skip orders without trades", async () => {
+    const cancelled = {
+      order_hash: "0xcancelled",
+      is_sell_side: false,
+      created_at: 200,
+      tx_hash: "",
+      trades_as_taker: 0,
+      trades_as_maker: 0,
+    };
+    const res = (await setup([cancelled]).export()).result!;
+    expect(res.entries.filter((e) => e.kind === "trade").length).toEqual(4);
+    expect(res.entries.map((e) => e.reference)).not.toContain("0xcancelled");
+    expect(res.cursor.orders).toEqual("0xsell");
+  });
+
+  it("should export later fills and fees of partially filled order", async () => {
+    const maker = {
+      order_hash: "0xmaker",
+      is_sell_side: true,
+      is_market_order: false,
+      created_at: 350,
+      duration_valid: 2 ** 32,
+      qty_base: "2000000000000000000",
+      spent: "1000000000000000000",
+      received: "2000000000",
+      tx_hash: "0xt3",
+      fixed_fee_token: "USDC",
+      paid_as_maker_exchange: "100000",
+      paid_as_taker_exchange: "0",
+      paid_as_maker_router: "0",
+      paid_as_taker_router: "0",
+      gas_token: "STRK",
+      paid_gas: "0",
+      trades_as_taker: 0,
+      trades_as_maker: 1,
+    };
+    const fill = (txHash: string) => ({
+      maker_hash: "0xmaker",
+      taker_hash: "0xother",
+      ticker: ["ETH", "USDC"],
+      amount_base: "1000000000000000000",
+      amount_quote: "2000000000",
+      usd_volume: "2000",
+      tx_hash: txHash,
+      event_idx: 0,
+      event_block: 3,
+      tx_index: 0,
+      is_failed: false,
+    });
+    const later: any[] = [];
+    const exporter = setup([maker], { "0xt3": [fill("0xt3")], "0xt4": later });
+    const first = (await exporter.export()).result!;
+    expect(first.cursor.orders).toEqual("0xmaker");
+    expect(first.cursor.openOrders).toEqual([
+      { hash: "0xmaker", txHash: "0xt3", fees: ["100000", "0", "0"] },
+    ]);
+
+    // filled in next rollup
+    Object.assign(maker, {
+      tx_hash: "0xt4",
+      spent: "2000000000000000000",
+      received: "3999700000",
+      paid_as_maker_exchange: "300000",
+      trades_as_maker: 2,
+    });
+    later.push(fill("0xt4"));
+    const second = (await exporter.export({ cursor: first.cursor })).result!;
+    expect(
+      second.entries.map((e) => [e.kind, e.txHash, e.reference, e.amount]),
+    ).toEqual([
+      ["trade", "0xt4", "0xmaker", "2000"],
+      ["trade", "0xt4", "0xmaker", "1"],
+      ["fee", "0xt4", "0xmaker", "0.2"],
+    ]);
+    expect(second.cursor.openOrders).toEqual([]);
+  });
+});
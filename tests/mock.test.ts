@@ -0,0 +1,756 @@
+import { ec, Signer } from "starknet";
+import { BigNumberish } from "ethers";
+import { w3cwebsocket as W3CWebSocket } from "websocket";
+import * as SDK from "../src";
+import { MatchingEngine, MockExchange } from "../src/mock";
+
+jest.setTimeout(30_000);
+
+const SN_SEPOLIA: BigNumberish = "0x534e5f5345504f4c4941";
+const DECIMALS = { ETH: 18, USDC: 6, STRK: 18 };
+const TICKER = { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: true };
+const maker = {
+  account: "0x0111",
+  signer: "0x0222",
+  privateKey:
+    "0x" + Buffer.from(ec.starkCurve.utils.randomPrivateKey()).toString("hex"),
+};
+const taker = {
+  account: "0x0333",
+  signer: "0x0444",
+  privateKey:
+    "0x" + Buffer.from(ec.starkCurve.utils.randomPrivateKey()).toString("hex"),
+};
+
+function timeout(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function login(
+  exchange: MockExchange,
+  trader: typeof maker,
+  options?: SDK.HttpClientOptions,
+): Promise<SDK.LayerAkiraHttpAPI> {
+  const api = new SDK.LayerAkiraHttpAPI(
+    { apiBaseUrl: exchange.httpUrl },
+    DECIMALS,
+    "STRK",
+    undefined,
+    undefined,
+    options,
+  );
+  const signData = await api.getSignData(trader.signer, trader.account);
+  const signature = await new Signer(trader.privateKey).signMessage(
+    SDK.getTypedDataForJWT(signData.result!, SDK.getDomain(SN_SEPOLIA)),
+    trader.account,
+  );
+  const jwt = await api.auth(
+    signData.result!,
+    SDK.castToApiSignature(signature),
+  );
+  api.setCredentials(jwt.result!, trader.account, trader.signer);
+  return api;
+}
+
+function builderFor(trader: typeof maker) {
+  return new SDK.OrderConstructor(
+    trader.account,
+    0,
+    new SDK.TickerFeeMap([0, 0]),
+    SDK.NULL_ADDRESS,
+    50,
+    100,
+    "STRK",
+  );
+}
+
+describe("mock exchange", () => {
+  let exchange: MockExchange;
+  let wsClient: SDK.LayerAkiraWSSAPI | undefined;
+
+  beforeEach(async () => {
+    exchange = new MockExchange({
+      erc20ToDecimals: DECIMALS,
+      baseFeeToken: "STRK",
+      tickerSpecifications: [
+        {
+          ticker: TICKER,
+          rawPriceIncrement: 10n ** 4n,
+          rawMinQuoteQty: 10n ** 15n,
+          rawQuoteQtyIncrement: 10n ** 14n,
+        },
+      ],
+    });
+    await exchange.start();
+    exchange.deposit(maker.account, "ETH", 2n * 10n ** 18n);
+    exchange.deposit(taker.account, "USDC", 5000n * 10n ** 6n);
+  });
+
+  afterEach(async () => {
+    wsClient?.close();
+    wsClient = undefined;
+    await exchange.stop();
+  });
+
+  it("should serve reference data and reject unauthorized requests", async () => {
+    const api = new SDK.LayerAkiraHttpAPI(
+      { apiBaseUrl: exchange.httpUrl },
+      DECIMALS,
+      "STRK",
+    );
+    expect((await api.queryGasPrice()).result).toEqual(100_000_000n);
+    const specs = await api.queryTickerSpecification();
+    expect(specs.result![0].rawPriceIncrement).toEqual(10n ** 4n);
+    const wrongAccount = await api.getSignData(maker.signer, "incorrect");
+    expect(wrongAccount).toEqual({
+      code: 500,
+      error: "Wrong account",
+      reason: SDK.ErrorReason.EXCHANGE,
+      exchangeCode: "WRONG_ACCOUNT",
+    });
+    expect(SDK.isExchangeError(wrongAccount)).toBe(true);
+    expect(() => SDK.unwrap(wrongAccount)).toThrow(SDK.LayerAkiraError);
+    api.setCredentials("wrong", maker.account, maker.signer);
+    expect(SDK.isAuthError(await api.getUserInfo())).toBe(true);
+    expect(api.isJWTInvalid).toBe(true);
+
+    const offline = new SDK.LayerAkiraHttpAPI(
+      { apiBaseUrl: "http://127.0.0.1:1" },
+      DECIMALS,
+      "STRK",
+    );
+    const failed = await offline.queryGasPrice();
+    expect(SDK.isNetworkError(failed)).toBe(true);
+    expect(failed.code).toEqual(SDK.NetworkIssueCode);
+  });
+
+  it("should match orders and publish reports and market data", async () => {
+    const makerApi = await login(exchange, maker);
+    const takerApi = await login(exchange, taker);
+    wsClient = new SDK.LayerAkiraWSSAPI(
+      exchange.wsUrl,
+      takerApi,
+      true,
+      undefined,
+      100,
+    );
+    wsClient.connect();
+    await timeout(200);
+
+    const reports: any[] = [];
+    const trades: any[] = [];
+    expect(
+      await wsClient.subscribeOnExecReport(async (e) => {
+        reports.push(e);
+      }, 1000),
+    ).toEqual({ id: expect.any(Number), result: "OK" });
+    await wsClient.subscribeOnMarketData(
+      async (e) => {
+        trades.push(e);
+      },
+      SDK.SocketEvent.TRADE,
+      TICKER,
+      1000,
+    );
+
+    const sell = builderFor(maker).buildSimpleRestingOrder(
+      TICKER,
+      2000n * 10n ** 6n,
+      { base_qty: 10n ** 18n, quote_qty: 0n, base_asset: 10n ** 18n },
+      SDK.OrderSide.SELL,
+    );
+    expect((await makerApi.placeOrder(sell, ["0", "0"])).result).toBeDefined();
+    await timeout(50);
+
+    const snapshot = await takerApi.getSnapshot("ETH", "USDC", true);
+    expect(snapshot.result!.levels.asks).toEqual([
+      [2000n * 10n ** 6n, 10n ** 18n, 1],
+    ]);
+
+    const buy = builderFor(taker).buildOrder(
+      TICKER,
+      2000n * 10n ** 6n,
+      { base_qty: 4n * 10n ** 17n, quote_qty: 0n, base_asset: 10n ** 18n },
+      1,
+      SDK.OrderSide.BUY,
+      0n,
+      false,
+      true,
+    );
+    const hash = (await takerApi.placeOrder(buy, ["0", "0"])).result!;
+    await timeout(200);
+
+    const own = reports.filter((r) => r.hash === hash);
+    expect(own.map((r) => r.status)).toEqual([
+      SDK.OrderStatus.ACCEPTED,
+      SDK.OrderStatus.PARTIALLY_FILLED,
+      SDK.OrderStatus.FILLED,
+    ]);
+    expect(own[2].acc_quote_qty).toEqual(800n * 10n ** 6n);
+    expect(reports.some((r) => r.order_hash === hash && r.tx_hash)).toBe(true);
+    expect(trades).toEqual([
+      expect.objectContaining({
+        price: 2000n * 10n ** 6n,
+        base_qty: 4n * 10n ** 17n,
+        is_sell_side: false,
+      }),
+    ]);
+
+    const info = await makerApi.getUserInfo();
+    expect(info.result!.balances).toEqual(
+      expect.arrayContaining([
+        { token: "ETH", balance: 16n * 10n ** 17n, locked: 6n * 10n ** 17n },
+        { token: "USDC", balance: 800n * 10n ** 6n, locked: 0n },
+      ]),
+    );
+    const order = await takerApi.getOrder(taker.account, hash, 2);
+    expect(order.result!.state.status).toEqual(SDK.OrderStatus.FILLED);
+  });
+
+  it("should track order lifecycle and catch up after disconnection", async () => {
+    const makerApi = await login(exchange, maker);
+    const takerApi = await login(exchange, taker);
+    wsClient = new SDK.LayerAkiraWSSAPI(
+      exchange.wsUrl,
+      makerApi,
+      true,
+      undefined,
+      100,
+    );
+    wsClient.connect();
+    await timeout(200);
+    const tracker = new SDK.OrderTracker(makerApi, wsClient, undefined, 100);
+    expect((await tracker.run(1000)).result).toEqual("OK");
+
+    const sell = builderFor(maker).buildSimpleRestingOrder(
+      TICKER,
+      2000n * 10n ** 6n,
+      { base_qty: 10n ** 18n, quote_qty: 0n, base_asset: 10n ** 18n },
+      SDK.OrderSide.SELL,
+    );
+    const hash = (await makerApi.placeOrder(sell, ["0", "0"])).result!;
+    expect(
+      (await tracker.waitFor(hash, SDK.OrderStatus.OPEN, 1000)).result!.status,
+    ).toEqual(SDK.OrderStatus.OPEN);
+
+    const buy = (qty: bigint) =>
+      builderFor(taker).buildOrder(
+        TICKER,
+        2000n * 10n ** 6n,
+        { base_qty: qty, quote_qty: 0n, base_asset: 10n ** 18n },
+        1,
+        SDK.OrderSide.BUY,
+        0n,
+        false,
+        true,
+      );
+    exchange.dropConnections();
+    await takerApi.placeOrder(buy(4n * 10n ** 17n), ["0", "0"]);
+    const partial = await tracker.waitFor(
+      hash,
+      SDK.OrderStatus.PARTIALLY_FILLED,
+      3000,
+    );
+    expect(partial.result!.accBaseQty).toEqual(4n * 10n ** 17n);
+
+    await takerApi.placeOrder(buy(6n * 10n ** 17n), ["0", "0"]);
+    const filled = await tracker.waitFor(hash, SDK.OrderStatus.FILLED, 1000);
+    expect(filled.result!.accQuoteQty).toEqual(2000n * 10n ** 6n);
+    await timeout(100);
+    expect(filled.result!.txHashes.length).toEqual(1);
+    expect(
+      await tracker.waitFor(hash, SDK.OrderStatus.CANCELLED, 1000),
+    ).toEqual({
+      error: "Order reached terminal status FILLED",
+      result: filled.result,
+    });
+    expect(tracker.getOrders(true)).toEqual([]);
+  });
+
+  it("should track orders placed before tracker started", async () => {
+    const makerApi = await login(exchange, maker);
+    const takerApi = await login(exchange, taker);
+    const resting = builderFor(maker).buildSimpleRestingOrder(
+      TICKER,
+      2000n * 10n ** 6n,
+      { base_qty: 10n ** 18n, quote_qty: 0n, base_asset: 10n ** 18n },
+      SDK.OrderSide.SELL,
+    );
+    const restingHash = (await makerApi.placeOrder(resting, ["0", "0"]))
+      .result!;
+    const filled = builderFor(taker).buildOrder(
+      TICKER,
+      2000n * 10n ** 6n,
+      { base_qty: 10n ** 17n, quote_qty: 0n, base_asset: 10n ** 18n },
+      1,
+      SDK.OrderSide.BUY,
+      0n,
+      false,
+      true,
+    );
+    await takerApi.placeOrder(filled, ["0", "0"]);
+    await timeout(100);
+
+    const tracker = new SDK.OrderTracker(
+      makerApi,
+      {} as unknown as SDK.LayerAkiraWSSAPI,
+    );
+    const tracked = await tracker.track(restingHash);
+    expect(tracked.result!.status).toEqual(SDK.OrderStatus.PARTIALLY_FILLED);
+    expect(tracked.result!.accBaseQty).toEqual(10n ** 17n);
+    const takerTracker = new SDK.OrderTracker(
+      takerApi,
+      {} as unknown as SDK.LayerAkiraWSSAPI,
+    );
+    const takerOrders = await takerApi.getOrders(2, 20, 0, false);
+    const takerHash = (takerOrders.result!.data[0] as SDK.ReducedOrder).hash;
+    expect((await takerTracker.track(takerHash)).result!.status).toEqual(
+      SDK.OrderStatus.FILLED,
+    );
+    expect(SDK.isNotFoundError(await tracker.track("0x123"))).toBe(true);
+
+    const getOrders = jest.spyOn(makerApi, "getOrders");
+    await tracker.sync();
+    expect(getOrders.mock.calls.map((c) => c[6])).toEqual([false, true]);
+  });
+
+  it("should restore subscriptions after reconnection", async () => {
+    const takerApi = await login(exchange, taker);
+    wsClient = new SDK.LayerAkiraWSSAPI(
+      exchange.wsUrl,
+      takerApi,
+      true,
+      undefined,
+      100,
+      true,
+    );
+    wsClient.connect();
+    await timeout(200);
+
+    const reports: any[] = [];
+    const trades: any[] = [];
+    await wsClient.subscribeOnExecReport(async (e) => {
+      reports.push(e);
+    }, 1000);
+    await wsClient.subscribeOnMarketData(
+      async (e) => {
+        trades.push(e);
+      },
+      SDK.SocketEvent.TRADE,
+      TICKER,
+      1000,
+    );
+    exchange.dropConnections();
+    await timeout(500);
+
+    for (const events of [reports, trades]) {
+      expect(events[0]).toEqual(SDK.SocketEvent.DISCONNECT);
+      expect(SDK.isReconnectedEvent(events[1])).toBe(true);
+      expect(events[1].downtimeMillis).toBeGreaterThanOrEqual(100);
+    }
+
+    const makerApi = await login(exchange, maker);
+    await makerApi.placeOrder(
+      builderFor(maker).buildSimpleRestingOrder(
+        TICKER,
+        2000n * 10n ** 6n,
+        { base_qty: 10n ** 18n, quote_qty: 0n, base_asset: 10n ** 18n },
+        SDK.OrderSide.SELL,
+      ),
+      ["0", "0"],
+    );
+    const hash = (
+      await takerApi.placeOrder(
+        builderFor(taker).buildOrder(
+          TICKER,
+          2000n * 10n ** 6n,
+          { base_qty: 10n ** 17n, quote_qty: 0n, base_asset: 10n ** 18n },
+          1,
+          SDK.OrderSide.BUY,
+          0n,
+          false,
+          true,
+        ),
+        ["0", "0"],
+      )
+    ).result!;
+    await timeout(200);
+    expect(reports.some((r) => r.hash === hash)).toBe(true);
+    expect(trades.length).toEqual(3);
+  });
+
+  it("should answer malformed websocket requests with error", async () => {
+    const takerApi = await login(exchange, taker);
+    const listenKey = (await takerApi.getListenKey()).result!;
+    const socket = new W3CWebSocket(
+      `${exchange.wsUrl}?listenKey=${listenKey}&signer=${taker.signer}`,
+    );
+    const responses: any[] = [];
+    socket.onmessage = (msg) => responses.push(JSON.parse(`${msg.data}`));
+    await new Promise((resolve) => (socket.onopen = resolve));
+    socket.send("not json");
+    socket.send(
+      JSON.stringify({
+        action: "subscribe",
+        stream: SDK.SocketEvent.TRADE,
+        ticker: { base: "ETH", quote: "USDC", ecosystem_book: true },
+        id: 1,
+      }),
+    );
+    await timeout(100);
+    socket.close();
+    expect(responses[0]).toEqual({
+      id: null,
+      error: expect.stringContaining("Malformed request"),
+    });
+    expect(responses[1]).toEqual({ id: 1, result: "OK" });
+  });
+
+  it("should build, sign and send requests via trader", async () => {
+    const trader = new SDK.Trader(
+      {
+        apiBaseUrl: exchange.httpUrl,
+        wssPath: exchange.wsUrl,
+        tokenMapping: { ETH: "0x1", USDC: "0x2", STRK: "0x3" },
+        coreAddress: "0x4",
+        executorAddress: "0x5",
+        routerAddress: "0x6",
+        baseFeeToken: "STRK",
+        tradingAccount: maker.account,
+        signer: maker.signer,
+      },
+      DECIMALS,
+      SN_SEPOLIA.toString(),
+      new Signer(maker.privateKey),
+    );
+    const qty = { base_qty: 10n ** 18n, quote_qty: 0n, base_asset: 10n ** 18n };
+    for (const res of [
+      await trader.placeLimit(TICKER, SDK.OrderSide.SELL, 2000n, qty),
+      await trader.placeMarket(TICKER, SDK.OrderSide.SELL, 2000n, qty),
+      await trader.swap(TICKER.pair, SDK.OrderSide.SELL, 2000n, qty, 0n),
+      await trader.withdraw("ETH", 1n),
+      await trader.increaseNonce(),
+    ])
+      expect(SDK.isValidationError(res)).toBe(true);
+    expect((await trader.init()).result!.nonce).toEqual(0);
+
+    const hash = (
+      await trader.placeLimit(TICKER, SDK.OrderSide.SELL, 2000n * 10n ** 6n, {
+        base_qty: 10n ** 18n,
+        quote_qty: 0n,
+        base_asset: 10n ** 18n,
+      })
+    ).result!;
+    await timeout(50);
+    expect(exchange.engine.getRestingOrder(hash)).toBeDefined();
+    expect((await trader.cancel(hash)).result).toBeDefined();
+    await timeout(50);
+    expect(exchange.engine.getRestingOrder(hash)).toBeUndefined();
+
+    expect((await trader.withdraw("ETH", 10n ** 18n)).result).toBeDefined();
+    expect(exchange.balanceOf(maker.account, "ETH")).toEqual(10n ** 18n);
+    expect((await trader.increaseNonce()).result).toBeDefined();
+    expect((await trader.httpClient.getUserInfo()).result!.nonce).toEqual(1);
+    // orders built by shared constructor use the increased nonce
+    const order = trader
+      .getOrderConstructor()
+      .buildSimpleRestingOrder(
+        TICKER,
+        2000n * 10n ** 6n,
+        { base_qty: 10n ** 17n, quote_qty: 0n, base_asset: 10n ** 18n },
+        SDK.OrderSide.SELL,
+      );
+    expect(order.constraints.nonce).toEqual(1);
+    expect((await trader.placeOrder(order)).result).toBeDefined();
+  });
+
+  it("should reissue rejected jwt token and replay request", async () => {
+    const api = new SDK.LayerAkiraHttpAPI(
+      { apiBaseUrl: exchange.httpUrl },
+      DECIMALS,
+      "STRK",
+    );
+    const signer = new Signer(maker.privateKey);
+    const session = new SDK.SessionManager(
+      api,
+      maker.account,
+      maker.signer,
+      SDK.getDomain(SN_SEPOLIA),
+      async (data) =>
+        SDK.castToApiSignature(await signer.signMessage(data, maker.account)),
+    );
+    expect((await session.start()).result).toBeDefined();
+    api.setCredentials("wrong", maker.account, maker.signer);
+    expect((await api.getUserInfo()).result!.nonce).toEqual(0);
+    expect(api.isJWTInvalid).toBe(false);
+
+    session.stop();
+    api.setCredentials("wrong", maker.account, maker.signer);
+    expect((await api.getUserInfo()).result).toBeUndefined();
+    expect(api.isJWTInvalid).toBe(true);
+  });
+
+  it("should reissue expired jwt token without sending it", async () => {
+    const transport = new SDK.EthersHttpTransport();
+    const api = new SDK.LayerAkiraHttpAPI(
+      { apiBaseUrl: exchange.httpUrl },
+      DECIMALS,
+      "STRK",
+      undefined,
+      undefined,
+      {
+        transport: {
+          // exchange rejects expired token on any endpoint
+          send: async (request) =>
+            request.url.includes("/sign/") && request.headers.Authorization
+              ? {
+                  statusCode: 401,
+                  headers: {},
+                  body: JSON.stringify({ error: "Auth header invalid" }),
+                }
+              : await transport.send(request),
+        },
+      },
+    );
+    const signer = new Signer(maker.privateKey);
+    const session = new SDK.SessionManager(
+      api,
+      maker.account,
+      maker.signer,
+      SDK.getDomain(SN_SEPOLIA),
+      async (data) =>
+        SDK.castToApiSignature(await signer.signMessage(data, maker.account)),
+    );
+    expect((await session.start()).result).toBeDefined();
+    api.setCredentials("expired", maker.account, maker.signer);
+    expect((await api.getUserInfo()).result!.nonce).toEqual(0);
+    expect((await session.refresh()).result).toBeDefined();
+    session.stop();
+  });
+
+  it("should retry, throttle and break circuit according to configuration", async () => {
+    const retrying = await login(exchange, maker, {
+      retry: { idempotent: { baseDelayMillis: 10, jitter: false } },
+      circuitBreaker: { failureThreshold: 3, resetTimeoutMillis: 200 },
+    });
+    exchange.injectFailure("GET /gas/price", 503, 2);
+    expect((await retrying.queryGasPrice()).result).toEqual(100_000_000n);
+
+    const order = builderFor(maker).buildSimpleRestingOrder(
+      TICKER,
+      2000n * 10n ** 6n,
+      { base_qty: 10n ** 18n, quote_qty: 0n, base_asset: 10n ** 18n },
+      SDK.OrderSide.SELL,
+    );
+    exchange.injectFailure("POST /place_order", 503);
+    const failed = await retrying.placeOrder(order, ["0", "0"]);
+    expect(failed.code).toEqual(503);
+    expect(failed.result).toBeUndefined();
+
+    const started = Date.now();
+    exchange.injectFailure("POST /place_order", 429, 1, 1);
+    const placed = await retrying.placeOrder(order, ["0", "0"]);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    expect(placed.result).toBeDefined();
+
+    exchange.injectFailure("GET /gas/price", 503, 3);
+    expect((await retrying.queryGasPrice()).code).toEqual(503);
+    expect(retrying.circuitBreaker!.state).toEqual(SDK.CircuitState.OPEN);
+    const rejected = await retrying.queryGasPrice();
+    expect(rejected.error).toContain("Circuit breaker is open");
+    await timeout(200);
+    expect((await retrying.queryGasPrice()).result).toEqual(100_000_000n);
+    expect(retrying.circuitBreaker!.state).toEqual(SDK.CircuitState.CLOSED);
+  });
+
+  it("should send requests via custom transport and interceptors", async () => {
+    const sent: SDK.HttpRequest[] = [];
+    const logs: string[] = [];
+    const ethersTransport = new SDK.EthersHttpTransport();
+    const api = await login(exchange, maker, {
+      transport: {
+        send: async (request) => {
+          sent.push(request);
+          return await ethersTransport.send(request);
+        },
+      },
+      interceptors: [
+        SDK.headersInterceptor({ "x-trace-id": "trace" }),
+        SDK.loggingInterceptor((arg) => logs.push(arg)),
+      ],
+    });
+    api.logger = (arg) => logs.push(arg);
+    const order = builderFor(maker).buildSimpleRestingOrder(
+      TICKER,
+      2000n * 10n ** 6n,
+      { base_qty: 10n ** 18n, quote_qty: 0n, base_asset: 10n ** 18n },
+      SDK.OrderSide.SELL,
+    );
+    expect(
+      (await api.placeOrder(order, ["0x123abc", "0x456def"])).result,
+    ).toBeDefined();
+
+    const place = sent.find((r) => r.url.endsWith("/place_order"))!;
+    expect(place.method).toEqual("POST");
+    expect(place.headers["x-trace-id"]).toEqual("trace");
+    expect(place.body).toContain("0x123abc");
+    expect(logs.some((l) => l.includes("POST") && l.includes("-> 200"))).toBe(
+      true,
+    );
+    expect(logs.some((l) => l.includes("0x123abc"))).toBe(false);
+    expect(logs.some((l) => l.includes("mock_jwt"))).toBe(false);
+  });
+
+  it("should notify depth book views on changes of derived values", async () => {
+    const makerApi = await login(exchange, maker);
+    const takerApi = await login(exchange, taker);
+    wsClient = new SDK.LayerAkiraWSSAPI(
+      exchange.wsUrl,
+      makerApi,
+      true,
+      undefined,
+      100,
+    );
+    wsClient.connect();
+    await timeout(200);
+    const depthBook = new SDK.DepthBook(makerApi, wsClient, [TICKER]);
+    await depthBook.run();
+    await timeout(200);
+
+    const mids: (bigint | undefined)[] = [];
+    const view = depthBook.createView(TICKER.pair, SDK.getMidPrice);
+    view.onChange((mid) => mids.push(mid));
+    const place = async (
+      api: SDK.LayerAkiraHttpAPI,
+      user: typeof maker,
+      side: SDK.OrderSide,
+      price: bigint,
+    ) =>
+      await api.placeOrder(
+        builderFor(user).buildSimpleRestingOrder(
+          TICKER,
+          price,
+          { base_qty: 10n ** 17n, quote_qty: 0n, base_asset: 10n ** 18n },
+          side,
+        ),
+        ["0", "0"],
+      );
+    await place(makerApi, maker, SDK.OrderSide.SELL, 2010n * 10n ** 6n);
+    await timeout(100);
+    await place(takerApi, taker, SDK.OrderSide.BUY, 1990n * 10n ** 6n);
+    await timeout(100);
+    await place(makerApi, maker, SDK.OrderSide.SELL, 2020n * 10n ** 6n);
+    await timeout(100);
+    expect(mids).toEqual([2000n * 10n ** 6n]);
+    expect(view.value).toEqual(2000n * 10n ** 6n);
+  });
+
+  it("should reconcile quote ladder and pull quotes on stop", async () => {
+    const trader = new SDK.Trader(
+      {
+        apiBaseUrl: exchange.httpUrl,
+        wssPath: exchange.wsUrl,
+        tokenMapping: { ETH: "0x1", USDC: "0x2", STRK: "0x3" },
+        coreAddress: "0x4",
+        executorAddress: "0x5",
+        routerAddress: "0x6",
+        baseFeeToken: "STRK",
+        tradingAccount: maker.account,
+        signer: maker.signer,
+      },
+      DECIMALS,
+      SN_SEPOLIA.toString(),
+      new Signer(maker.privateKey),
+    );
+    await trader.init();
+    wsClient = new SDK.LayerAkiraWSSAPI(
+      exchange.wsUrl,
+      trader.httpClient,
+      true,
+      undefined,
+      100,
+    );
+    wsClient.connect();
+    await timeout(200);
+    const tracker = new SDK.OrderTracker(trader.httpClient, wsClient);
+    await tracker.run(1000);
+    const quotes = new SDK.QuoteManager(trader, tracker, undefined, {
+      minUpdateIntervalMillis: 50,
+    });
+    const level = (price: bigint) => ({
+      side: SDK.OrderSide.SELL,
+      price: price * 10n ** 6n,
+      baseQty: 10n ** 17n,
+    });
+
+    quotes.setQuotes(TICKER, [level(2010n)]);
+    quotes.setQuotes(TICKER, [level(2010n), level(2020n)]);
+    await timeout(1000);
+    const live = quotes.getLiveQuotes(TICKER);
+    expect(live.map((q) => q.price)).toEqual([
+      2010n * 10n ** 6n,
+      2020n * 10n ** 6n,
+    ]);
+    expect(exchange.engine.getRestingOrder(live[1].hash)).toBeDefined();
+
+    quotes.setQuotes(TICKER, [level(2010n), level(2030n)]);
+    const update = (await quotes.reconcile(TICKER)).result!;
+    expect(update.kept).toEqual([live[0].hash]);
+    expect(update.cancelled).toEqual([live[1].hash]);
+    expect(update.placed.length).toEqual(1);
+    await timeout(50);
+    expect(exchange.engine.getRestingOrder(live[1].hash)).toBeUndefined();
+
+    const first = quotes.reconcile(TICKER);
+    quotes.setQuotes(TICKER, [level(2010n), level(2030n), level(2040n)]);
+    await Promise.all([
+      first,
+      quotes.reconcile(TICKER),
+      quotes.reconcile(TICKER),
+    ]);
+    expect(
+      quotes.getLiveQuotes(TICKER).filter((q) => q.price === 2040n * 10n ** 6n)
+        .length,
+    ).toEqual(1);
+
+    expect((await quotes.stop()).result!.length).toEqual(1);
+    await timeout(50);
+    expect(exchange.engine.getRestingOrder(live[0].hash)).toBeUndefined();
+    expect(exchange.engine.getRestingOrder(update.placed[0])).toBeUndefined();
+    expect(quotes.isHalted()).toBe(true);
+    expect(SDK.isValidationError(await quotes.reconcile(TICKER))).toBe(true);
+    await tracker.stop(1000);
+  });
+});
+
+describe("mock matching engine", () => {
+  it("should report slippage only for takers stopped by protection price", () => {
+    const engine = new MatchingEngine();
+    let id = 0;
+    const place = (isSellSide: boolean, price: bigint, isMarketOrder = false) =>
+      engine.place({
+        hash: `0x${++id}`,
+        maker: isSellSide ? maker.account : taker.account,
+        pair: TICKER.pair,
+        isEcosystemBook: true,
+        isSellSide,
+        price: price * 10n ** 6n,
+        baseQty: 10n ** 18n,
+        quoteQty: 0n,
+        baseAsset: 10n ** 18n,
+        postOnly: false,
+        isMarketOrder,
+        fullFillOnly: false,
+        bestLevelOnly: false,
+        stp: SDK.STPMode.NONE,
+        nonce: 0,
+      });
+    place(true, 2000n);
+    const resting = place(false, 1990n);
+    expect(resting.matcherResult).toEqual(SDK.MatchingEngineResult.OK);
+    expect(resting.resting).toBeDefined();
+    const market = place(false, 1995n, true);
+    expect(market.matcherResult).toEqual(SDK.MatchingEngineResult.SLIPPAGE);
+    expect(market.resting).toBeUndefined();
+  });
+});
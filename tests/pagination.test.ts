@@ -0,0 +1,136 @@
+import * as SDK from "../src";
+
+const PAIR = { base: "ETH", quote: "USDC", is_ecosystem_book: false };
+
+function fakeIndexer(count: number, failures: SDK.Result<never>[] = []) {
+  const requests: any[] = [];
+  const items = Array.from({ length: count }, (_, i) => i);
+  const page = async (params: any) => {
+    requests.push(params);
+    const failure = failures.shift();
+    if (failure !== undefined) return failure;
+    const start = params.cursor === null ? 0 : Number(params.cursor) + 1;
+    const data = items.slice(start, start + Number(params.num));
+    return {
+      result: { data, cursor: data.length ? String(data.at(-1)) : null },
+    };
+  };
+  const indexer = Object.assign(Object.create(SDK.IndexerAPI.prototype), {
+    // orders from latest to oldest, created every 10 seconds
+    getTraderOrders: async (params: any) => {
+      const res = await page(params);
+      return res.result === undefined
+        ? res
+        : {
+            result: {
+              ...res.result,
+              data: res.result.data.map((i) => ({
+                order_hash: `0x${i}`,
+                created_at: (count - i) * 10,
+              })),
+            },
+          };
+    },
+    // klines from the earliest, one per minute
+    getKlineByTicker: async (params: any) => {
+      const res = await page(params);
+      return res.result === undefined
+        ? res
+        : {
+            result: {
+              ...res.result,
+              data: res.result.data.map((i) => ({ start_time: i * 60_000 })),
+            },
+          };
+    },
+  }) as SDK.IndexerAPI;
+  return { indexer, requests };
+}
+
+describe("pagination", () => {
+  it("should iterate over all pages and cap collected items", async () => {
+    const { indexer, requests } = fakeIndexer(7);
+    const hashes: string[] = [];
+    for await (const order of indexer.iterateTraderOrders(
+      { trader: "0x1" },
+      { pageSize: 3 },
+    ))
+      hashes.push(order.order_hash);
+    expect(hashes.length).toEqual(7);
+    expect(requests.map((r) => [r.cursor, r.num])).toEqual([
+      [null, "3"],
+      ["2", "3"],
+      ["5", "3"],
+      ["6", "3"],
+    ]);
+
+    const capped = await SDK.collect(
+      indexer.iterateTraderOrders({ trader: "0x1" }, { pageSize: 3 }),
+      4,
+    );
+    expect(capped.result!.map((o) => o.order_hash)).toEqual([
+      "0x0",
+      "0x1",
+      "0x2",
+      "0x3",
+    ]);
+    expect(requests.length).toEqual(6);
+
+    const stopped = await SDK.collect(
+      indexer.iterateTraderOrders(
+        { trader: "0x1" },
+        { stopWhen: (o) => o.order_hash === "0x2" },
+      ),
+    );
+    expect(stopped.result!.length).toEqual(2);
+  });
+
+  it("should filter by time window and stop once stream leaves it", async () => {
+    const { indexer, requests } = fakeIndexer(100);
+    const klines = await SDK.collect(
+      indexer.iterateKlineByTicker(
+        { pair: PAIR, duration: "1m" },
+        { pageSize: 10, from: 120_000, to: 300_000 },
+      ),
+    );
+    expect(klines.result!.map((k) => k.start_time / 60_000)).toEqual([
+      2, 3, 4, 5,
+    ]);
+    expect(requests.length).toEqual(1);
+
+    const orders = await SDK.collect(
+      indexer.iterateTraderOrders(
+        { trader: "0x1" },
+        { pageSize: 10, from: 950_000, to: 980_000 },
+      ),
+    );
+    // created_at of orders are 1000, 990, 980 ... seconds
+    expect(orders.result!.map((o) => o.created_at)).toEqual([
+      980, 970, 960, 950,
+    ]);
+    expect(requests.length).toEqual(2);
+  });
+
+  it("should retry transient failures and surface other ones", async () => {
+    const retry = { baseDelayMillis: 1, jitter: false };
+    const transient = { error: "Timeout", reason: SDK.ErrorReason.TIMEOUT };
+    const flaky = fakeIndexer(5, [transient, transient]);
+    const res = await SDK.collect(
+      flaky.indexer.iterateTraderOrders(
+        { trader: "0x1" },
+        { retry: { ...retry, maxAttempts: 3 } },
+      ),
+    );
+    expect(res.result!.length).toEqual(5);
+
+    const broken = fakeIndexer(5, [
+      { error: "Bad cursor", reason: SDK.ErrorReason.VALIDATION, code: 400 },
+    ]);
+    const failed = await SDK.collect(
+      broken.indexer.iterateTraderOrders({ trader: "0x1" }, { retry }),
+    );
+    expect(SDK.isValidationError(failed)).toBe(true);
+    expect(failed.code).toEqual(400);
+    expect(broken.requests.length).toEqual(1);
+  });
+});
@@ -0,0 +1,145 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const PAIR = { base: "ETH", quote: "USDC" };
+
+const fill = (hash: string, isSellSide: boolean, price: bigint) => ({
+  orderHash: hash,
+  pair: PAIR,
+  isSellSide,
+  baseQty: ETH,
+  quoteQty: price * USDC,
+});
+
+function dbOrder(hash: string, isSell: boolean, txHash: string) {
+  return {
+    order_hash: hash,
+    is_sell_side: isSell,
+    tx_hash: txHash,
+    base_asset: ETH.toString(),
+    fixed_fee_token: "USDC",
+    paid_as_maker_exchange: "0",
+    paid_as_taker_exchange: "100",
+    paid_as_maker_router: "0",
+    paid_as_taker_router: "10",
+    gas_token: "STRK",
+    paid_gas: "5",
+  };
+}
+
+function dbTrade(takerHash: string, price: bigint, idx: number) {
+  return {
+    maker_hash: "0xother",
+    taker_hash: takerHash,
+    ticker: ["ETH", "USDC"],
+    amount_base: ETH.toString(),
+    amount_quote: (price * USDC).toString(),
+    is_failed: false,
+    event_block: 1,
+    tx_index: 0,
+    event_idx: idx,
+  };
+}
+
+describe("pnl", () => {
+  it("should account positions with every cost basis method", () => {
+    const expected = {
+      [SDK.CostBasisMethod.FIFO]: { realized: 50n, costBasis: 200n },
+      [SDK.CostBasisMethod.LIFO]: { realized: -50n, costBasis: 100n },
+      [SDK.CostBasisMethod.AVERAGE]: { realized: 0n, costBasis: 150n },
+    };
+    for (const [method, { realized, costBasis }] of Object.entries(expected)) {
+      const engine = new SDK.PnLEngine(undefined, "0x1", undefined, {
+        method: method as SDK.CostBasisMethod,
+      });
+      engine.addFill(fill("0xa", false, 100n));
+      engine.addFill(fill("0xb", false, 200n));
+      engine.addFill(fill("0xc", true, 150n));
+      engine.setMarkPrice(PAIR, 300n * USDC);
+      expect(engine.getPairPnL(PAIR)).toEqual(
+        expect.objectContaining({
+          position: ETH,
+          realized: realized * USDC,
+          costBasis: costBasis * USDC,
+          avgPrice: costBasis * USDC,
+          unrealized: (300n - costBasis) * USDC,
+          fills: 3,
+        }),
+      );
+    }
+
+    const engine = new SDK.PnLEngine(undefined, "0x1");
+    engine.addFill(fill("0xa", false, 100n));
+    engine.addFill({
+      ...fill("0xb", true, 0n),
+      baseQty: 3n * ETH,
+      quoteQty: 360n * USDC,
+    });
+    engine.setMarkPrice(PAIR, 110n * USDC);
+    expect(engine.getPairPnL(PAIR)).toEqual(
+      expect.objectContaining({
+        position: -2n * ETH,
+        realized: 20n * USDC,
+        costBasis: 240n * USDC,
+        unrealized: 20n * USDC,
+      }),
+    );
+  });
+
+  it("should load history from indexer and skip fills already seen live", async () => {
+    const indexer = Object.assign(Object.create(SDK.IndexerAPI.prototype), {
+      getTraderOrders: async ({ cursor }: { cursor: string | null }) => ({
+        result:
+          cursor === null
+            ? { data: [dbOrder("0xsell", true, "0xt2")], cursor: "0xsell" }
+            : cursor === "0xsell"
+              ? { data: [dbOrder("0xbuy", false, "0xt1")], cursor: "0xbuy" }
+              : { data: [], cursor: null },
+      }),
+      getTradesByTxHash: async (txHash: string) => ({
+        result:
+          txHash === "0xt1"
+            ? [dbTrade("0xbuy", 2000n, 0), dbTrade("0xbuy", 2100n, 1)]
+            : [dbTrade("0xsell", 2200n, 0)],
+      }),
+    });
+    const engine = new SDK.PnLEngine(indexer, "0x1");
+    // first trade of the buy was already accounted from execution report
+    engine.applyOrder({
+      hash: "0xbuy",
+      pair: PAIR,
+      isSellSide: false,
+      accBaseQty: ETH,
+      accQuoteQty: 2000n * USDC,
+    } as SDK.TrackedOrder);
+
+    expect((await engine.load()).result).toEqual(2);
+    expect((await engine.load()).result).toEqual(0);
+    expect(engine.getPairPnL(PAIR)).toEqual(
+      expect.objectContaining({
+        position: ETH,
+        realized: 200n * USDC,
+        costBasis: 2100n * USDC,
+        fills: 3,
+      }),
+    );
+    expect(engine.getFees()).toEqual({
+      exchange: { USDC: 200n },
+      router: { USDC: 20n },
+      gas: { STRK: 10n },
+    });
+  });
+
+  it("should export report as csv", () => {
+    const engine = new SDK.PnLEngine(undefined, "0x1");
+    engine.addFill(fill("0xa", false, 100n));
+    const csv = SDK.pnlReportToCsv(engine.getReport()).split("\n");
+    expect(csv[0]).toEqual(
+      "base,quote,position,costBasis,avgPrice,realized,markPrice,unrealized,boughtBase,boughtQuote,soldBase,soldQuote,fills",
+    );
+    expect(csv[1]).toEqual(
+      `ETH,USDC,${ETH},100000000,100000000,0,,,${ETH},100000000,0,0,1`,
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const TOKENS = { ETH: "0xeth", USDC: "0xusdc" };
+
+function setup() {
+  const state = {
+    exchange: { ETH: 2n * ETH, USDC: 1000n * USDC },
+    locked: { ETH: ETH, USDC: 0n },
+    onchain: [2n * ETH, 1000n * USDC],
+    wallet: 3n * ETH,
+    deposit: "0xa",
+  };
+  const http = {
+    getTradingAccount: () => "0x123",
+    getUserInfo: async () => ({
+      result: {
+        balances: Object.entries(state.exchange).map(([token, balance]) => ({
+          token,
+          balance,
+          locked: state.locked[token as "ETH" | "USDC"],
+        })),
+      },
+    }),
+  };
+  const contract = { balancesOf: async () => ({ result: state.onchain }) };
+  const wallet = { balanceOf: async () => ({ result: state.wallet }) };
+  const quoter = {
+    erc20ToDecimals: { ETH: 18, USDC: 6 },
+    getPrices: async () => ({ result: { ETH: 2000n * ETH, USDC: USDC } }),
+  };
+  const indexer = {
+    getTraderDeposits: async () => ({
+      result: { data: [{ tx_hash: state.deposit, event_idx: 0 }] },
+    }),
+    getTraderWithdrawals: async () => ({ result: { data: [] } }),
+  };
+  let onUpdate: () => void = () => {};
+  const tracker = {
+    onUpdate: (listener: () => void) => (onUpdate = listener),
+  };
+  const portfolio = new SDK.Portfolio(
+    http as unknown as SDK.LayerAkiraHttpAPI,
+    TOKENS,
+    {
+      contract: contract as unknown as SDK.LayerAkiraContract,
+      wallets: { ETH: wallet as unknown as SDK.ERC20Contract },
+      quoter: quoter as unknown as SDK.LayerAkiraUIQuoter,
+      indexer: indexer as unknown as SDK.IndexerAPI,
+    },
+    undefined,
+    { refreshDebounceMillis: 10, pollIntervalMillis: 10 },
+  );
+  portfolio.attach(tracker as unknown as SDK.OrderTracker);
+  return { portfolio, state, executionReport: () => onUpdate() };
+}
+
+const timeout = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("portfolio", () => {
+  it("should merge balances of all sources and value them", async () => {
+    const { portfolio } = setup();
+    const res = await portfolio.refresh();
+    expect(res.result!.length).toEqual(2);
+    expect(portfolio.getBalance("ETH")).toEqual({
+      token: "ETH",
+      exchange: 2n * ETH,
+      locked: ETH,
+      available: ETH,
+      onchain: 2n * ETH,
+      wallet: 3n * ETH,
+      total: 5n * ETH,
+      inSync: true,
+      price: 2000n * ETH,
+      value: 10_000n * USDC,
+    });
+    expect(portfolio.getBalance("USDC")!.wallet).toBeUndefined();
+    expect(portfolio.getTotalValue()).toEqual(11_000n * USDC);
+    expect(portfolio.getDiscrepancies()).toEqual([]);
+  });
+
+  it("should refresh on execution reports and flag discrepancies", async () => {
+    const { portfolio, state, executionReport } = setup();
+    await portfolio.refresh();
+    const changes: SDK.TokenBalance[] = [];
+    portfolio.onChange((b) => changes.push(b));
+    state.exchange.ETH = ETH;
+    state.exchange.USDC = 3000n * USDC;
+    executionReport();
+    executionReport();
+    await timeout(50);
+    expect(changes.map((b) => b.token)).toEqual(["ETH", "USDC"]);
+    expect(portfolio.getDiscrepancies().map((b) => b.token)).toEqual([
+      "ETH",
+      "USDC",
+    ]);
+    state.onchain = [ETH, 3000n * USDC];
+    await portfolio.refresh();
+    expect(portfolio.getDiscrepancies()).toEqual([]);
+    expect(changes.length).toEqual(4);
+  });
+
+  it("should refresh on new deposits found by indexer", async () => {
+    const { portfolio, state } = setup();
+    await portfolio.run();
+    const changes: SDK.TokenBalance[] = [];
+    portfolio.onChange((b) => changes.push(b));
+    await timeout(30);
+    expect(changes).toEqual([]);
+    state.deposit = "0xb";
+    state.exchange.ETH = 4n * ETH;
+    state.onchain = [4n * ETH, 1000n * USDC];
+    await timeout(50);
+    portfolio.stop();
+    expect(changes.length).toEqual(1);
+    expect(changes[0]).toEqual(
+      expect.objectContaining({
+        token: "ETH",
+        exchange: 4n * ETH,
+        inSync: true,
+      }),
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as SDK from "../src";
+import {
+  MarketDataRecorder,
+  MarketDataReplayer,
+  RecordedFrame,
+  RecordFormat,
+  readRecording,
+} from "../src/replay";
+
+const DECIMALS = { ETH: 18, USDC: 6 };
+const TICKER = { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: false };
+
+function frame(stream: SDK.SocketEvent, result: Record<string, any>) {
+  return JSON.stringify({
+    stream,
+    pair: TICKER.pair,
+    ecosystem: false,
+    result: { ...result, pair: TICKER.pair },
+  });
+}
+
+function tradeFrame(price: string, time: number) {
+  return frame(SDK.SocketEvent.TRADE, {
+    price,
+    base_qty: "0.5",
+    quote_qty: "1000",
+    is_sell_side: false,
+    time,
+  });
+}
+
+function deltaFrame(msgId: number, bid: string) {
+  return frame(SDK.SocketEvent.BOOK_DELTA, {
+    bids: [[bid, "1.5", 2]],
+    asks: [],
+    msg_id: `${msgId}`,
+    msg_ids_start: `${msgId}`,
+    msg_ids_end: `${msgId}`,
+    time: msgId,
+  });
+}
+
+function wsClient() {
+  return new SDK.LayerAkiraWSSAPI(
+    "ws://127.0.0.1:1/ws",
+    { erc20ToDecimals: DECIMALS } as unknown as SDK.LayerAkiraHttpAPI,
+    false,
+  );
+}
+
+describe("market data replay", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "akira-md-"));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("should record frames of the client with filtering and rotation", async () => {
+    const ws = wsClient();
+    ws.startReplay();
+    const ndjson = new MarketDataRecorder(dir, undefined, {
+      streams: [SDK.SocketEvent.TRADE],
+      maxFileBytes: 300,
+    });
+    ndjson.attach(ws);
+    const trades = ["2000", "2001", "2002"].map((p, i) =>
+      tradeFrame(p, 1000 * i),
+    );
+    await ws.handleFrame(JSON.stringify({ id: 1, result: "OK" }));
+    await ws.handleFrame(deltaFrame(1, "1999"));
+    for (const trade of trades) await ws.handleFrame(trade);
+    await ndjson.stop();
+    await ws.handleFrame(tradeFrame("2003", 3000));
+    expect(ndjson.files.length).toEqual(3);
+
+    const recorded: RecordedFrame[] = [];
+    for await (const f of readRecording(ndjson.files)) recorded.push(f);
+    expect(recorded.map((f) => f.data)).toEqual(trades);
+
+    const binary = new MarketDataRecorder(dir, undefined, {
+      format: RecordFormat.BINARY,
+      prefix: "bin",
+      rotateIntervalMillis: 1000,
+    });
+    binary.record(trades[0], 0);
+    binary.record(trades[1], 500);
+    binary.record(trades[2], 1500);
+    await binary.stop();
+    expect(binary.files.map((f) => path.basename(f))).toEqual([
+      "bin-0-0.bin",
+      "bin-1500-1.bin",
+    ]);
+    const frames: RecordedFrame[] = [];
+    for await (const f of readRecording(binary.files)) frames.push(f);
+    expect(frames).toEqual([
+      { time: 0, data: trades[0] },
+      { time: 500, data: trades[1] },
+      { time: 1500, data: trades[2] },
+    ]);
+  });
+
+  it("should feed recorded frames to subscribers stepwise and at speed", async () => {
+    const file = path.join(dir, "recorded.ndjson");
+    fs.writeFileSync(
+      file,
+      [
+        { t: 0, d: deltaFrame(1, "1999") },
+        { t: 10, d: tradeFrame("2000", 10) },
+        { t: 60_000, d: tradeFrame("2010.5", 60_000) },
+        { t: 60_010, d: "not json" },
+      ]
+        .map((r) => JSON.stringify(r))
+        .join("\n"),
+    );
+    const ws = wsClient();
+    const logs: string[] = [];
+    const replayer = new MarketDataReplayer(ws, (arg) => logs.push(arg), {
+      speed: 2,
+    });
+    expect((await replayer.load([file])).result).toEqual(4);
+
+    const trades: SDK.Trade[] = [];
+    const deltas: SDK.TableUpdate<bigint>[] = [];
+    expect(
+      (
+        await ws.subscribeOnMarketData(
+          async (evt) => {
+            trades.push(evt as unknown as SDK.Trade);
+          },
+          SDK.SocketEvent.TRADE,
+          TICKER,
+        )
+      ).result,
+    ).toEqual("OK");
+    expect(
+      await ws.subscribeOnDepthUpdate(TICKER, async (evt) => {
+        deltas.push(evt as SDK.TableUpdate<bigint>);
+      }),
+    ).toBe(true);
+
+    expect(await replayer.step()).toEqual(1);
+    expect(deltas[0].bids).toEqual([[1999_000_000n, 15n * 10n ** 17n, 2]]);
+
+    // second frame comes after 5ms, third one after 30 seconds so replay is paused
+    const running = replayer.run();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    replayer.pause();
+    await running;
+    expect(trades.map((t) => t.price)).toEqual([2000_000_000n]);
+    expect(replayer.time).toEqual(10);
+
+    expect(await replayer.step(5)).toEqual(2);
+    expect(trades.map((t) => t.price)).toEqual([2000_000_000n, 2010_500_000n]);
+    expect(replayer.remaining).toEqual(0);
+    expect(logs.some((l) => l.startsWith("Failed to replay frame"))).toBe(true);
+  });
+});
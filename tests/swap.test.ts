@@ -0,0 +1,165 @@
+import * as SDK from "../src";
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+const TICKER = { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: false };
+const book: SDK.Table<bigint> = {
+  bids: [
+    [1990n * USDC, 2n * ETH, 2],
+    [1980n * USDC, 4n * ETH, 1],
+  ],
+  asks: [
+    [2000n * USDC, 1n * ETH, 1],
+    [2010n * USDC, 2n * ETH, 4],
+  ],
+};
+const fee: SDK.OrderFee = {
+  trade_fee: { recipient: "0x1", maker_pbips: 0, taker_pbips: 100 }, // 1 bips
+  router_fee: { recipient: "0x2", maker_pbips: 0, taker_pbips: 200 },
+  integrator_fee: { recipient: "0x3", maker_pbips: 0, taker_pbips: 0 },
+  apply_to_receipt_amount: true,
+  gas_fee: {
+    gas_per_action: 0,
+    fee_token: "STRK",
+    max_gas_price: 0n,
+    conversion_rate: [1n, 1n],
+  },
+};
+const steps = { withdraw: 0, swapRouter: 100, swapEcosystem: 50, nonce: 0 };
+const simulator = new SDK.SwapSimulator(book, TICKER, fee, steps, 10n);
+
+describe("swap simulator", () => {
+  it("should walk asks for buy in base with fees and gas", () => {
+    const sim = simulator.simulate(
+      SDK.OrderSide.BUY,
+      { base_qty: 2n * ETH, quote_qty: 0n, base_asset: ETH },
+      100,
+    );
+    expect(sim.fills).toEqual([
+      { price: 2000n * USDC, baseQty: ETH, quoteQty: 2000n * USDC, trades: 1 },
+      { price: 2010n * USDC, baseQty: ETH, quoteQty: 2010n * USDC, trades: 2 },
+    ]);
+    expect(sim.unfilled).toEqual(0n);
+    expect(sim.averagePrice).toEqual(2005n * USDC);
+    expect(sim.priceImpactBips).toEqual(25);
+    expect(sim.grossSpend).toEqual(4010n * USDC);
+    expect(sim.netSpend).toEqual(4010n * USDC);
+    expect(sim.exchangeFee).toEqual(["ETH", 2n * 10n ** 14n]);
+    expect(sim.routerFee).toEqual(["ETH", 4n * 10n ** 14n]);
+    expect(sim.gasFee).toEqual(["STRK", 3000n]);
+    expect(sim.netReceive).toEqual(2n * ETH - 6n * 10n ** 14n);
+    expect(sim.protectionPrice).toEqual(2030100000n);
+    expect(sim.minReceiveAmount).toEqual((sim.netReceive * 99n) / 100n);
+  });
+
+  it("should walk bids for sell in quote and report unfilled amount", () => {
+    const sim = simulator.simulate(SDK.OrderSide.SELL, {
+      base_qty: 0n,
+      quote_qty: 3000n * USDC,
+      base_asset: ETH,
+    });
+    expect(sim.fills.map((f) => [f.price, f.baseQty])).toEqual([
+      [1990n * USDC, 1507537688442211055n],
+    ]);
+    expect(sim.trades).toEqual(2);
+    expect(sim.spendToken).toEqual("ETH");
+
+    const all = simulator.simulate(SDK.OrderSide.SELL, {
+      base_qty: 10n * ETH,
+      quote_qty: 0n,
+      base_asset: ETH,
+    });
+    expect(all.baseQty).toEqual(6n * ETH);
+    expect(all.unfilled).toEqual(4n * ETH);
+    expect(all.worstPrice).toEqual(1980n * USDC);
+  });
+});
+
+describe("sor path finder", () => {
+  const ticker = (base: string, quote: string) => ({
+    ticker: { pair: { base, quote }, isEcosystemBook: false },
+    rawPriceIncrement: 1n,
+    rawMinQuoteQty: 1n,
+    rawQuoteQtyIncrement: 1n,
+  });
+  const books: { [pair: string]: SDK.Table<bigint> } = {
+    "ETH/USDC": { bids: [[2000n * USDC, 10n * ETH, 1]], asks: [] },
+    "STRK/USDC": { bids: [], asks: [[USDC / 2n, 100_000n * ETH, 1]] },
+    "ETH/STRK": { bids: [[3500n * ETH, 10n * ETH, 1]], asks: [] },
+  };
+  const finder = new SDK.SorPathFinder(
+    [ticker("ETH", "USDC"), ticker("STRK", "USDC"), ticker("ETH", "STRK")],
+    (t) => books[`${t.pair.base}/${t.pair.quote}`],
+    new SDK.OrderConstructor(
+      "0x1",
+      0,
+      new SDK.TickerFeeMap([0, 0]),
+      SDK.NULL_ADDRESS,
+      50,
+      100,
+      "STRK",
+    ),
+    steps,
+    10n,
+    { ETH: 18, USDC: 6, STRK: 18 },
+  );
+
+  it("should prefer multi hop route when it yields more", () => {
+    const routes = finder.findRoutes("ETH", "STRK", ETH, false, 50);
+    expect(routes.map((r) => r.hops.length)).toEqual([2, 1]);
+    const best = routes[0];
+    expect(best.amountOut).toEqual(4000n * ETH);
+    expect(best.gasFee).toEqual(["STRK", 2000n]);
+    expect(best.score).toEqual(4000n * ETH - 2000n);
+    expect(best.leadSide).toEqual(SDK.OrderSide.SELL);
+    expect(best.leadQty.base_qty).toEqual(ETH);
+    expect(best.leadPrice).toEqual(1990n * USDC);
+    expect(best.context.path).toEqual([
+      {
+        price: ((USDC / 2n) * 10050n) / 10000n,
+        ticker: { base: "STRK", quote: "USDC" },
+        is_sell_side: false,
+        base_asset: ETH,
+      },
+    ]);
+    // gas paid in received token is deducted before slippage
+    expect(best.context.min_receive_amount).toEqual(3980n * ETH - 1990n);
+    expect(best.context.last_base_qty).toEqual(0n);
+  });
+
+  it("should find route for exact out amount", () => {
+    const best = finder.findBestRoute("ETH", "STRK", 1000n * ETH, true)!;
+    expect(best.hops.map((h) => [h.amountIn, h.amountOut])).toEqual([
+      [ETH / 4n, 500n * USDC],
+      [500n * USDC, 1000n * ETH],
+    ]);
+    expect(best.context.last_base_qty).toEqual(1000n * ETH);
+    expect(best.leadQty.base_qty).toEqual(ETH / 4n);
+    expect(best.context.max_spend_amount).toEqual(ETH / 4n);
+    expect(finder.findBestRoute("ETH", "BTC", ETH)).toBeUndefined();
+  });
+
+  it("should value gas by rate of the route if there is no book for it", () => {
+    const noDirectBook = new SDK.SorPathFinder(
+      [ticker("ETH", "USDC"), ticker("STRK", "USDC")],
+      (t) => books[`${t.pair.base}/${t.pair.quote}`],
+      new SDK.OrderConstructor(
+        "0x1",
+        0,
+        new SDK.TickerFeeMap([0, 0]),
+        SDK.NULL_ADDRESS,
+        50,
+        100,
+        "STRK",
+      ),
+      steps,
+      10n ** 12n,
+      { ETH: 18, USDC: 6, STRK: 18 },
+    );
+    const best = noDirectBook.findBestRoute("ETH", "STRK", 1000n * ETH, true)!;
+    expect(best.gasFee).toEqual(["STRK", 2n * 10n ** 14n]);
+    // 1000 STRK are bought for 0.25 ETH
+    expect(best.score).toEqual(ETH / 4n + 5n * 10n ** 10n);
+    expect(best.leadQty.base_qty).toEqual(ETH / 4n);
+  });
+});
@@ -0,0 +1,83 @@
+import * as SDK from "../src";
+
+const TICKER = { pair: { base: "ETH", quote: "USDC" }, isEcosystemBook: true };
+const validator = new SDK.OrderValidator([
+  {
+    ticker: TICKER,
+    rawPriceIncrement: 10n ** 4n,
+    rawMinQuoteQty: 10n ** 15n,
+    rawQuoteQtyIncrement: 10n ** 14n,
+  },
+]);
+const builder = new SDK.OrderConstructor(
+  "0x0111",
+  3,
+  new SDK.TickerFeeMap([0, 0]),
+  SDK.NULL_ADDRESS,
+  50,
+  100,
+  "STRK",
+);
+const userInfo: SDK.UserInfo = {
+  nonce: 3,
+  balances: [{ token: "USDC", balance: 3000n * 10n ** 6n, locked: 0n }],
+  fees: [],
+};
+
+function buy(price: bigint, baseQty: bigint, flags: Partial<SDK.OrderFlags>) {
+  const order = builder.buildSimpleRestingOrder(
+    TICKER,
+    price,
+    { base_qty: baseQty, quote_qty: 0n, base_asset: 10n ** 18n },
+    SDK.OrderSide.BUY,
+  );
+  return { ...order, flags: { ...order.flags, ...flags } };
+}
+
+describe("order validator", () => {
+  it("should accept valid order", () => {
+    expect(
+      validator.validate(buy(2000n * 10n ** 6n, 10n ** 18n, {}), userInfo),
+    ).toEqual([]);
+  });
+
+  it("should report ticker specification violations", () => {
+    const errors = validator.validate(
+      buy(2000n * 10n ** 6n + 1n, 10n ** 14n + 1n, {}),
+    );
+    expect(errors.map((e) => [e.code, e.field])).toEqual([
+      [SDK.OrderValidationCode.PRICE_TICK, "price"],
+      [SDK.OrderValidationCode.QTY_INCREMENT, "qty.base_qty"],
+      [SDK.OrderValidationCode.MIN_QTY, "qty.base_qty"],
+    ]);
+    const router = buy(2000n * 10n ** 6n, 10n ** 18n, {
+      to_ecosystem_book: false,
+    });
+    expect(validator.validate(router)[0].code).toEqual(
+      SDK.OrderValidationCode.UNKNOWN_TICKER,
+    );
+  });
+
+  it("should report flags, expiry, nonce and balance violations", () => {
+    const order = buy(2000n * 10n ** 6n, 2n * 10n ** 18n, {
+      is_market_order: true,
+      full_fill_only: true,
+      best_level_only: true,
+    });
+    const errors = validator.validate(
+      order,
+      { ...userInfo, nonce: 4 },
+      order.constraints.created_at + order.constraints.duration_valid,
+    );
+    expect(errors.map((e) => e.code)).toEqual([
+      SDK.OrderValidationCode.FLAGS_CONFLICT,
+      SDK.OrderValidationCode.FLAGS_CONFLICT,
+      SDK.OrderValidationCode.EXPIRED,
+      SDK.OrderValidationCode.NONCE_TOO_LOW,
+      SDK.OrderValidationCode.INSUFFICIENT_BALANCE,
+    ]);
+    expect(errors[4].message).toEqual(
+      "Order requires 4000000000 of USDC, free balance is 3000000000",
+    );
+  });
+});